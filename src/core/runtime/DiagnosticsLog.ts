@@ -0,0 +1,79 @@
+export type DiagnosticsSource = 'stderr' | 'rpc-in' | 'rpc-out' | 'lifecycle';
+
+export interface DiagnosticsEntry {
+  id: number;
+  timestamp: number;
+  source: DiagnosticsSource;
+  method?: string;
+  text: string;
+}
+
+export interface DiagnosticsFilter {
+  sources?: DiagnosticsSource[];
+  query?: string;
+}
+
+export const DIAGNOSTICS_CAPACITY = 500;
+export const DIAGNOSTICS_MAX_ENTRY_CHARS = 4000;
+
+const truncateText = (value: string): string => {
+  if (value.length <= DIAGNOSTICS_MAX_ENTRY_CHARS) return value;
+  const omitted = value.length - DIAGNOSTICS_MAX_ENTRY_CHARS;
+  return `${value.slice(0, DIAGNOSTICS_MAX_ENTRY_CHARS)}... (${omitted} more chars)`;
+};
+
+export class DiagnosticsLog {
+  private entries: DiagnosticsEntry[] = [];
+  private nextId = 1;
+  private listeners = new Set<() => void>();
+
+  constructor(private capacity: number = DIAGNOSTICS_CAPACITY) {}
+
+  record(source: DiagnosticsSource, text: string, method?: string): void {
+    const trimmed = text.trim();
+    if (!trimmed) return;
+    this.entries.push({
+      id: this.nextId++,
+      timestamp: Date.now(),
+      source,
+      method,
+      text: truncateText(trimmed),
+    });
+    if (this.entries.length > this.capacity) {
+      this.entries.splice(0, this.entries.length - this.capacity);
+    }
+    this.listeners.forEach((listener) => listener());
+  }
+
+  getEntries(filter: DiagnosticsFilter = {}): DiagnosticsEntry[] {
+    const sources = filter.sources && filter.sources.length > 0 ? new Set(filter.sources) : null;
+    const query = filter.query?.trim().toLowerCase() ?? '';
+    return this.entries.filter((entry) => {
+      if (sources && !sources.has(entry.source)) return false;
+      if (!query) return true;
+      return entry.text.toLowerCase().includes(query) || (entry.method ?? '').toLowerCase().includes(query);
+    });
+  }
+
+  clear(): void {
+    this.entries = [];
+    this.listeners.forEach((listener) => listener());
+  }
+
+  onChange(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+}
+
+export function formatDiagnosticsEntries(entries: DiagnosticsEntry[]): string {
+  return entries
+    .map((entry) => {
+      const time = new Date(entry.timestamp).toISOString();
+      const method = entry.method ? ` ${entry.method}` : '';
+      return `${time} [${entry.source}]${method} ${entry.text}`;
+    })
+    .join('\n');
+}
@@ -0,0 +1,13 @@
+export class AppServerTimeoutError extends Error {
+  constructor(readonly method: string, readonly timeoutMs: number) {
+    super(`App Server did not respond to ${method} within ${Math.round(timeoutMs / 1000)}s.`);
+    this.name = 'AppServerTimeoutError';
+  }
+}
+
+export class AppServerCancelledError extends Error {
+  constructor(readonly method: string) {
+    super(`Request ${method} was cancelled.`);
+    this.name = 'AppServerCancelledError';
+  }
+}
@@ -4,10 +4,33 @@ import * as os from 'os';
 import * as path from 'path';
 import * as readline from 'readline';
 
+import { splitUnifiedDiff } from '../../utils/diff';
 import { parseEnvVariables } from '../../utils/env';
-import { ApprovalManager } from '../security/ApprovalManager';
+import { ApprovalGrants } from '../security/ApprovalGrants';
+import {
+  ApprovalManager,
+  type ApprovalPolicySettings,
+  type ApprovalResolution,
+  type CommandPartAssessment,
+  formatToolIdentifier,
+} from '../security/ApprovalManager';
+import { DiagnosticsLog } from './DiagnosticsLog';
+import { AppServerCancelledError, AppServerTimeoutError } from './errors';
+import {
+  parseRuntimeNotification,
+  subtractTokenUsage,
+  type RateLimitSnapshot,
+  type ReasoningDelta,
+  type RuntimeNotice,
+  type RuntimeNotification,
+  type TokenUsageBreakdown,
+  type TokenUsageUpdate,
+} from './notifications';
 import type {
+  ApprovalAuditOutcome,
+  ApprovalAuditRecord,
   ApprovalDecision,
+  ApprovalGrantScope,
   ApprovalPolicy,
   ApprovalRule,
   AppServerAgentMessage,
@@ -19,6 +42,24 @@ import type {
   SandboxPolicy,
 } from '../types';
 
+export {
+  DiagnosticsLog,
+  formatDiagnosticsEntries,
+  type DiagnosticsEntry,
+  type DiagnosticsFilter,
+  type DiagnosticsSource,
+} from './DiagnosticsLog';
+export { AppServerCancelledError, AppServerTimeoutError } from './errors';
+export type { CommandPartAssessment, CommandPartStatus } from '../security/ApprovalManager';
+export type {
+  RateLimitSnapshot,
+  RateLimitWindow,
+  ReasoningDelta,
+  RuntimeNotice,
+  TokenUsageBreakdown,
+  TokenUsageUpdate,
+} from './notifications';
+
 export interface CodexRunHandlers {
   onStart: (turnId: string) => void;
   onDelta: (delta: string) => void;
@@ -28,8 +69,14 @@ export interface CodexRunHandlers {
   onItemCompleted?: (item: AppServerItem) => void;
   onPlanUpdated?: (plan: unknown, turnId: string) => void;
   onDiffUpdated?: (diff: unknown, turnId: string) => void;
+  onReasoningDelta?: (reasoning: ReasoningDelta) => void;
+  onTokenUsage?: (usage: TokenUsageUpdate) => void;
+  onRateLimits?: (rateLimits: RateLimitSnapshot) => void;
+  onThreadNameUpdated?: (name: string) => void;
+  onNotice?: (notice: RuntimeNotice) => void;
+  onTurnUsage?: (usage: TokenUsageBreakdown) => void;
   onError: (message: string) => void;
-  onComplete: () => void;
+  onComplete: (status?: string) => void;
 }
 
 export interface AppServerModel {
@@ -60,21 +107,68 @@ export interface AppServerMcpServerStatus {
 
 export type ApprovalRequestMethod =
   | 'item/commandExecution/requestApproval'
-  | 'item/fileChange/requestApproval';
+  | 'item/fileChange/requestApproval'
+  | 'item/mcpToolCall/requestApproval';
 
 export interface ApprovalRequest {
   method: ApprovalRequestMethod;
-  kind: 'commandExecution' | 'fileChange';
+  kind: 'commandExecution' | 'fileChange' | 'mcpToolCall';
+  threadId?: string;
+  turnId?: string;
   command?: string;
+  commandParts?: CommandPartAssessment[];
   paths: string[];
+  fileChanges?: ApprovalFileChange[];
+  toolCall?: ApprovalToolCall;
   params?: unknown;
 }
 
+export interface ApprovalToolCall {
+  server: string;
+  tool: string;
+  arguments?: unknown;
+}
+
+export interface ApprovalFileChange {
+  path: string;
+  kind?: string;
+  diff?: string;
+}
+
 export interface ApprovalRequestDecision {
   decision: ApprovalDecision;
   alwaysRule?: ApprovalRule;
+  grant?: {
+    rule: ApprovalRule;
+    scope: ApprovalGrantScope;
+  };
+}
+
+export type UserInputRequestMethod = 'tool/requestUserInput' | 'item/tool/requestUserInput';
+
+export interface UserInputOption {
+  label: string;
+  description?: string;
+}
+
+export interface UserInputQuestion {
+  id: string;
+  header?: string;
+  question: string;
+  options: UserInputOption[];
+  allowOther: boolean;
+}
+
+export interface UserInputRequest {
+  method: UserInputRequestMethod;
+  threadId?: string;
+  turnId?: string;
+  questions: UserInputQuestion[];
+  params?: unknown;
 }
 
+export type UserInputAnswers = Record<string, string[]>;
+
 export interface LocalImageInputItem {
   type: 'localImage';
   path: string;
@@ -135,10 +229,60 @@ export function buildTurnInputItems(
   return input;
 }
 
+export type ApprovalAuditEntry = Omit<ApprovalAuditRecord, 'id' | 'timestamp' | 'mode'>;
+
+export type ApprovalAuditHandler = (record: ApprovalAuditRecord) => void;
+
 export type ApprovalRequestHandler = (
   request: ApprovalRequest
 ) => Promise<ApprovalDecision | ApprovalRequestDecision>;
 
+export type UserInputRequestHandler = (request: UserInputRequest) => Promise<UserInputAnswers | null>;
+
+export interface ThreadBinding {
+  onApprovalRequest?: ApprovalRequestHandler;
+  onUserInputRequest?: UserInputRequestHandler;
+}
+
+export type RuntimeConnectionState = 'disconnected' | 'reconnecting' | 'reconnected' | 'failed';
+
+export interface RuntimeConnectionEvent {
+  state: RuntimeConnectionState;
+  attempt?: number;
+  message?: string;
+}
+
+export type RuntimeConnectionListener = (event: RuntimeConnectionEvent) => void;
+
+export const RECONNECT_BACKOFF_MS = [500, 1000, 2000, 4000, 8000] as const;
+
+export const DEFAULT_REQUEST_TIMEOUT_MS = 30_000;
+
+export const REQUEST_TIMEOUT_DEFAULTS_MS: Record<string, number> = {
+  initialize: 20_000,
+  'thread/list': 15_000,
+  'model/list': 15_000,
+  'skills/list': 15_000,
+  'collaborationMode/list': 15_000,
+  'mcpServerStatus/list': 15_000,
+  'thread/resume': 60_000,
+  'thread/fork': 60_000,
+  'thread/rollback': 60_000,
+};
+
+export interface RequestOptions {
+  signal?: AbortSignal;
+  timeoutMs?: number;
+}
+
+export function resolveRequestTimeout(method: string, overrides: Record<string, number> = {}): number {
+  const override = overrides[method];
+  if (typeof override === 'number' && Number.isFinite(override) && override >= 0) {
+    return override;
+  }
+  return REQUEST_TIMEOUT_DEFAULTS_MS[method] ?? DEFAULT_REQUEST_TIMEOUT_MS;
+}
+
 interface JsonRpcRequest {
   id: number;
   method: string;
@@ -179,6 +323,7 @@ const toApprovalDecision = (
   return {
     decision: normalizeApprovalDecision(decision.decision),
     alwaysRule: decision.alwaysRule,
+    grant: decision.grant,
   };
 };
 
@@ -194,6 +339,14 @@ const extractCommandFromApprovalParams = (params: unknown): string | undefined =
   return command?.trim() || undefined;
 };
 
+const extractToolCallFromApprovalParams = (params: unknown): ApprovalToolCall | undefined => {
+  const record = isRecord(params) ? params : undefined;
+  const server = getString(record?.server) ?? getString(record?.serverName) ?? getString(record?.mcpServer);
+  const tool = getString(record?.tool) ?? getString(record?.toolName) ?? getString(record?.name);
+  if (!server?.trim() || !tool?.trim()) return undefined;
+  return { server: server.trim(), tool: tool.trim(), arguments: record?.arguments ?? record?.args };
+};
+
 const extractFilePathsFromApprovalParams = (params: unknown): string[] => {
   const record = isRecord(params) ? params : undefined;
   const files = getArray(record?.files);
@@ -213,6 +366,129 @@ const extractFilePathsFromApprovalParams = (params: unknown): string[] => {
     .filter((entry) => entry.length > 0);
 };
 
+const buildContentDiff = (content: unknown, marker: '+' | '-'): string | undefined => {
+  const text = getString(content);
+  if (text === undefined) return undefined;
+  const lines = text.replace(/\r?\n$/, '').split(/\r?\n/);
+  const range = marker === '+' ? `-0,0 +1,${lines.length}` : `-1,${lines.length} +0,0`;
+  return [`@@ ${range} @@`, ...lines.map((line) => `${marker}${line}`)].join('\n');
+};
+
+const readFileChangeEntry = (entry: unknown, keyedPath?: string): ApprovalFileChange | null => {
+  if (typeof entry === 'string') {
+    const filePath = entry.trim();
+    return filePath ? { path: filePath } : null;
+  }
+  if (!isRecord(entry)) return null;
+  const filePath = (
+    getString(entry.move_path) ??
+    keyedPath ??
+    getString(entry.path) ??
+    getString(entry.filePath) ??
+    getString(entry.newPath) ??
+    getString(entry.oldPath)
+  )?.trim();
+  if (!filePath) return null;
+  const kindValue = entry.kind ?? entry.type;
+  const kind = getString(kindValue) ?? (isRecord(kindValue) ? getString(kindValue.type) : undefined);
+  const diff =
+    getString(entry.unifiedDiff) ??
+    getString(entry.unified_diff) ??
+    getString(entry.diff) ??
+    getString(entry.patch) ??
+    (kind === 'add' ? buildContentDiff(entry.content, '+') : undefined) ??
+    (kind === 'delete' ? buildContentDiff(entry.content, '-') : undefined);
+  return { path: filePath, kind, diff };
+};
+
+const extractFileChanges = (value: unknown): ApprovalFileChange[] => {
+  const record = isRecord(value) ? value : undefined;
+  if (!record) return [];
+  const changes: ApprovalFileChange[] = [];
+  const addChange = (change: ApprovalFileChange | null): void => {
+    if (!change) return;
+    const existing = changes.find((entry) => entry.path === change.path);
+    if (!existing) {
+      changes.push(change);
+      return;
+    }
+    existing.kind ??= change.kind;
+    existing.diff ??= change.diff;
+  };
+
+  for (const source of [record.changes, record.files]) {
+    if (Array.isArray(source)) {
+      source.forEach((entry) => addChange(readFileChangeEntry(entry)));
+    } else if (isRecord(source)) {
+      Object.entries(source).forEach(([filePath, entry]) => addChange(readFileChangeEntry(entry, filePath)));
+    }
+  }
+
+  const combined = getString(record.unifiedDiff) ?? getString(record.diff) ?? getString(record.patch);
+  if (combined) {
+    splitUnifiedDiff(combined).forEach((fileDiff) => addChange({ path: fileDiff.path, diff: fileDiff.diff }));
+  }
+  return changes;
+};
+
+const MAX_TRACKED_FILE_CHANGES = 50;
+
+const parseUserInputOption = (value: unknown): UserInputOption | null => {
+  if (typeof value === 'string') {
+    const label = value.trim();
+    return label ? { label } : null;
+  }
+  if (!isRecord(value)) return null;
+  const label = (getString(value.label) ?? getString(value.value))?.trim();
+  if (!label) return null;
+  const description = getString(value.description)?.trim();
+  return { label, description: description || undefined };
+};
+
+const parseUserInputQuestion = (value: unknown, index: number): UserInputQuestion | null => {
+  if (!isRecord(value)) return null;
+  const question = (getString(value.question) ?? getString(value.prompt) ?? getString(value.text))?.trim();
+  if (!question) return null;
+  const options = getArray(value.options)
+    .map((entry) => parseUserInputOption(entry))
+    .filter((entry): entry is UserInputOption => !!entry);
+  const header = getString(value.header)?.trim();
+  return {
+    id: getString(value.id)?.trim() || `question-${index + 1}`,
+    header: header || undefined,
+    question,
+    options,
+    allowOther: options.length === 0 || value.isOther === true || value.allowOther === true,
+  };
+};
+
+const extractUserInputQuestions = (params: unknown): UserInputQuestion[] => {
+  const record = isRecord(params) ? params : undefined;
+  const questions = getArray(record?.questions)
+    .map((entry, index) => parseUserInputQuestion(entry, index))
+    .filter((entry): entry is UserInputQuestion => !!entry);
+  if (questions.length > 0) {
+    return questions;
+  }
+
+  const schema = isRecord(record?.schema) ? record?.schema : undefined;
+  const prompt = (getString(record?.prompt) ?? getString(schema?.prompt))?.trim();
+  if (!prompt) {
+    return [];
+  }
+  return [{ id: 'response', question: prompt, options: [], allowOther: true }];
+};
+
+const buildUserInputResult = (answers: UserInputAnswers | null): { answers: Record<string, { answers: string[] }> } => {
+  const result: Record<string, { answers: string[] }> = {};
+  for (const [id, values] of Object.entries(answers ?? {})) {
+    const cleaned = values.map((value) => value.trim()).filter((value) => value.length > 0);
+    if (cleaned.length === 0) continue;
+    result[id] = { answers: cleaned };
+  }
+  return { answers: result };
+};
+
 const parseAppServerItem = (value: unknown): AppServerItem | null => {
   if (!isRecord(value)) return null;
   const type = getString(value.type);
@@ -505,10 +781,15 @@ class AppServerClient {
   private child: ChildProcessWithoutNullStreams | null = null;
   private nextId = 1;
   private pending = new Map<number, { resolve: (value: unknown) => void; reject: (error: Error) => void }>();
-  private notifications = new Set<(notification: JsonRpcNotification) => void>();
+  private notifications = new Set<(notification: RuntimeNotification) => void>();
+  private unknownMethods = new Set<string>();
+  private exitHandlers = new Set<(error: Error) => void>();
   private readyPromise: Promise<void> | null = null;
   private starting = false;
+  private stopping = false;
   private approvalRequestHandler: ApprovalRequestHandler | null = null;
+  private fileChangeItems = new Map<string, unknown>();
+  private userInputRequestHandler: UserInputRequestHandler | null = null;
 
   constructor(
     private command: string,
@@ -516,13 +797,20 @@ class AppServerClient {
     private env: NodeJS.ProcessEnv,
     private cwd: string,
     private approvalManager: ApprovalManager,
-    private onSettingsChanged: () => Promise<void>
+    private onSettingsChanged: () => Promise<void>,
+    private diagnostics: DiagnosticsLog,
+    private getRequestTimeout: (method: string) => number,
+    private onApprovalAudited: (entry: ApprovalAuditEntry) => void
   ) { }
 
   setApprovalRequestHandler(handler: ApprovalRequestHandler | null): void {
     this.approvalRequestHandler = handler;
   }
 
+  setUserInputRequestHandler(handler: UserInputRequestHandler | null): void {
+    this.userInputRequestHandler = handler;
+  }
+
   async start(): Promise<void> {
     if (this.readyPromise) return this.readyPromise;
 
@@ -532,6 +820,7 @@ class AppServerClient {
         return;
       }
       this.starting = true;
+      this.diagnostics.record('lifecycle', `Spawning ${[this.command, ...this.args].join(' ')}`);
       this.child = spawn(this.command, this.args, {
         cwd: this.cwd || process.cwd(),
         env: this.env,
@@ -545,10 +834,14 @@ class AppServerClient {
         const trimmed = line.trim();
         if (!trimmed) return;
         const parsed = safeJsonParse(trimmed);
-        if (!isRecord(parsed)) return;
+        if (!isRecord(parsed)) {
+          this.diagnostics.record('rpc-in', trimmed);
+          return;
+        }
 
         const idValue = parsed.id;
         const method = getString(parsed.method);
+        this.diagnostics.record('rpc-in', trimmed, method);
 
         if (typeof idValue === 'number' && method) {
           this.handleServerRequest({ id: idValue, method, params: parsed.params }).catch(() => undefined);
@@ -570,7 +863,12 @@ class AppServerClient {
         }
 
         if (method) {
-          const notification: JsonRpcNotification = { method, params: parsed.params };
+          const notification = parseRuntimeNotification(method, parsed.params);
+          if (notification.kind === 'unknown' && !this.unknownMethods.has(method)) {
+            this.unknownMethods.add(method);
+            this.diagnostics.record('lifecycle', `Unhandled notification: ${method}`, method);
+          }
+          this.trackFileChangeItem(notification);
           this.notifications.forEach((handler) => handler(notification));
         }
       });
@@ -578,10 +876,14 @@ class AppServerClient {
       child.stderr.on('data', (data: Buffer) => {
         const text = data.toString('utf8').trim();
         if (!text) return;
+        for (const line of text.split(/\r?\n/)) {
+          this.diagnostics.record('stderr', line);
+        }
       });
 
       child.on('error', (error) => {
         this.starting = false;
+        this.diagnostics.record('lifecycle', `Process error: ${error.message}`);
         if ((error as NodeJS.ErrnoException)?.code === 'ENOENT') {
           reject(new Error('Codex CLI not found. Set a valid CLI path or add codex to PATH.'));
           return;
@@ -591,9 +893,10 @@ class AppServerClient {
 
       child.on('exit', (code) => {
         this.starting = false;
-        if (code !== 0) {
-          reject(new Error(`App Server exited with code ${code ?? 'unknown'}.`));
-        }
+        const error = new Error(`App Server exited with code ${code ?? 'unknown'}.`);
+        this.diagnostics.record('lifecycle', error.message);
+        reject(error);
+        this.handleExit(child, error);
       });
 
       this.sendRequestInternal('initialize', {
@@ -609,6 +912,9 @@ class AppServerClient {
         })
         .catch((error) => {
           this.starting = false;
+          if (error instanceof AppServerTimeoutError) {
+            child.kill();
+          }
           reject(error instanceof Error ? error : new Error('App Server initialization failed.'));
         });
     });
@@ -617,94 +923,264 @@ class AppServerClient {
   }
 
   async stop(): Promise<void> {
+    this.stopping = true;
     if (this.child) {
       this.child.kill();
       this.child = null;
     }
-    this.pending.clear();
+    this.failPending(new Error('App Server stopped.'));
     this.readyPromise = null;
   }
 
-  onNotification(handler: (notification: JsonRpcNotification) => void): () => void {
+  onExit(handler: (error: Error) => void): () => void {
+    this.exitHandlers.add(handler);
+    return () => {
+      this.exitHandlers.delete(handler);
+    };
+  }
+
+  onNotification(handler: (notification: RuntimeNotification) => void): () => void {
     this.notifications.add(handler);
     return () => {
       this.notifications.delete(handler);
     };
   }
 
-  async sendRequest(method: string, params?: unknown): Promise<unknown> {
+  async sendRequest(method: string, params?: unknown, options: RequestOptions = {}): Promise<unknown> {
     await this.start();
-    return this.sendRequestInternal(method, params);
+    return this.sendRequestInternal(method, params, options);
   }
 
-  private async sendRequestInternal(method: string, params?: unknown): Promise<unknown> {
+  private async sendRequestInternal(
+    method: string,
+    params?: unknown,
+    options: RequestOptions = {}
+  ): Promise<unknown> {
+    const child = this.child;
+    if (!child) {
+      throw new Error('App Server is not running.');
+    }
+    const { signal } = options;
+    if (signal?.aborted) {
+      throw new AppServerCancelledError(method);
+    }
     const id = this.nextId++;
     const payload: JsonRpcRequest = { id, method, params };
-    const message = `${JSON.stringify(payload)}\n`;
-    this.child?.stdin.write(message);
+    const timeoutMs = options.timeoutMs ?? this.getRequestTimeout(method);
 
     return new Promise((resolve, reject) => {
-      this.pending.set(id, { resolve, reject });
+      let timer: ReturnType<typeof setTimeout> | null = null;
+      const cleanup = (): void => {
+        if (timer) clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+      };
+      const abandon = (error: Error): void => {
+        if (!this.pending.has(id)) return;
+        this.pending.delete(id);
+        cleanup();
+        this.diagnostics.record('lifecycle', error.message, method);
+        reject(error);
+      };
+      const onAbort = (): void => abandon(new AppServerCancelledError(method));
+
+      this.pending.set(id, {
+        resolve: (value) => {
+          cleanup();
+          resolve(value);
+        },
+        reject: (error) => {
+          cleanup();
+          reject(error);
+        },
+      });
+      if (timeoutMs > 0) {
+        timer = setTimeout(() => abandon(new AppServerTimeoutError(method, timeoutMs)), timeoutMs);
+      }
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.writeMessage(child, payload, method);
     });
   }
 
+  private writeMessage(
+    child: ChildProcessWithoutNullStreams,
+    payload: JsonRpcRequest | JsonRpcResponse | JsonRpcNotification,
+    method?: string
+  ): void {
+    const message = JSON.stringify(payload);
+    this.diagnostics.record('rpc-out', message, method);
+    child.stdin.write(`${message}\n`);
+  }
+
+  private handleExit(child: ChildProcessWithoutNullStreams, error: Error): void {
+    if (this.child !== child) return;
+    this.child = null;
+    this.readyPromise = null;
+    this.failPending(error);
+    if (this.stopping) return;
+    this.exitHandlers.forEach((handler) => handler(error));
+  }
+
+  private failPending(error: Error): void {
+    const pending = [...this.pending.values()];
+    this.pending.clear();
+    for (const entry of pending) {
+      entry.reject(error);
+    }
+  }
+
   sendNotification(method: string, params?: unknown): void {
+    if (!this.child) return;
     const payload: JsonRpcNotification = { method, params } as JsonRpcNotification;
-    const message = `${JSON.stringify(payload)}\n`;
-    this.child?.stdin.write(message);
+    this.writeMessage(this.child, payload, method);
+  }
+
+  private trackFileChangeItem(notification: RuntimeNotification): void {
+    if (notification.kind !== 'itemStarted' && notification.kind !== 'itemCompleted') return;
+    const item = isRecord(notification.item) ? notification.item : undefined;
+    const itemId = getString(item?.id);
+    if (!item || !itemId || item.type !== 'fileChange') return;
+    if (notification.kind === 'itemCompleted') {
+      this.fileChangeItems.delete(itemId);
+      return;
+    }
+    this.fileChangeItems.set(itemId, item);
+    if (this.fileChangeItems.size > MAX_TRACKED_FILE_CHANGES) {
+      const [oldest] = this.fileChangeItems.keys();
+      if (oldest !== undefined) this.fileChangeItems.delete(oldest);
+    }
   }
 
   private async handleServerRequest(request: JsonRpcRequest): Promise<void> {
     const { id, method } = request;
     if (!this.child) return;
 
+    const paramsRecord = isRecord(request.params) ? request.params : undefined;
+    const threadId = getString(paramsRecord?.threadId);
+    const turnId = getString(paramsRecord?.turnId);
+
     if (method === 'item/commandExecution/requestApproval') {
       const command = extractCommandFromApprovalParams(request.params);
-      const resolution = this.approvalManager.resolveCommand({ command });
-      const decision = resolution.requiresPrompt
-        ? await this.resolvePromptDecision({
-            method,
-            kind: 'commandExecution',
-            command,
-            paths: [],
-            params: request.params,
-          })
-        : resolution.decision;
+      const resolution = this.approvalManager.resolveCommand({ command, threadId, turnId });
+      const decision = await this.settleApproval(resolution, {
+        method,
+        kind: 'commandExecution',
+        threadId,
+        turnId,
+        command,
+        commandParts:
+          resolution.requiresPrompt && command
+            ? this.approvalManager.assessCommand(command, { threadId, turnId })
+            : undefined,
+        paths: [],
+        params: request.params,
+      });
       const response: JsonRpcResponse = { id, result: { decision } };
-      this.child.stdin.write(`${JSON.stringify(response)}\n`);
+      this.writeMessage(this.child, response, method);
       return;
     }
 
     if (method === 'item/fileChange/requestApproval') {
-      const paths = extractFilePathsFromApprovalParams(request.params);
-      const resolution = this.approvalManager.resolveFileChange({ paths });
-      const decision = resolution.requiresPrompt
-        ? await this.resolvePromptDecision({
-            method,
-            kind: 'fileChange',
-            paths,
-            params: request.params,
-          })
-        : resolution.decision;
+      const itemId = getString(paramsRecord?.itemId);
+      let fileChanges = extractFileChanges(request.params);
+      if (fileChanges.length === 0 && itemId) {
+        fileChanges = extractFileChanges(this.fileChangeItems.get(itemId));
+      }
+      const requestedPaths = extractFilePathsFromApprovalParams(request.params);
+      const paths = requestedPaths.length > 0 ? requestedPaths : fileChanges.map((change) => change.path);
+      const resolution = this.approvalManager.resolveFileChange({ paths, threadId, turnId });
+      const decision = await this.settleApproval(resolution, {
+        method,
+        kind: 'fileChange',
+        threadId,
+        turnId,
+        paths,
+        fileChanges: fileChanges.length > 0 ? fileChanges : undefined,
+        params: request.params,
+      });
       const response: JsonRpcResponse = { id, result: { decision } };
-      this.child.stdin.write(`${JSON.stringify(response)}\n`);
+      this.writeMessage(this.child, response, method);
+      return;
+    }
+
+    if (method === 'item/mcpToolCall/requestApproval') {
+      const toolCall = extractToolCallFromApprovalParams(request.params);
+      const resolution: ApprovalResolution = toolCall
+        ? this.approvalManager.resolveTool({ server: toolCall.server, tool: toolCall.tool, threadId, turnId })
+        : { decision: 'decline', requiresPrompt: true };
+      const decision = await this.settleApproval(resolution, {
+        method,
+        kind: 'mcpToolCall',
+        threadId,
+        turnId,
+        paths: [],
+        toolCall,
+        params: request.params,
+      });
+      const response: JsonRpcResponse = { id, result: { decision } };
+      this.writeMessage(this.child, response, method);
       return;
     }
 
     if (method === 'tool/requestUserInput' || method === 'item/tool/requestUserInput') {
-      // TODO: Wire this server user-input request into the chat UI when input prompts are supported.
-      const response: JsonRpcResponse = { id, result: { answers: {} } };
-      this.child.stdin.write(`${JSON.stringify(response)}\n`);
+      const answers = await this.resolveUserInput({
+        method,
+        threadId,
+        turnId,
+        questions: extractUserInputQuestions(request.params),
+        params: request.params,
+      });
+      const response: JsonRpcResponse = { id, result: buildUserInputResult(answers) };
+      this.writeMessage(this.child, response, method);
       return;
     }
 
     const response: JsonRpcResponse = { id, error: { message: `Unsupported request: ${method}` } };
-    this.child.stdin.write(`${JSON.stringify(response)}\n`);
+    this.writeMessage(this.child, response, method);
+  }
+
+  private async settleApproval(resolution: ApprovalResolution, request: ApprovalRequest): Promise<ApprovalDecision> {
+    if (!resolution.requiresPrompt) {
+      this.auditApproval(request, resolution.decision === 'accept' ? 'auto-accept' : 'auto-decline', resolution);
+      return resolution.decision;
+    }
+
+    const decision = await this.resolvePromptDecision(request);
+    if (decision.alwaysRule) {
+      this.auditApproval(request, 'always-rule', { createdRule: decision.alwaysRule });
+    } else if (decision.grant) {
+      this.auditApproval(request, `${decision.grant.scope}-grant`, { createdRule: decision.grant.rule });
+    } else {
+      this.auditApproval(request, decision.decision === 'accept' ? 'user-accept' : 'user-decline', {});
+    }
+    return decision.decision;
+  }
+
+  private auditApproval(
+    request: ApprovalRequest,
+    outcome: ApprovalAuditOutcome,
+    details: Pick<ApprovalAuditEntry, 'matchedRules' | 'blockedBy' | 'createdRule'>
+  ): void {
+    try {
+      this.onApprovalAudited({
+        outcome,
+        kind: request.kind,
+        threadId: request.threadId,
+        turnId: request.turnId,
+        command: request.command,
+        tool: request.toolCall ? formatToolIdentifier(request.toolCall.server, request.toolCall.tool) : undefined,
+        paths: request.paths,
+        matchedRules: details.matchedRules?.length ? details.matchedRules : undefined,
+        blockedBy: details.blockedBy,
+        createdRule: details.createdRule,
+      });
+    } catch {
+      // Auditing must never block the approval response.
+    }
   }
 
-  private async resolvePromptDecision(request: ApprovalRequest): Promise<ApprovalDecision> {
+  private async resolvePromptDecision(request: ApprovalRequest): Promise<ApprovalRequestDecision> {
     if (!this.approvalRequestHandler) {
-      return 'decline';
+      return { decision: 'decline' };
     }
 
     try {
@@ -713,30 +1189,119 @@ class AppServerClient {
       if (decision.decision === 'accept' && decision.alwaysRule) {
         this.approvalManager.addAllowRule(decision.alwaysRule);
         await this.onSettingsChanged();
+        return { decision: decision.decision, alwaysRule: decision.alwaysRule };
+      }
+      if (decision.decision === 'accept' && decision.grant) {
+        this.approvalManager.addGrant(decision.grant.rule, decision.grant.scope, request);
+        return { decision: decision.decision, grant: decision.grant };
       }
-      return decision.decision;
+      return { decision: decision.decision };
+    } catch {
+      return { decision: 'decline' };
+    }
+  }
+
+  private async resolveUserInput(request: UserInputRequest): Promise<UserInputAnswers | null> {
+    if (!this.userInputRequestHandler || request.questions.length === 0) {
+      return null;
+    }
+
+    try {
+      return await this.userInputRequestHandler(request);
     } catch {
-      return 'decline';
+      return null;
     }
   }
 }
 
+interface ActiveTurn {
+  fail: (message: string) => void;
+}
+
 export class CodexRuntime {
+  readonly diagnostics = new DiagnosticsLog();
+  readonly approvalGrants = new ApprovalGrants();
   private client: AppServerClient | null = null;
-  private approvalRequestHandler: ApprovalRequestHandler | null = null;
+  private activeThreadId: string | null = null;
+  private threadBindings = new Map<string, ThreadBinding>();
+  private threadPolicies = new Map<string, ApprovalPolicySettings>();
+  private activeTurns = new Set<ActiveTurn>();
+  private threadUsageTotals = new Map<string, TokenUsageBreakdown>();
+  private connectionListeners = new Set<RuntimeConnectionListener>();
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private reconnectAttempt = 0;
+  private reconnecting = false;
+  private isShutdown = false;
   private settingsChangedHandler: () => Promise<void> = async () => undefined;
+  private approvalAuditHandler: ApprovalAuditHandler = () => undefined;
 
   constructor(private settings: CodexianSettings, private vaultPath: string) { }
 
-  setApprovalRequestHandler(handler: ApprovalRequestHandler | null): void {
-    this.approvalRequestHandler = handler;
-    this.client?.setApprovalRequestHandler(handler);
+  bindThread(threadId: string, binding: ThreadBinding): () => void {
+    this.threadBindings.set(threadId, binding);
+    return () => {
+      if (this.threadBindings.get(threadId) === binding) {
+        this.threadBindings.delete(threadId);
+        this.threadPolicies.delete(threadId);
+        this.approvalGrants.expireThread(threadId);
+      }
+    };
+  }
+
+  private resolveThreadBinding(threadId?: string): ThreadBinding | null {
+    if (threadId) {
+      return this.threadBindings.get(threadId) ?? null;
+    }
+    if (this.threadBindings.size === 1) {
+      return [...this.threadBindings.values()][0] ?? null;
+    }
+    return null;
+  }
+
+  private recordApprovalAudit(entry: ApprovalAuditEntry): void {
+    const timestamp = Date.now();
+    const policy = entry.threadId ? this.threadPolicies.get(entry.threadId) : undefined;
+    this.approvalAuditHandler({
+      ...entry,
+      id: `approval-${timestamp}-${Math.random().toString(36).slice(2, 10)}`,
+      timestamp,
+      mode: (policy ?? this.settings).approvalMode,
+    });
+  }
+
+  private async routeApprovalRequest(request: ApprovalRequest): Promise<ApprovalDecision | ApprovalRequestDecision> {
+    const handler = this.resolveThreadBinding(request.threadId)?.onApprovalRequest;
+    return handler ? handler(request) : 'decline';
+  }
+
+  private async routeUserInputRequest(request: UserInputRequest): Promise<UserInputAnswers | null> {
+    const handler = this.resolveThreadBinding(request.threadId)?.onUserInputRequest;
+    return handler ? handler(request) : null;
   }
 
   setSettingsChangedHandler(handler: () => Promise<void>): void {
     this.settingsChangedHandler = handler;
   }
 
+  setThreadPolicy(threadId: string, policy: ApprovalPolicySettings | null): void {
+    if (policy) {
+      this.threadPolicies.set(threadId, policy);
+    } else {
+      this.threadPolicies.delete(threadId);
+    }
+  }
+
+  setApprovalAuditHandler(handler: ApprovalAuditHandler): void {
+    this.approvalAuditHandler = handler;
+  }
+
+  onConnectionStateChange(listener: RuntimeConnectionListener): () => void {
+    this.connectionListeners.add(listener);
+    return () => {
+      this.connectionListeners.delete(listener);
+    };
+  }
+
   private getClient(): AppServerClient {
     if (!this.client) {
       throw new Error('Codex runtime is not ready.');
@@ -753,7 +1318,9 @@ export class CodexRuntime {
       } as NodeJS.ProcessEnv;
       env.PATH = buildEnhancedPath(command, env.PATH || '');
 
-      const approvalManager = new ApprovalManager(this.settings, this.vaultPath);
+      const approvalManager = new ApprovalManager(this.settings, this.vaultPath, this.approvalGrants, (context) =>
+        context.threadId ? this.threadPolicies.get(context.threadId) : undefined
+      );
 
       this.client = new AppServerClient(
         command,
@@ -761,78 +1328,160 @@ export class CodexRuntime {
         env,
         this.vaultPath,
         approvalManager,
-        () => this.settingsChangedHandler()
+        () => this.settingsChangedHandler(),
+        this.diagnostics,
+        (method) => resolveRequestTimeout(method, this.settings.requestTimeouts),
+        (entry) => this.recordApprovalAudit(entry)
       );
-      this.client.setApprovalRequestHandler(this.approvalRequestHandler);
+      this.client.setApprovalRequestHandler((request) => this.routeApprovalRequest(request));
+      this.client.setUserInputRequestHandler((request) => this.routeUserInputRequest(request));
+      const client = this.client;
+      client.onExit((error) => this.handleClientExit(client, error));
     }
+    this.isShutdown = false;
     await this.client.start();
   }
 
   async shutdown(): Promise<void> {
+    this.isShutdown = true;
+    this.clearReconnectTimer();
     await this.client?.stop();
     this.client = null;
   }
 
-  async startThread(): Promise<AppServerThread> {
+  private handleClientExit(client: AppServerClient, error: Error): void {
+    if (this.client !== client) return;
+    this.client = null;
+
+    const message = `App Server exited unexpectedly: ${error.message}`;
+    for (const turn of [...this.activeTurns]) {
+      turn.fail(message);
+    }
+    this.activeTurns.clear();
+
+    this.emitConnectionState({ state: 'disconnected', message });
+    // A restarted process that dies while reconnecting is retried by reconnect() itself, with backoff.
+    if (this.reconnecting) return;
+    this.scheduleReconnect();
+  }
+
+  private scheduleReconnect(): void {
+    if (this.isShutdown) return;
+    const delay = RECONNECT_BACKOFF_MS[this.reconnectAttempt];
+    if (delay === undefined) {
+      this.emitConnectionState({ state: 'failed', message: 'App Server could not be restarted.' });
+      return;
+    }
+    this.clearReconnectTimer();
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      void this.reconnect();
+    }, delay);
+  }
+
+  private async reconnect(): Promise<void> {
+    if (this.isShutdown) return;
+    this.reconnectAttempt += 1;
+    this.emitConnectionState({ state: 'reconnecting', attempt: this.reconnectAttempt });
+    this.reconnecting = true;
+    try {
+      await this.ensureReady();
+      const threadIds = new Set(this.threadBindings.keys());
+      if (this.activeThreadId) {
+        threadIds.add(this.activeThreadId);
+      }
+      for (const threadId of threadIds) {
+        await this.resumeThread(threadId);
+      }
+      this.reconnectAttempt = 0;
+      this.reconnecting = false;
+      this.emitConnectionState({ state: 'reconnected' });
+    } catch {
+      this.reconnecting = false;
+      this.scheduleReconnect();
+    }
+  }
+
+  private clearReconnectTimer(): void {
+    if (!this.reconnectTimer) return;
+    clearTimeout(this.reconnectTimer);
+    this.reconnectTimer = null;
+  }
+
+  private emitConnectionState(event: RuntimeConnectionEvent): void {
+    const detail = event.message ?? (event.attempt ? `attempt ${event.attempt}` : '');
+    this.diagnostics.record('lifecycle', `Connection ${event.state}${detail ? `: ${detail}` : ''}`);
+    this.connectionListeners.forEach((listener) => listener(event));
+  }
+
+  async startThread(options: RequestOptions = {}): Promise<AppServerThread> {
     await this.ensureReady();
     const client = this.getClient();
     const result = await client.sendRequest('thread/start', {
       cwd: this.vaultPath || undefined,
-    });
-    return extractThread(result);
+    }, options);
+    return this.trackThread(extractThread(result));
   }
 
-  async resumeThread(threadId: string): Promise<AppServerThread> {
+  async resumeThread(threadId: string, options: RequestOptions = {}): Promise<AppServerThread> {
     await this.ensureReady();
     const client = this.getClient();
     const result = await client.sendRequest('thread/resume', {
       threadId,
       cwd: this.vaultPath || undefined,
-    });
-    return extractThread(result);
+    }, options);
+    return this.trackThread(extractThread(result));
   }
 
-  async forkThread(threadId: string): Promise<AppServerThread> {
+  async forkThread(threadId: string, options: RequestOptions = {}): Promise<AppServerThread> {
     await this.ensureReady();
     const client = this.getClient();
     const result = await client.sendRequest('thread/fork', {
       threadId,
       cwd: this.vaultPath || undefined,
-    });
-    return extractThread(result);
+    }, options);
+    return this.trackThread(extractThread(result));
   }
 
-  async archiveThread(threadId: string): Promise<void> {
+  async archiveThread(threadId: string, options: RequestOptions = {}): Promise<void> {
     await this.ensureReady();
     const client = this.getClient();
-    await client.sendRequest('thread/archive', { threadId });
+    await client.sendRequest('thread/archive', { threadId }, options);
+    if (this.activeThreadId === threadId) {
+      this.activeThreadId = null;
+    }
   }
 
-  async rollbackThread(threadId: string, numTurns: number): Promise<AppServerThread> {
+  async rollbackThread(threadId: string, numTurns: number, options: RequestOptions = {}): Promise<AppServerThread> {
     await this.ensureReady();
     const client = this.getClient();
     const result = await client.sendRequest('thread/rollback', {
       threadId,
       numTurns,
-    });
+    }, options);
     return extractThread(result);
   }
 
-  async listThreads(archived: boolean = false): Promise<AppServerThread[]> {
+  private trackThread(thread: AppServerThread): AppServerThread {
+    this.activeThreadId = thread.id;
+    return thread;
+  }
+
+  async listThreads(archived: boolean = false, options: RequestOptions = {}): Promise<AppServerThread[]> {
     await this.ensureReady();
     const client = this.getClient();
     const result = await client.sendRequest('thread/list', {
       archived,
       sortKey: 'updated_at',
       limit: 50,
-    });
+    }, options);
     return extractThreadList(result);
   }
 
-  async listModels(): Promise<AppServerModel[]> {
+  async listModels(options: RequestOptions = {}): Promise<AppServerModel[]> {
     await this.ensureReady();
     const client = this.getClient();
-    const result = await client.sendRequest('model/list', {});
+    const result = await client.sendRequest('model/list', {}, options);
     if (isRecord(result) && Array.isArray(result.data)) {
       return result.data as AppServerModel[];
     }
@@ -843,30 +1492,30 @@ export class CodexRuntime {
     return [];
   }
 
-  async listSkills(): Promise<AppServerSkill[]> {
+  async listSkills(options: RequestOptions = {}): Promise<AppServerSkill[]> {
     await this.ensureReady();
     const client = this.getClient();
     const result = await client.sendRequest('skills/list', {
       cwd: this.vaultPath || undefined,
-    });
+    }, options);
     return extractSkillList(result);
   }
 
-  async listCollaborationModes(): Promise<AppServerCollaborationMode[]> {
+  async listCollaborationModes(options: RequestOptions = {}): Promise<AppServerCollaborationMode[]> {
     await this.ensureReady();
     const client = this.getClient();
     const result = await client.sendRequest('collaborationMode/list', {
       cwd: this.vaultPath || undefined,
-    });
+    }, options);
     return extractCollaborationModeList(result);
   }
 
-  async listMcpServerStatus(): Promise<AppServerMcpServerStatus[]> {
+  async listMcpServerStatus(options: RequestOptions = {}): Promise<AppServerMcpServerStatus[]> {
     await this.ensureReady();
     const client = this.getClient();
     const result = await client.sendRequest('mcpServerStatus/list', {
       cwd: this.vaultPath || undefined,
-    });
+    }, options);
     return extractMcpServerStatusList(result);
   }
 
@@ -886,96 +1535,107 @@ export class CodexRuntime {
     const client = this.getClient();
 
     let turnId = '';
-    const buffered: JsonRpcNotification[] = [];
-    const onItemStarted = handlers.onItemStarted ?? (() => undefined);
-    const onCommandExecutionOutputDelta = handlers.onCommandExecutionOutputDelta ?? (() => undefined);
-    const onItemCompleted = handlers.onItemCompleted ?? (() => undefined);
-    const onPlanUpdated = handlers.onPlanUpdated ?? (() => undefined);
-    const onDiffUpdated = handlers.onDiffUpdated ?? (() => undefined);
-    const handleNotification = (notification: JsonRpcNotification): void => {
-      const { method, params } = notification;
-      const paramsRecord = isRecord(params) ? params : undefined;
-
+    let usageBaseline = this.threadUsageTotals.get(threadId);
+    let usageLatest: TokenUsageBreakdown | undefined;
+    const buffered: RuntimeNotification[] = [];
+    const isCurrentThread = (notification: RuntimeNotification): boolean =>
+      !notification.threadId || notification.threadId === threadId;
+    const isCurrentTurn = (notification: RuntimeNotification): boolean =>
+      notification.turnId ? notification.turnId === turnId : isCurrentThread(notification);
+    const handleNotification = (notification: RuntimeNotification): void => {
       if (!turnId) {
         buffered.push(notification);
         return;
       }
 
-      if (method === 'item/agentMessage/delta') {
-        const eventTurnId = getString(paramsRecord?.turnId);
-        if (eventTurnId !== turnId) return;
-        const delta = getString(paramsRecord?.delta);
-        if (delta) {
-          handlers.onDelta(delta);
+      switch (notification.kind) {
+        case 'agentMessageDelta':
+          if (notification.turnId !== turnId || !notification.delta) return;
+          handlers.onDelta(notification.delta);
+          return;
+        case 'itemStarted': {
+          if (notification.turnId !== turnId) return;
+          const item = parseAppServerItem(notification.item);
+          if (item) handlers.onItemStarted?.(item);
+          return;
         }
-        return;
-      }
-
-      if (method === 'item/completed') {
-        const eventTurnId = getString(paramsRecord?.turnId);
-        if (eventTurnId !== turnId) return;
-        const item = parseAppServerItem(paramsRecord?.item);
-        if (!item) return;
-        onItemCompleted(item);
-        if (isAgentMessageItem(item)) {
-          const text = item.text;
-          if (text) {
-            handlers.onMessage(text);
+        case 'itemCompleted': {
+          if (notification.turnId !== turnId) return;
+          const item = parseAppServerItem(notification.item);
+          if (!item) return;
+          handlers.onItemCompleted?.(item);
+          if (isAgentMessageItem(item) && item.text) {
+            handlers.onMessage(item.text);
           }
+          return;
         }
-        return;
-      }
-
-      if (method === 'item/commandExecution/outputDelta') {
-        const eventTurnId = getString(paramsRecord?.turnId);
-        if (eventTurnId !== turnId) return;
-        const delta = getString(paramsRecord?.delta);
-        if (!delta) return;
-        onCommandExecutionOutputDelta(delta, eventTurnId);
-        return;
-      }
-
-      if (method === 'item/started') {
-        const eventTurnId = getString(paramsRecord?.turnId);
-        if (eventTurnId !== turnId) return;
-        const item = parseAppServerItem(paramsRecord?.item);
-        if (!item) return;
-        onItemStarted(item);
-        return;
-      }
-
-      if (method === 'turn/plan/updated') {
-        const eventTurnId = getString(paramsRecord?.turnId);
-        if (eventTurnId !== turnId) return;
-        onPlanUpdated(paramsRecord?.plan, eventTurnId);
-        return;
-      }
-
-      if (method === 'turn/diff/updated') {
-        const eventTurnId = getString(paramsRecord?.turnId);
-        if (eventTurnId !== turnId) return;
-        const diffPayload =
-          paramsRecord?.diff ?? paramsRecord?.unifiedDiff ?? paramsRecord?.patch ?? paramsRecord?.changes;
-        onDiffUpdated(diffPayload, eventTurnId);
-        return;
-      }
-
-      if (method === 'turn/completed') {
-        const turn = isRecord(paramsRecord?.turn) ? paramsRecord?.turn : undefined;
-        const eventTurnId = getString(turn?.id);
-        if (eventTurnId !== turnId) return;
-        const status = getString(turn?.status);
-        if (status === 'failed') {
-          const errorRecord = isRecord(turn?.error) ? turn?.error : undefined;
-          const message = getString(errorRecord?.message) || 'Turn failed.';
-          handlers.onError(message);
+        case 'commandOutputDelta':
+          if (notification.turnId !== turnId || !notification.delta) return;
+          handlers.onCommandExecutionOutputDelta?.(notification.delta, turnId);
+          return;
+        case 'reasoningDelta':
+          if (notification.turnId !== turnId || !notification.reasoning.delta) return;
+          handlers.onReasoningDelta?.(notification.reasoning);
+          return;
+        case 'planUpdated':
+          if (notification.turnId !== turnId) return;
+          handlers.onPlanUpdated?.(notification.plan, turnId);
+          return;
+        case 'diffUpdated':
+          if (notification.turnId !== turnId) return;
+          handlers.onDiffUpdated?.(notification.diff, turnId);
+          return;
+        case 'tokenUsage': {
+          if (!isCurrentThread(notification)) return;
+          const { total, last } = notification.usage;
+          if (total) {
+            usageBaseline ??= last ? subtractTokenUsage(total, last) : undefined;
+            usageLatest = total;
+            this.threadUsageTotals.set(threadId, total);
+          }
+          handlers.onTokenUsage?.(notification.usage);
+          return;
         }
-        unsubscribe();
-        handlers.onComplete();
+        case 'rateLimits':
+          handlers.onRateLimits?.(notification.rateLimits);
+          return;
+        case 'threadName':
+          if (!isCurrentThread(notification)) return;
+          handlers.onThreadNameUpdated?.(notification.name);
+          return;
+        case 'notice':
+          if (!isCurrentTurn(notification)) return;
+          handlers.onNotice?.(notification.notice);
+          return;
+        case 'turnCompleted':
+          if (notification.turnId !== turnId) return;
+          if (notification.status === 'failed') {
+            handlers.onError(notification.errorMessage || 'Turn failed.');
+          }
+          if (usageLatest) {
+            handlers.onTurnUsage?.(usageBaseline ? subtractTokenUsage(usageLatest, usageBaseline) : usageLatest);
+          }
+          unsubscribe();
+          this.activeTurns.delete(activeTurn);
+          this.approvalGrants.expireTurn(threadId, turnId);
+          handlers.onComplete(notification.status);
+          return;
+        default:
+          return;
       }
     };
 
     const unsubscribe = client.onNotification(handleNotification);
+    const activeTurn: ActiveTurn = {
+      fail: (message) => {
+        unsubscribe();
+        this.activeTurns.delete(activeTurn);
+        this.approvalGrants.expireTurn(threadId, turnId);
+        handlers.onError(message);
+        handlers.onComplete('failed');
+      },
+    };
+    this.activeThreadId = threadId;
 
     try {
       const response = await client.sendRequest('turn/start', {
@@ -990,6 +1650,7 @@ export class CodexRuntime {
       const responseRecord = isRecord(response) ? response : undefined;
       const turn = isRecord(responseRecord?.turn) ? responseRecord?.turn : undefined;
       turnId = getString(turn?.id) ?? '';
+      this.activeTurns.add(activeTurn);
       handlers.onStart(turnId);
 
       if (buffered.length > 0) {
@@ -1005,14 +1666,14 @@ export class CodexRuntime {
     }
   }
 
-  async interruptTurn(threadId: string, turnId: string): Promise<void> {
+  async interruptTurn(threadId: string, turnId: string, options: RequestOptions = {}): Promise<void> {
     if (!turnId) return;
     await this.ensureReady();
     const client = this.getClient();
-    await client.sendRequest('turn/interrupt', { threadId, turnId });
+    await client.sendRequest('turn/interrupt', { threadId, turnId }, options);
   }
 
-  async steerTurn(threadId: string, turnId: string, text: string): Promise<void> {
+  async steerTurn(threadId: string, turnId: string, text: string, options: RequestOptions = {}): Promise<void> {
     const steerText = text.trim();
     if (!threadId || !turnId || !steerText) return;
     await this.ensureReady();
@@ -1021,6 +1682,6 @@ export class CodexRuntime {
       threadId,
       expectedTurnId: turnId,
       input: [{ type: 'text', text: steerText }],
-    });
+    }, options);
   }
 }
@@ -0,0 +1,223 @@
+export interface TokenUsageBreakdown {
+  inputTokens: number;
+  cachedInputTokens: number;
+  outputTokens: number;
+  reasoningOutputTokens: number;
+  totalTokens: number;
+}
+
+export interface TokenUsageUpdate {
+  total?: TokenUsageBreakdown;
+  last?: TokenUsageBreakdown;
+  modelContextWindow?: number;
+}
+
+export interface RateLimitWindow {
+  usedPercent: number;
+  windowDurationMins?: number;
+  resetsAt?: number;
+}
+
+export interface RateLimitSnapshot {
+  primary?: RateLimitWindow;
+  secondary?: RateLimitWindow;
+}
+
+export interface ReasoningDelta {
+  itemId?: string;
+  kind: 'summary' | 'text';
+  delta: string;
+  index?: number;
+}
+
+export interface RuntimeNotice {
+  severity: 'error' | 'warning';
+  message: string;
+  details?: string;
+  willRetry?: boolean;
+}
+
+interface NotificationScope {
+  threadId?: string;
+  turnId?: string;
+}
+
+export type RuntimeNotification = NotificationScope &
+  (
+    | { kind: 'agentMessageDelta'; delta: string }
+    | { kind: 'itemStarted'; item: unknown }
+    | { kind: 'itemCompleted'; item: unknown }
+    | { kind: 'commandOutputDelta'; delta: string }
+    | { kind: 'reasoningDelta'; reasoning: ReasoningDelta }
+    | { kind: 'planUpdated'; plan: unknown }
+    | { kind: 'diffUpdated'; diff: unknown }
+    | { kind: 'turnCompleted'; status?: string; errorMessage?: string }
+    | { kind: 'tokenUsage'; usage: TokenUsageUpdate }
+    | { kind: 'rateLimits'; rateLimits: RateLimitSnapshot }
+    | { kind: 'threadName'; name: string }
+    | { kind: 'notice'; notice: RuntimeNotice }
+    | { kind: 'ignored'; method: string }
+    | { kind: 'unknown'; method: string }
+  );
+
+const IGNORED_METHODS = new Set([
+  'thread/started',
+  'turn/started',
+  'account/updated',
+  'item/reasoning/summaryPartAdded',
+  'item/fileChange/outputDelta',
+  'item/mcpToolCall/progress',
+  'mcpServer/oauthLogin/completed',
+  'sessionConfigured',
+  'authStatusChange',
+  'loginChatGptComplete',
+]);
+
+const LEGACY_EVENT_PREFIX = 'codex/event/';
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const getString = (value: unknown): string | undefined =>
+  typeof value === 'string' ? value : undefined;
+
+const getNumber = (value: unknown): number | undefined =>
+  typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+
+const parseTokenUsageBreakdown = (value: unknown): TokenUsageBreakdown | undefined => {
+  if (!isRecord(value)) return undefined;
+  const inputTokens = getNumber(value.inputTokens) ?? getNumber(value.input_tokens) ?? 0;
+  const cachedInputTokens = getNumber(value.cachedInputTokens) ?? getNumber(value.cached_input_tokens) ?? 0;
+  const outputTokens = getNumber(value.outputTokens) ?? getNumber(value.output_tokens) ?? 0;
+  const reasoningOutputTokens =
+    getNumber(value.reasoningOutputTokens) ?? getNumber(value.reasoning_output_tokens) ?? 0;
+  const totalTokens =
+    getNumber(value.totalTokens) ?? getNumber(value.total_tokens) ?? inputTokens + outputTokens;
+  return { inputTokens, cachedInputTokens, outputTokens, reasoningOutputTokens, totalTokens };
+};
+
+export function subtractTokenUsage(
+  current: TokenUsageBreakdown,
+  baseline: TokenUsageBreakdown
+): TokenUsageBreakdown {
+  return {
+    inputTokens: Math.max(0, current.inputTokens - baseline.inputTokens),
+    cachedInputTokens: Math.max(0, current.cachedInputTokens - baseline.cachedInputTokens),
+    outputTokens: Math.max(0, current.outputTokens - baseline.outputTokens),
+    reasoningOutputTokens: Math.max(0, current.reasoningOutputTokens - baseline.reasoningOutputTokens),
+    totalTokens: Math.max(0, current.totalTokens - baseline.totalTokens),
+  };
+}
+
+const parseTokenUsage = (params: Record<string, unknown>): TokenUsageUpdate => {
+  const usage = isRecord(params.tokenUsage) ? params.tokenUsage : isRecord(params.usage) ? params.usage : params;
+  return {
+    total: parseTokenUsageBreakdown(usage.total ?? usage.totalTokenUsage),
+    last: parseTokenUsageBreakdown(usage.last ?? usage.lastTokenUsage),
+    modelContextWindow: getNumber(usage.modelContextWindow) ?? getNumber(usage.model_context_window),
+  };
+};
+
+const parseRateLimitWindow = (value: unknown): RateLimitWindow | undefined => {
+  if (!isRecord(value)) return undefined;
+  const usedPercent = getNumber(value.usedPercent) ?? getNumber(value.used_percent);
+  if (usedPercent === undefined) return undefined;
+  return {
+    usedPercent,
+    windowDurationMins: getNumber(value.windowDurationMins) ?? getNumber(value.window_minutes),
+    resetsAt: getNumber(value.resetsAt) ?? getNumber(value.resets_at),
+  };
+};
+
+const parseRateLimits = (params: Record<string, unknown>): RateLimitSnapshot => {
+  const limits = isRecord(params.rateLimits) ? params.rateLimits : params;
+  return {
+    primary: parseRateLimitWindow(limits.primary),
+    secondary: parseRateLimitWindow(limits.secondary),
+  };
+};
+
+const parseErrorNotice = (params: Record<string, unknown>): RuntimeNotice => {
+  const error = isRecord(params.error) ? params.error : params;
+  return {
+    severity: 'error',
+    message: getString(error.message) ?? 'Unknown App Server error.',
+    details: getString(error.additionalDetails) ?? getString(error.details),
+    willRetry: params.willRetry === true,
+  };
+};
+
+const parseWarningNotice = (params: Record<string, unknown>): RuntimeNotice => ({
+  severity: 'warning',
+  message: getString(params.summary) ?? getString(params.message) ?? 'App Server warning.',
+  details: getString(params.details),
+});
+
+export function parseRuntimeNotification(method: string, params: unknown): RuntimeNotification {
+  const record = isRecord(params) ? params : {};
+  const scope: NotificationScope = {
+    threadId: getString(record.threadId),
+    turnId: getString(record.turnId),
+  };
+
+  switch (method) {
+    case 'item/agentMessage/delta':
+      return { ...scope, kind: 'agentMessageDelta', delta: getString(record.delta) ?? '' };
+    case 'item/started':
+      return { ...scope, kind: 'itemStarted', item: record.item };
+    case 'item/completed':
+      return { ...scope, kind: 'itemCompleted', item: record.item };
+    case 'item/commandExecution/outputDelta':
+      return { ...scope, kind: 'commandOutputDelta', delta: getString(record.delta) ?? '' };
+    case 'item/reasoning/summaryTextDelta':
+    case 'item/reasoning/textDelta':
+      return {
+        ...scope,
+        kind: 'reasoningDelta',
+        reasoning: {
+          itemId: getString(record.itemId),
+          kind: method === 'item/reasoning/textDelta' ? 'text' : 'summary',
+          delta: getString(record.delta) ?? '',
+          index: getNumber(record.summaryIndex) ?? getNumber(record.contentIndex),
+        },
+      };
+    case 'turn/plan/updated':
+      return { ...scope, kind: 'planUpdated', plan: record.plan };
+    case 'turn/diff/updated':
+      return {
+        ...scope,
+        kind: 'diffUpdated',
+        diff: record.diff ?? record.unifiedDiff ?? record.patch ?? record.changes,
+      };
+    case 'turn/completed': {
+      const turn = isRecord(record.turn) ? record.turn : {};
+      const error = isRecord(turn.error) ? turn.error : {};
+      return {
+        ...scope,
+        turnId: getString(turn.id),
+        kind: 'turnCompleted',
+        status: getString(turn.status),
+        errorMessage: getString(error.message),
+      };
+    }
+    case 'thread/tokenUsage/updated':
+      return { ...scope, kind: 'tokenUsage', usage: parseTokenUsage(record) };
+    case 'account/rateLimits/updated':
+      return { ...scope, kind: 'rateLimits', rateLimits: parseRateLimits(record) };
+    case 'thread/name/updated': {
+      const name = getString(record.threadName) ?? getString(record.name) ?? '';
+      return name.trim() ? { ...scope, kind: 'threadName', name: name.trim() } : { kind: 'ignored', method };
+    }
+    case 'error':
+      return { ...scope, kind: 'notice', notice: parseErrorNotice(record) };
+    case 'warning':
+    case 'deprecationNotice':
+    case 'configWarning':
+      return { ...scope, kind: 'notice', notice: parseWarningNotice(record) };
+    default:
+      if (IGNORED_METHODS.has(method) || method.startsWith(LEGACY_EVENT_PREFIX)) {
+        return { kind: 'ignored', method };
+      }
+      return { kind: 'unknown', method };
+  }
+}
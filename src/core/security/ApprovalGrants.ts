@@ -0,0 +1,64 @@
+import type { ApprovalGrantScope, ApprovalRule } from '../types';
+
+export interface ApprovalGrant {
+  rule: ApprovalRule;
+  scope: ApprovalGrantScope;
+  threadId?: string;
+  turnId?: string;
+}
+
+export interface ApprovalGrantContext {
+  threadId?: string;
+  turnId?: string;
+}
+
+const isSameRule = (left: ApprovalRule, right: ApprovalRule): boolean =>
+  left.kind === right.kind && left.pattern === right.pattern && left.matcher === right.matcher;
+
+export class ApprovalGrants {
+  private grants: ApprovalGrant[] = [];
+
+  add(grant: ApprovalGrant): void {
+    const exists = this.grants.some(
+      (entry) =>
+        entry.scope === grant.scope &&
+        entry.threadId === grant.threadId &&
+        entry.turnId === grant.turnId &&
+        isSameRule(entry.rule, grant.rule)
+    );
+    if (!exists) {
+      this.grants.push(grant);
+    }
+  }
+
+  getRules(context: ApprovalGrantContext): ApprovalRule[] {
+    return this.grants
+      .filter((grant) => {
+        if (grant.threadId !== context.threadId) return false;
+        if (grant.scope === 'thread') return true;
+        return grant.turnId === undefined || grant.turnId === context.turnId;
+      })
+      .map((grant) => grant.rule);
+  }
+
+  expireTurn(threadId: string, turnId: string): void {
+    this.grants = this.grants.filter(
+      (grant) =>
+        grant.scope !== 'turn' ||
+        grant.threadId !== threadId ||
+        (grant.turnId !== undefined && grant.turnId !== turnId)
+    );
+  }
+
+  revoke(rule: ApprovalRule): void {
+    this.grants = this.grants.filter((grant) => !isSameRule(grant.rule, rule));
+  }
+
+  expireThread(threadId: string): void {
+    this.grants = this.grants.filter((grant) => grant.threadId !== threadId);
+  }
+
+  list(): ApprovalGrant[] {
+    return [...this.grants];
+  }
+}
@@ -1,18 +1,65 @@
+import * as fs from 'fs';
 import * as path from 'path';
 
-import type { ApprovalDecision, ApprovalRule, CodexianSettings } from '../types';
-
-export interface CommandApprovalInput {
+import type {
+  ApprovalDecision,
+  ApprovalGrantScope,
+  ApprovalRule,
+  CodexianSettings,
+  PatternMatcherType,
+} from '../types';
+import type { ApprovalGrantContext, ApprovalGrants } from './ApprovalGrants';
+import { splitCompoundCommand } from './CommandParser';
+import { FOLDER_POLICY_BLOCKLIST_ENTRY, isFolderPolicyNote } from './FolderPolicy';
+import { getApprovalAuditFolder } from '../storage/ApprovalAuditStorage';
+import { DEFAULT_SESSIONS_FOLDER } from '../storage/SessionStorage';
+import { formatPatternSpec, matchesCommandPattern, matchesPathPattern, parsePatternSpec } from './PatternMatcher';
+
+export interface CommandApprovalInput extends ApprovalGrantContext {
   command?: string;
 }
 
-export interface FileApprovalInput {
+export interface FileApprovalInput extends ApprovalGrantContext {
   paths: string[];
 }
 
+export interface ToolApprovalInput extends ApprovalGrantContext {
+  server: string;
+  tool: string;
+}
+
 export interface ApprovalResolution {
   decision: ApprovalDecision;
   requiresPrompt: boolean;
+  matchedRules?: ApprovalRule[];
+  blockedBy?: string;
+}
+
+export type ApprovalPolicySettings = Pick<
+  CodexianSettings,
+  'approvalMode' | 'approvalRules' | 'commandBlocklist' | 'pathBlocklist' | 'mcpServerApprovals'
+>;
+
+/** The sessions folder locates the approval audit log, which turns may never change. */
+export type ApprovalManagerSettings = ApprovalPolicySettings & Partial<Pick<CodexianSettings, 'sessionsFolder'>>;
+
+export type ThreadPolicyResolver = (context: ApprovalGrantContext) => ApprovalPolicySettings | undefined;
+
+export type CommandPartStatus = 'allowed' | 'blocked' | 'unmatched';
+
+export interface CommandPartAssessment {
+  command: string;
+  status: CommandPartStatus;
+}
+
+export interface CommandPartEvaluation extends CommandPartAssessment {
+  rule?: ApprovalRule;
+  blockedBy?: string;
+}
+
+interface ResolvedPath {
+  absolute: string;
+  real: string;
 }
 
 const normalizeSlashPath = (value: string): string => value.replace(/\\/g, '/');
@@ -48,24 +95,39 @@ const isPathPrefixMatch = (target: string, prefix: string): boolean => {
   return true;
 };
 
-const normalizeCommand = (value: string): string => value.trim();
+/** Resolves symlinks segment by segment so `..` after a link follows the link target, like the OS does. */
+const resolveRealPath = (absolutePath: string): string => {
+  const root = path.parse(absolutePath).root;
+  let current = root;
+  let exists = true;
+  for (const segment of absolutePath.slice(root.length).split(/[\\/]+/)) {
+    if (!segment || segment === '.') continue;
+    if (segment === '..') {
+      current = path.dirname(current);
+      continue;
+    }
+    current = path.join(current, segment);
+    if (!exists) continue;
+    try {
+      current = fs.realpathSync.native(current);
+    } catch {
+      exists = false;
+    }
+  }
+  return current;
+};
 
-const isCommandMatch = (command: string, pattern: string): boolean => {
-  const normalizedCommand = normalizeCommand(command);
-  const normalizedPattern = normalizeCommand(pattern);
-  if (!normalizedCommand || !normalizedPattern) return false;
+const isCommandMatch = (command: string, pattern: string, matcher?: PatternMatcherType): boolean =>
+  matchesCommandPattern(command, parsePatternSpec(pattern, 'command', matcher));
 
-  if (normalizedPattern.endsWith(' *')) {
-    const base = normalizedPattern.slice(0, -2).trim();
-    return normalizedCommand === base || normalizedCommand.startsWith(`${base} `);
-  }
+export const formatToolIdentifier = (server: string, tool: string): string => `${server.trim()}/${tool.trim()}`;
 
-  if (normalizedPattern.endsWith('*')) {
-    const prefix = normalizedPattern.slice(0, -1);
-    return normalizedCommand.startsWith(prefix);
+const collectRules = (rules: Array<ApprovalRule | undefined>): ApprovalRule[] => {
+  const unique: ApprovalRule[] = [];
+  for (const rule of rules) {
+    if (rule && !unique.includes(rule)) unique.push(rule);
   }
-
-  return normalizedCommand === normalizedPattern;
+  return unique;
 };
 
 export const approvalMatchers = {
@@ -74,116 +136,241 @@ export const approvalMatchers = {
 };
 
 export class ApprovalManager {
+  private vaultRealPath?: ResolvedPath;
+
   constructor(
-    private settings: Pick<CodexianSettings, 'approvalMode' | 'approvalRules' | 'commandBlocklist' | 'pathBlocklist'>,
-    private vaultPath: string
+    private settings: ApprovalManagerSettings,
+    private vaultPath: string,
+    private grants?: ApprovalGrants,
+    private resolveThreadPolicy?: ThreadPolicyResolver
   ) {}
 
   resolveCommand(input: CommandApprovalInput): ApprovalResolution {
     const command = input.command?.trim() || '';
     if (!command) {
-      return this.fromMode();
+      return this.fromMode(input);
     }
 
-    if (this.settings.commandBlocklist.some((pattern) => isCommandMatch(command, pattern))) {
-      return { decision: 'decline', requiresPrompt: false };
+    const parts = this.evaluateCommand(command, input);
+    const blocked = parts.find((part) => part.status === 'blocked');
+    if (blocked) {
+      return { decision: 'decline', requiresPrompt: false, blockedBy: blocked.blockedBy };
     }
 
-    if (this.settings.approvalRules.some((rule) => this.matchesCommandRule(rule, command))) {
-      return { decision: 'accept', requiresPrompt: false };
+    if (parts.length > 0 && parts.every((part) => part.status === 'allowed')) {
+      return { decision: 'accept', requiresPrompt: false, matchedRules: collectRules(parts.map((part) => part.rule)) };
     }
 
-    return this.fromMode();
+    return this.fromMode(input);
+  }
+
+  assessCommand(command: string, context: ApprovalGrantContext = {}): CommandPartAssessment[] {
+    return this.evaluateCommand(command, context).map((part) => ({ command: part.command, status: part.status }));
+  }
+
+  explainCommand(command: string, context: ApprovalGrantContext = {}): CommandPartEvaluation[] {
+    return this.evaluateCommand(command.trim(), context);
+  }
+
+  isPathInsideVault(targetPath: string): boolean {
+    const target = this.resolveTarget(targetPath);
+    return target !== null && this.isResolvedInsideVault(target);
   }
 
   resolveFileChange(input: FileApprovalInput): ApprovalResolution {
-    const paths = input.paths;
+    const targets = input.paths.map((filePath) => this.resolveTarget(filePath));
 
-    if (paths.some((filePath) => !this.isWithinVault(filePath))) {
+    if (targets.some((target) => target === null || !this.isResolvedInsideVault(target))) {
       return { decision: 'decline', requiresPrompt: false };
     }
+    const resolved = targets.filter((target): target is ResolvedPath => target !== null);
+
+    const pathBlocklist = [...this.getPolicy(input).pathBlocklist, ...this.getProtectedPaths()];
+    const blockedBy = resolved
+      .map((target) => this.findPathBlocklistEntry(target, pathBlocklist))
+      .find((entry) => entry !== undefined);
+    if (blockedBy !== undefined) {
+      return { decision: 'decline', requiresPrompt: false, blockedBy };
+    }
+    // Folder notes can hold a policy in frontmatter; neither rules nor the mode may approve changing one.
+    if (resolved.some((target) => this.isPolicyNote(target))) {
+      return { decision: 'decline', requiresPrompt: true };
+    }
 
-    if (paths.some((filePath) => this.matchesPathBlocklist(filePath))) {
-      return { decision: 'decline', requiresPrompt: false };
+    const allowRules = this.getAllowRules(input);
+    const rules = resolved.map((target) => this.findPathAllowRule(target, allowRules));
+    if (rules.length > 0 && rules.every((rule) => rule !== undefined)) {
+      return { decision: 'accept', requiresPrompt: false, matchedRules: collectRules(rules) };
     }
 
-    if (paths.length > 0 && paths.every((filePath) => this.matchesPathAllowRule(filePath))) {
-      return { decision: 'accept', requiresPrompt: false };
+    return this.fromMode(input);
+  }
+
+  resolveTool(input: ToolApprovalInput): ApprovalResolution {
+    const identifier = formatToolIdentifier(input.server, input.tool);
+    const rule = this.getAllowRules(input).find((entry) => this.matchesToolRule(entry, identifier));
+    if (rule) {
+      return { decision: 'accept', requiresPrompt: false, matchedRules: [rule] };
     }
 
-    return this.fromMode();
+    const serverDefault = this.getPolicy(input).mcpServerApprovals[input.server.trim()];
+    if (serverDefault === 'allow') return { decision: 'accept', requiresPrompt: false };
+    if (serverDefault === 'deny') return { decision: 'decline', requiresPrompt: false };
+    if (serverDefault === 'prompt') return { decision: 'decline', requiresPrompt: true };
+    return this.fromMode(input);
   }
 
   addAllowRule(rule: ApprovalRule): void {
     const pattern = rule.pattern.trim();
     if (!pattern) return;
-    const normalizedPattern = rule.kind === 'path' ? normalizeComparablePath(pattern) : pattern;
+    const normalizePath = rule.kind === 'path' && (!rule.matcher || rule.matcher === 'prefix');
+    const normalizedPattern = normalizePath ? normalizeComparablePath(pattern) : pattern;
     if (!normalizedPattern) return;
     const exists = this.settings.approvalRules.some(
-      (entry) => entry.kind === rule.kind && entry.pattern === normalizedPattern
+      (entry) => entry.kind === rule.kind && entry.pattern === normalizedPattern && entry.matcher === rule.matcher
     );
     if (!exists) {
-      this.settings.approvalRules.push({ kind: rule.kind, pattern: normalizedPattern });
+      this.settings.approvalRules.push(
+        rule.matcher
+          ? { kind: rule.kind, pattern: normalizedPattern, matcher: rule.matcher }
+          : { kind: rule.kind, pattern: normalizedPattern }
+      );
     }
   }
 
-  decideTool(): ApprovalDecision {
-    return this.fromMode().decision;
+  addGrant(rule: ApprovalRule, scope: ApprovalGrantScope, context: ApprovalGrantContext): void {
+    if (!rule.pattern.trim()) return;
+    this.grants?.add({ rule, scope, threadId: context.threadId, turnId: context.turnId });
   }
 
   decideFileChange(): ApprovalDecision {
     return this.fromMode().decision;
   }
 
-  private fromMode(): ApprovalResolution {
-    if (this.settings.approvalMode === 'yolo') {
+  getPolicy(context: ApprovalGrantContext = {}): ApprovalPolicySettings {
+    return this.resolveThreadPolicy?.(context) ?? this.settings;
+  }
+
+  private fromMode(context: ApprovalGrantContext = {}): ApprovalResolution {
+    const { approvalMode } = this.getPolicy(context);
+    if (approvalMode === 'yolo') {
       return { decision: 'accept', requiresPrompt: false };
     }
-    if (this.settings.approvalMode === 'prompt') {
+    if (approvalMode === 'prompt') {
       return { decision: 'decline', requiresPrompt: true };
     }
     return { decision: 'decline', requiresPrompt: false };
   }
 
+  private getAllowRules(context: ApprovalGrantContext): ApprovalRule[] {
+    const { approvalRules } = this.getPolicy(context);
+    const granted = this.grants?.getRules(context) ?? [];
+    return granted.length > 0 ? [...approvalRules, ...granted] : approvalRules;
+  }
+
+  private evaluateCommand(command: string, context: ApprovalGrantContext): CommandPartEvaluation[] {
+    const parts = splitCompoundCommand(command);
+    const allowRules = this.getAllowRules(context);
+    const { commandBlocklist } = this.getPolicy(context);
+    return (parts.length > 0 ? parts : [command.trim()]).map((part) =>
+      this.evaluateCommandPart(command, part, allowRules, commandBlocklist)
+    );
+  }
+
+  private evaluateCommandPart(
+    fullCommand: string,
+    part: string,
+    allowRules: ApprovalRule[],
+    commandBlocklist: string[]
+  ): CommandPartEvaluation {
+    const blockedBy = commandBlocklist.find(
+      (pattern) => isCommandMatch(part, pattern) || isCommandMatch(fullCommand, pattern)
+    );
+    if (blockedBy !== undefined) return { command: part, status: 'blocked', blockedBy };
+    const rule = allowRules.find((entry) => this.matchesCommandRule(entry, part));
+    return rule ? { command: part, status: 'allowed', rule } : { command: part, status: 'unmatched' };
+  }
+
   private matchesCommandRule(rule: ApprovalRule, command: string): boolean {
     if (rule.kind !== 'command') return false;
-    return isCommandMatch(command, rule.pattern);
+    return isCommandMatch(command, rule.pattern, rule.matcher);
+  }
+
+  private matchesToolRule(rule: ApprovalRule, identifier: string): boolean {
+    if (rule.kind !== 'tool') return false;
+    return matchesCommandPattern(identifier, parsePatternSpec(rule.pattern, 'tool', rule.matcher));
   }
 
-  private matchesPathAllowRule(targetPath: string): boolean {
-    return this.settings.approvalRules.some((rule) => {
+  private findPathAllowRule(target: ResolvedPath, allowRules: ApprovalRule[]): ApprovalRule | undefined {
+    return allowRules.find((rule) => {
       if (rule.kind !== 'path') return false;
-      return this.matchesPathRule(targetPath, rule.pattern);
+      return this.matchesPathRule(target.real, true, rule.pattern, rule.matcher);
     });
   }
 
-  private matchesPathBlocklist(targetPath: string): boolean {
-    return this.settings.pathBlocklist.some((pattern) => this.matchesPathRule(targetPath, pattern));
+  // Blocklist entries apply to both the path as written and where it really points.
+  private findPathBlocklistEntry(target: ResolvedPath, pathBlocklist: string[]): string | undefined {
+    return pathBlocklist.find(
+      (pattern) =>
+        this.matchesPathRule(target.absolute, false, pattern) || this.matchesPathRule(target.real, true, pattern)
+    );
   }
 
-  private matchesPathRule(targetPath: string, pattern: string): boolean {
-    const targetAbsolute = this.toAbsolutePath(targetPath);
-    if (!targetAbsolute) return false;
+  private matchesPathRule(
+    targetAbsolute: string,
+    real: boolean,
+    pattern: string,
+    matcher?: PatternMatcherType
+  ): boolean {
+    const spec = parsePatternSpec(pattern, 'path', matcher);
+    const relative = this.toVaultRelativePath(targetAbsolute, real);
+    const caseInsensitive = process.platform === 'win32';
+
+    if (spec.matcher === 'regex') {
+      return (
+        (relative !== null && matchesPathPattern(relative, spec, caseInsensitive)) ||
+        matchesPathPattern(targetAbsolute, spec, caseInsensitive)
+      );
+    }
 
-    const normalizedPattern = normalizeComparablePath(pattern);
+    const normalizedPattern =
+      spec.matcher === 'glob' ? normalizeSlashPath(spec.pattern.trim()) : normalizeComparablePath(spec.pattern);
     if (!normalizedPattern) return false;
 
     if (path.isAbsolute(normalizedPattern)) {
-      return isPathPrefixMatch(targetAbsolute, normalizedPattern);
+      const absolutePattern =
+        real && spec.matcher === 'prefix'
+          ? normalizeComparablePath(resolveRealPath(normalizedPattern))
+          : normalizedPattern;
+      return matchesPathPattern(targetAbsolute, { matcher: spec.matcher, pattern: absolutePattern }, caseInsensitive);
     }
+    if (relative === null) return false;
+    return matchesPathPattern(relative, { matcher: spec.matcher, pattern: normalizedPattern }, caseInsensitive);
+  }
 
-    const vaultAbsolute = this.getVaultAbsolutePath();
-    if (!vaultAbsolute) return false;
-    const relative = path.relative(vaultAbsolute, targetAbsolute);
-    if (!relative || relative.startsWith('..') || path.isAbsolute(relative)) return false;
-    return isPathPrefixMatch(normalizeSlashPath(relative), normalizedPattern);
+  private getProtectedPaths(): string[] {
+    const auditFolder = getApprovalAuditFolder(this.settings.sessionsFolder ?? DEFAULT_SESSIONS_FOLDER);
+    return [FOLDER_POLICY_BLOCKLIST_ENTRY, formatPatternSpec({ matcher: 'prefix', pattern: auditFolder }, 'path')];
   }
 
-  private isWithinVault(targetPath: string): boolean {
-    const targetAbsolute = this.toAbsolutePath(targetPath);
-    const vaultAbsolute = this.getVaultAbsolutePath();
-    if (!targetAbsolute || !vaultAbsolute) return false;
-    return isPathPrefixMatch(targetAbsolute, vaultAbsolute);
+  private isPolicyNote(target: ResolvedPath): boolean {
+    return [this.toVaultRelativePath(target.absolute, false), this.toVaultRelativePath(target.real, true)].some(
+      (relative) => relative !== null && isFolderPolicyNote(relative)
+    );
+  }
+
+  private isResolvedInsideVault(target: ResolvedPath): boolean {
+    const vault = this.getVaultPaths();
+    if (!vault) return false;
+    return isPathPrefixMatch(target.real, vault.real);
+  }
+
+  private toVaultRelativePath(targetAbsolute: string, real: boolean): string | null {
+    const vault = this.getVaultPaths();
+    if (!vault) return null;
+    const relative = path.relative(real ? vault.real : vault.absolute, targetAbsolute);
+    if (!relative || relative.startsWith('..') || path.isAbsolute(relative)) return null;
+    return normalizeSlashPath(relative);
   }
 
   private getVaultAbsolutePath(): string | null {
@@ -191,13 +378,22 @@ export class ApprovalManager {
     return normalized || null;
   }
 
-  private toAbsolutePath(targetPath: string): string | null {
+  private getVaultPaths(): ResolvedPath | null {
+    const absolute = this.getVaultAbsolutePath();
+    if (!absolute) return null;
+    if (this.vaultRealPath?.absolute !== absolute) {
+      this.vaultRealPath = { absolute, real: normalizeComparablePath(resolveRealPath(absolute)) };
+    }
+    return this.vaultRealPath;
+  }
+
+  private resolveTarget(targetPath: string): ResolvedPath | null {
     const trimmed = targetPath.trim();
     if (!trimmed) return null;
-    const vaultAbsolute = this.getVaultAbsolutePath();
-    const base = vaultAbsolute ?? process.cwd();
-    const resolved = path.resolve(base, trimmed);
-    const normalized = normalizeComparablePath(resolved);
-    return normalized || null;
+    const base = this.getVaultAbsolutePath() ?? process.cwd();
+    const joined = path.isAbsolute(trimmed) ? trimmed : `${base}${path.sep}${trimmed}`;
+    const absolute = normalizeComparablePath(path.resolve(joined));
+    if (!absolute) return null;
+    return { absolute, real: normalizeComparablePath(resolveRealPath(joined)) };
   }
 }
@@ -0,0 +1,236 @@
+const MAX_NESTING_DEPTH = 8;
+const SHELL_WRAPPERS = new Set(['bash', 'sh', 'zsh', 'dash', 'ksh']);
+const LEADING_KEYWORDS = new Set(['if', 'then', 'else', 'elif', 'do', 'while', 'until', '!', 'time']);
+const CLOSING_KEYWORDS = new Set(['fi', 'done', 'esac', '}']);
+// Redirections that neither create nor change a file: discarded output, descriptor copies and input.
+const HARMLESS_REDIRECTION = /^(?:(?:\d*|&)>{1,2}\s*\/dev\/null|\d*>&\s*\d+|\d*<\s*[^<\s]\S*)$/;
+
+interface Scan {
+  end: number;
+  inner: string;
+}
+
+function scanUntilClosingParen(input: string, start: number): Scan | null {
+  let depth = 1;
+  let quote: '"' | "'" | null = null;
+  for (let index = start; index < input.length; index += 1) {
+    const char = input[index];
+    if (quote) {
+      if (char === '\\' && quote === '"') {
+        index += 1;
+      } else if (char === quote) {
+        quote = null;
+      }
+      continue;
+    }
+    if (char === '\\') {
+      index += 1;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '(') {
+      depth += 1;
+    } else if (char === ')') {
+      depth -= 1;
+      if (depth === 0) {
+        return { end: index, inner: input.slice(start, index) };
+      }
+    }
+  }
+  return null;
+}
+
+function scanUntilBacktick(input: string, start: number): Scan | null {
+  for (let index = start; index < input.length; index += 1) {
+    if (input[index] === '\\') {
+      index += 1;
+    } else if (input[index] === '`') {
+      return { end: index, inner: input.slice(start, index) };
+    }
+  }
+  return null;
+}
+
+export function tokenizeShellWords(input: string): string[] {
+  const words: string[] = [];
+  let current = '';
+  let hasWord = false;
+  let quote: '"' | "'" | null = null;
+  for (let index = 0; index < input.length; index += 1) {
+    const char = input[index] ?? '';
+    if (quote) {
+      if (char === quote) {
+        quote = null;
+      } else if (char === '\\' && quote === '"' && /["\\$`]/.test(input[index + 1] ?? '')) {
+        current += input[index + 1];
+        index += 1;
+      } else {
+        current += char;
+      }
+      continue;
+    }
+    if (char === '"' || char === "'") {
+      quote = char;
+      hasWord = true;
+    } else if (char === '\\') {
+      current += input[index + 1] ?? '';
+      hasWord = true;
+      index += 1;
+    } else if (/\s/.test(char)) {
+      if (hasWord) words.push(current);
+      current = '';
+      hasWord = false;
+    } else {
+      current += char;
+      hasWord = true;
+    }
+  }
+  if (hasWord) words.push(current);
+  return words;
+}
+
+function unwrapShellScript(command: string): string | null {
+  const words = tokenizeShellWords(command);
+  const program = (words[0] ?? '').split('/').pop() ?? '';
+  if (!SHELL_WRAPPERS.has(program)) return null;
+  for (let index = 1; index < words.length - 1; index += 1) {
+    const word = words[index] ?? '';
+    if (/^-[a-z]*c[a-z]*$/i.test(word)) {
+      return words[index + 1] ?? null;
+    }
+    if (!word.startsWith('-')) return null;
+  }
+  return null;
+}
+
+function stripKeywords(part: string): string {
+  let text = part.trim();
+  for (;;) {
+    const [first = '', ...rest] = text.split(/\s+/);
+    if (!LEADING_KEYWORDS.has(first) || rest.length === 0) return text;
+    text = rest.join(' ');
+  }
+}
+
+function collectParts(command: string, depth: number, parts: string[]): void {
+  if (depth > MAX_NESTING_DEPTH) {
+    parts.push(command.trim());
+    return;
+  }
+
+  let buffer = '';
+  let quote: '"' | "'" | null = null;
+  let afterGroup = false;
+
+  const flush = (): void => {
+    let text = stripKeywords(buffer);
+    let redirectsGroup = afterGroup;
+    buffer = '';
+    afterGroup = false;
+    const [first = '', ...rest] = text.split(/\s+/);
+    if (CLOSING_KEYWORDS.has(first) && rest.length > 0) {
+      text = rest.join(' ');
+      redirectsGroup = true;
+    }
+    if (!text || CLOSING_KEYWORDS.has(text)) return;
+    // Only a harmless redirection of a group is dropped; one that writes a file stays a part of its own.
+    if (redirectsGroup && HARMLESS_REDIRECTION.test(text)) return;
+    const script = unwrapShellScript(text);
+    if (script !== null) {
+      collectParts(script, depth + 1, parts);
+      return;
+    }
+    parts.push(text);
+  };
+
+  const nested = (scan: Scan | null, open: string, close: string, index: number): number => {
+    if (!scan) {
+      buffer += command.slice(index);
+      return command.length;
+    }
+    collectParts(scan.inner, depth + 1, parts);
+    buffer += `${open}${scan.inner}${close}`;
+    return scan.end;
+  };
+
+  for (let index = 0; index < command.length; index += 1) {
+    const char = command[index] ?? '';
+    const next = command[index + 1] ?? '';
+
+    if (quote === "'") {
+      buffer += char;
+      if (char === "'") quote = null;
+      continue;
+    }
+
+    if (char === '\\') {
+      buffer += char + next;
+      index += 1;
+      continue;
+    }
+    if (char === '$' && next === '(') {
+      index = nested(scanUntilClosingParen(command, index + 2), '$(', ')', index);
+      continue;
+    }
+    if (char === '`') {
+      index = nested(scanUntilBacktick(command, index + 1), '`', '`', index);
+      continue;
+    }
+    if (quote === '"') {
+      buffer += char;
+      if (char === '"') quote = null;
+      continue;
+    }
+    if (char === '"' || char === "'") {
+      quote = char;
+      buffer += char;
+      continue;
+    }
+    if ((char === '<' || char === '>') && next === '(') {
+      index = nested(scanUntilClosingParen(command, index + 2), `${char}(`, ')', index);
+      continue;
+    }
+    if (char === '(' && !buffer.trim()) {
+      const scan = scanUntilClosingParen(command, index + 1);
+      if (scan) {
+        collectParts(scan.inner, depth + 1, parts);
+        afterGroup = true;
+        index = scan.end;
+        continue;
+      }
+    }
+    if (char === '{' && !buffer.trim() && /\s/.test(next)) {
+      continue;
+    }
+    if (char === ';' || char === '\n') {
+      flush();
+      continue;
+    }
+    if (char === '|') {
+      flush();
+      if (next === '|' || next === '&') index += 1;
+      continue;
+    }
+    if (char === '&') {
+      if (next === '&') {
+        flush();
+        index += 1;
+        continue;
+      }
+      const previous = buffer[buffer.length - 1] ?? '';
+      if (previous === '>' || previous === '<' || next === '>') {
+        buffer += char;
+        continue;
+      }
+      flush();
+      continue;
+    }
+    buffer += char;
+  }
+  flush();
+}
+
+export function splitCompoundCommand(command: string): string[] {
+  const parts: string[] = [];
+  collectParts(command, 0, parts);
+  return parts;
+}
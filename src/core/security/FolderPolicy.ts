@@ -0,0 +1,255 @@
+import type {
+  ApprovalMode,
+  ApprovalPolicy,
+  ApprovalRule,
+  ApprovalRuleKind,
+  PatternMatcherType,
+  SandboxPolicy,
+  SandboxPolicyType,
+} from '../types';
+import type { ApprovalPolicySettings } from './ApprovalManager';
+import { formatPatternSpec, GLOB_CHARS, parsePatternSpec } from './PatternMatcher';
+
+export const FOLDER_POLICY_FILE = '.codexian.json';
+export const FOLDER_POLICY_FRONTMATTER_KEY = 'codexian-policy';
+// Policy files widen what later turns may do, so no turn may write them.
+export const FOLDER_POLICY_BLOCKLIST_ENTRY = `glob: **/${FOLDER_POLICY_FILE}`;
+
+const APPROVAL_MODE_STRICTNESS: ApprovalMode[] = ['safe', 'prompt', 'yolo'];
+const SANDBOX_STRICTNESS: SandboxPolicyType[] = ['readOnly', 'workspaceWrite', 'dangerFullAccess'];
+
+export interface FolderPolicy {
+  folder: string;
+  source: string;
+  readOnly: boolean;
+  approvalMode?: ApprovalMode;
+  sandbox?: SandboxPolicyType;
+  approvalRules: ApprovalRule[];
+  commandBlocklist: string[];
+  pathBlocklist: string[];
+}
+
+export interface EffectivePolicy extends ApprovalPolicySettings {
+  sandbox?: SandboxPolicyType;
+  sources: string[];
+}
+
+export type FolderPolicyReader = (folder: string) => Promise<{ source: string; raw: unknown } | null>;
+
+export class FolderPolicyError extends Error {
+  constructor(
+    message: string,
+    readonly source: string
+  ) {
+    super(message);
+    this.name = 'FolderPolicyError';
+  }
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isOneOf = <T extends string>(value: unknown, options: readonly T[]): value is T =>
+  typeof value === 'string' && (options as readonly string[]).includes(value);
+
+const toStringList = (value: unknown, field: string, source: string): string[] => {
+  if (value === undefined) return [];
+  if (!Array.isArray(value) || value.some((entry) => typeof entry !== 'string')) {
+    throw new FolderPolicyError(`"${field}" must be a list of strings.`, source);
+  }
+  return (value as string[]).map((entry) => entry.trim()).filter((entry) => entry.length > 0);
+};
+
+/** True for a folder note (`Folder/Folder.md`), which can carry a policy in its frontmatter. */
+export function isFolderPolicyNote(relativePath: string): boolean {
+  const segments = relativePath.replace(/\\/g, '/').split('/').filter((segment) => segment.length > 0);
+  const fileName = segments[segments.length - 1] ?? '';
+  const folderName = segments[segments.length - 2];
+  return folderName !== undefined && fileName === `${folderName}.md`;
+}
+
+const scopePathPattern = (pattern: string, folder: string, matcher?: PatternMatcherType): string => {
+  const spec = parsePatternSpec(pattern, 'path', matcher);
+  if (spec.matcher === 'regex' || !folder) return formatPatternSpec(spec, 'path');
+  const relative = spec.pattern.replace(/^\.?\/+/, '');
+  return formatPatternSpec({ matcher: spec.matcher, pattern: relative ? `${folder}/${relative}` : folder }, 'path');
+};
+
+const parseRule = (value: unknown, folder: string, source: string): ApprovalRule => {
+  let kind: unknown;
+  let pattern: unknown;
+  let matcher: unknown;
+  if (typeof value === 'string') {
+    const separator = value.indexOf(':');
+    kind = value.slice(0, separator).trim().toLowerCase();
+    pattern = separator > 0 ? value.slice(separator + 1).trim() : '';
+  } else if (isRecord(value)) {
+    ({ kind, pattern, matcher } = value);
+  }
+  if (!isOneOf<ApprovalRuleKind>(kind, ['command', 'path', 'tool']) || typeof pattern !== 'string' || !pattern.trim()) {
+    throw new FolderPolicyError(
+      'Rules must look like "command: <pattern>", "path: <pattern>" or "tool: <server>/<tool>".',
+      source
+    );
+  }
+  const explicitMatcher = isOneOf<PatternMatcherType>(matcher, ['exact', 'prefix', 'glob', 'regex']) ? matcher : undefined;
+  if (kind !== 'path') {
+    const spec = parsePatternSpec(pattern, kind, explicitMatcher);
+    // Allow rules are checked before the approval mode, so a catch-all would switch approvals off for the folder.
+    const name = kind === 'command' ? spec.pattern.split(/\s+/)[0] : spec.pattern.split('/')[0];
+    if (spec.matcher === 'regex' || (spec.matcher === 'glob' && GLOB_CHARS.test(name ?? ''))) {
+      throw new FolderPolicyError(
+        kind === 'command'
+          ? 'Command rules in folder policies must start with a literal command name and cannot use a regex.'
+          : 'Tool rules in folder policies must name a literal server and cannot use a regex.',
+        source
+      );
+    }
+    return { kind, pattern: spec.pattern, matcher: spec.matcher };
+  }
+  // A regex cannot be confined to the policy folder, so it could allow paths anywhere in the vault.
+  if (parsePatternSpec(pattern, 'path', explicitMatcher).matcher === 'regex') {
+    throw new FolderPolicyError('Path rules in folder policies must use a prefix or glob pattern, not a regex.', source);
+  }
+  const spec = parsePatternSpec(scopePathPattern(pattern, folder, explicitMatcher), 'path');
+  return { kind, pattern: spec.pattern, matcher: spec.matcher };
+};
+
+export function parseFolderPolicy(raw: unknown, folder: string, source: string): FolderPolicy {
+  if (!isRecord(raw)) {
+    throw new FolderPolicyError('Policy must be an object.', source);
+  }
+  if (raw.approvalMode !== undefined && !isOneOf(raw.approvalMode, APPROVAL_MODE_STRICTNESS)) {
+    throw new FolderPolicyError('"approvalMode" must be safe, prompt or yolo.', source);
+  }
+  if (raw.sandbox !== undefined && !isOneOf(raw.sandbox, SANDBOX_STRICTNESS)) {
+    throw new FolderPolicyError('"sandbox" must be readOnly, workspaceWrite or dangerFullAccess.', source);
+  }
+  if (raw.readOnly !== undefined && typeof raw.readOnly !== 'boolean') {
+    throw new FolderPolicyError('"readOnly" must be true or false.', source);
+  }
+  const rules = raw.approvalRules === undefined ? [] : raw.approvalRules;
+  if (!Array.isArray(rules)) {
+    throw new FolderPolicyError('"approvalRules" must be a list.', source);
+  }
+
+  return {
+    folder,
+    source,
+    readOnly: raw.readOnly === true,
+    approvalMode: raw.approvalMode,
+    sandbox: raw.sandbox,
+    approvalRules: rules.map((rule) => parseRule(rule, folder, source)),
+    commandBlocklist: toStringList(raw.commandBlocklist, 'commandBlocklist', source),
+    pathBlocklist: toStringList(raw.pathBlocklist, 'pathBlocklist', source).map((pattern) =>
+      scopePathPattern(pattern, folder)
+    ),
+  };
+}
+
+export function getAncestorFolders(filePath: string): string[] {
+  const segments = filePath
+    .replace(/\\/g, '/')
+    .split('/')
+    .filter((segment) => segment.length > 0);
+  const folders: string[] = [];
+  for (let length = segments.length - 1; length > 0; length -= 1) {
+    folders.push(segments.slice(0, length).join('/'));
+  }
+  folders.push('');
+  return folders;
+}
+
+export async function loadNearestFolderPolicies(
+  filePaths: string[],
+  readPolicy: FolderPolicyReader
+): Promise<{ policies: FolderPolicy[]; errors: FolderPolicyError[] }> {
+  const cache = new Map<string, Promise<FolderPolicy | FolderPolicyError | null>>();
+  const load = (folder: string): Promise<FolderPolicy | FolderPolicyError | null> => {
+    let pending = cache.get(folder);
+    if (!pending) {
+      pending = readPolicy(folder).then(
+        (entry) => {
+          if (!entry) return null;
+          try {
+            return parseFolderPolicy(entry.raw, folder, entry.source);
+          } catch (error) {
+            if (error instanceof FolderPolicyError) return error;
+            throw error;
+          }
+        },
+        (error: unknown) => {
+          if (error instanceof FolderPolicyError) return error;
+          return new FolderPolicyError(error instanceof Error ? error.message : 'Unable to read policy.', folder);
+        }
+      );
+      cache.set(folder, pending);
+    }
+    return pending;
+  };
+
+  const policies: FolderPolicy[] = [];
+  const errors: FolderPolicyError[] = [];
+  for (const filePath of filePaths) {
+    for (const folder of getAncestorFolders(filePath)) {
+      const result = await load(folder);
+      if (!result) continue;
+      if (result instanceof FolderPolicyError) {
+        if (!errors.includes(result)) errors.push(result);
+        continue;
+      }
+      if (!policies.includes(result)) policies.push(result);
+      break;
+    }
+  }
+  return { policies, errors };
+}
+
+const pickStrictest = <T extends string>(values: Array<T | undefined>, order: readonly T[]): T | undefined =>
+  values
+    .filter((value): value is T => value !== undefined)
+    .sort((left, right) => order.indexOf(left) - order.indexOf(right))[0];
+
+// Folder policies can only tighten the global mode and sandbox; rules are the one way they extend it.
+export function mergeFolderPolicies(base: ApprovalPolicySettings, policies: FolderPolicy[]): EffectivePolicy {
+  const approvalMode =
+    pickStrictest(
+      [base.approvalMode, ...policies.map((policy) => policy.approvalMode)],
+      APPROVAL_MODE_STRICTNESS
+    ) ?? base.approvalMode;
+  const sandbox = pickStrictest(
+    policies.map((policy) => (policy.readOnly ? 'readOnly' : policy.sandbox)),
+    SANDBOX_STRICTNESS
+  );
+  const readOnlyBlocklist = policies
+    .filter((policy) => policy.readOnly)
+    .map((policy) => (policy.folder ? policy.folder : 'glob: **'));
+
+  return {
+    approvalMode,
+    approvalRules: [...base.approvalRules, ...policies.flatMap((policy) => policy.approvalRules)],
+    commandBlocklist: [...base.commandBlocklist, ...policies.flatMap((policy) => policy.commandBlocklist)],
+    pathBlocklist: [
+      ...base.pathBlocklist,
+      ...readOnlyBlocklist,
+      ...policies.flatMap((policy) => policy.pathBlocklist),
+    ],
+    mcpServerApprovals: base.mcpServerApprovals,
+    sandbox,
+    sources: policies.map((policy) => policy.source),
+  };
+}
+
+export function restrictModePolicies(
+  modePolicies: { approvalPolicy?: ApprovalPolicy; sandboxPolicy?: SandboxPolicy },
+  policy: EffectivePolicy | null
+): { approvalPolicy?: ApprovalPolicy; sandboxPolicy?: SandboxPolicy } {
+  if (!policy || policy.sources.length === 0) return modePolicies;
+  const sandboxType = pickStrictest([modePolicies.sandboxPolicy?.type, policy.sandbox], SANDBOX_STRICTNESS);
+  const needsApprovals = policy.approvalMode !== 'yolo' && modePolicies.approvalPolicy === 'never';
+  return {
+    approvalPolicy: needsApprovals ? 'on-request' : modePolicies.approvalPolicy,
+    sandboxPolicy:
+      sandboxType && sandboxType !== modePolicies.sandboxPolicy?.type ? { type: sandboxType } : modePolicies.sandboxPolicy,
+  };
+}
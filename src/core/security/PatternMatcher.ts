@@ -0,0 +1,179 @@
+import type { PatternMatcherType } from '../types';
+
+export const PATTERN_MATCHER_TYPES: PatternMatcherType[] = ['exact', 'prefix', 'glob', 'regex'];
+
+export type PatternTarget = 'command' | 'path' | 'tool';
+
+export interface PatternSpec {
+  matcher: PatternMatcherType;
+  pattern: string;
+}
+
+export const GLOB_CHARS = /[*?[\]{}]/;
+const MATCHER_PREFIX = /^(exact|prefix|glob|regex)\s*:\s*/i;
+
+const isMatcherType = (value: string): value is PatternMatcherType =>
+  (PATTERN_MATCHER_TYPES as string[]).includes(value);
+
+export function inferMatcherType(pattern: string, target: PatternTarget): PatternMatcherType {
+  const trimmed = pattern.trim();
+  if (target !== 'path') {
+    if (trimmed.endsWith(' *') && !GLOB_CHARS.test(trimmed.slice(0, -2))) return 'prefix';
+    return GLOB_CHARS.test(trimmed) ? 'glob' : 'exact';
+  }
+  return GLOB_CHARS.test(trimmed) ? 'glob' : 'prefix';
+}
+
+export function parsePatternSpec(
+  value: string,
+  target: PatternTarget,
+  matcher?: PatternMatcherType
+): PatternSpec {
+  const trimmed = value.trim();
+  if (matcher) {
+    return { matcher, pattern: trimmed };
+  }
+  const prefix = MATCHER_PREFIX.exec(trimmed);
+  const explicit = prefix?.[1]?.toLowerCase();
+  if (prefix && explicit && isMatcherType(explicit)) {
+    return { matcher: explicit, pattern: trimmed.slice(prefix[0].length).trim() };
+  }
+  return { matcher: inferMatcherType(trimmed, target), pattern: trimmed };
+}
+
+export function formatPatternSpec(spec: PatternSpec, target: PatternTarget): string {
+  return inferMatcherType(spec.pattern, target) === spec.matcher && !MATCHER_PREFIX.test(spec.pattern)
+    ? spec.pattern
+    : `${spec.matcher}: ${spec.pattern}`;
+}
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+
+export function globToRegExpSource(glob: string, target: PatternTarget): string {
+  const anyChar = target === 'path' ? '[^/]' : '.';
+  let source = '';
+  let braceDepth = 0;
+  for (let index = 0; index < glob.length; index += 1) {
+    const char = glob[index] ?? '';
+    if (char === '*') {
+      if (target === 'path' && glob[index + 1] === '*') {
+        const atSegmentStart = index === 0 || glob[index - 1] === '/';
+        index += 1;
+        if (atSegmentStart && glob[index + 1] === '/') {
+          index += 1;
+          source += '(?:.*/)?';
+        } else {
+          source += '.*';
+        }
+        continue;
+      }
+      source += `${anyChar}*`;
+    } else if (char === '?') {
+      source += anyChar;
+    } else if (char === '[') {
+      const end = glob.indexOf(']', index + 1);
+      if (end < 0) {
+        source += '\\[';
+        continue;
+      }
+      const body = glob.slice(index + 1, end).replace(/\\/g, '\\\\');
+      source += body.startsWith('!') ? `[^${body.slice(1)}]` : `[${body}]`;
+      index = end;
+    } else if (char === '{') {
+      braceDepth += 1;
+      source += '(?:';
+    } else if (char === '}' && braceDepth > 0) {
+      braceDepth -= 1;
+      source += ')';
+    } else if (char === ',' && braceDepth > 0) {
+      source += '|';
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+  return `^${source}$`;
+}
+
+export function validatePatternSpec(spec: PatternSpec, target: PatternTarget): string | null {
+  if (!spec.pattern) {
+    return 'Pattern is empty.';
+  }
+  if (spec.matcher === 'regex') {
+    try {
+      new RegExp(spec.pattern);
+    } catch (error) {
+      return error instanceof Error ? error.message : 'Invalid regular expression.';
+    }
+    return null;
+  }
+  if (spec.matcher === 'glob') {
+    const opened = (spec.pattern.match(/{/g) ?? []).length;
+    const closed = (spec.pattern.match(/}/g) ?? []).length;
+    if (opened !== closed) {
+      return 'Unbalanced braces in glob.';
+    }
+    try {
+      new RegExp(globToRegExpSource(spec.pattern, target));
+    } catch {
+      return 'Invalid glob pattern.';
+    }
+  }
+  return null;
+}
+
+const regexCache = new Map<string, RegExp | null>();
+
+function compile(source: string, flags: string): RegExp | null {
+  const key = `${flags}/${source}`;
+  if (!regexCache.has(key)) {
+    try {
+      regexCache.set(key, new RegExp(source, flags));
+    } catch {
+      regexCache.set(key, null);
+    }
+  }
+  return regexCache.get(key) ?? null;
+}
+
+export function matchesCommandPattern(command: string, spec: PatternSpec): boolean {
+  const normalizedCommand = command.trim();
+  const pattern = spec.pattern.trim();
+  if (!normalizedCommand || !pattern) return false;
+
+  switch (spec.matcher) {
+    case 'exact':
+      return normalizedCommand === pattern;
+    case 'prefix': {
+      const base = pattern.endsWith(' *') ? pattern.slice(0, -2).trim() : pattern;
+      return normalizedCommand === base || normalizedCommand.startsWith(`${base} `);
+    }
+    case 'glob':
+      return compile(globToRegExpSource(pattern, 'command'), 's')?.test(normalizedCommand) ?? false;
+    case 'regex':
+      return compile(pattern, '')?.test(normalizedCommand) ?? false;
+  }
+}
+
+const splitSegments = (value: string): string[] => value.split('/').filter((segment) => segment.length > 0);
+
+export function matchesPathPattern(targetPath: string, spec: PatternSpec, caseInsensitive = false): boolean {
+  const fold = (value: string): string => (caseInsensitive ? value.toLowerCase() : value);
+  const target = fold(targetPath.replace(/\\/g, '/').replace(/\/+$/, ''));
+  const pattern = spec.matcher === 'regex' ? spec.pattern : fold(spec.pattern.replace(/\\/g, '/').replace(/\/+$/, ''));
+  if (!target || !pattern) return false;
+
+  switch (spec.matcher) {
+    case 'exact':
+      return target === pattern;
+    case 'prefix': {
+      const targetSegments = splitSegments(target);
+      const prefixSegments = splitSegments(pattern);
+      if (prefixSegments.length === 0 || prefixSegments.length > targetSegments.length) return false;
+      return prefixSegments.every((segment, index) => targetSegments[index] === segment);
+    }
+    case 'glob':
+      return compile(globToRegExpSource(pattern, 'path'), '')?.test(target) ?? false;
+    case 'regex':
+      return compile(pattern, caseInsensitive ? 'i' : '')?.test(target) ?? false;
+  }
+}
@@ -0,0 +1,126 @@
+import type { DataAdapter } from 'obsidian';
+
+import type { ApprovalAuditRecord } from '../types';
+import { DEFAULT_SESSIONS_FOLDER } from './SessionStorage';
+
+const AUDIT_LOG_FILE = 'approval-audit.jsonl';
+export const LEGACY_APPROVAL_AUDIT_PATH = `.claude/${AUDIT_LOG_FILE}`;
+
+/** The audit log lives in a subfolder of the sessions folder so session scans skip it and it moves with them. */
+export const getApprovalAuditFolder = (sessionsFolder: string): string => `${sessionsFolder}/audit`;
+
+const isAuditRecord = (value: unknown): value is ApprovalAuditRecord => {
+  if (!value || typeof value !== 'object') return false;
+  const record = value as Partial<ApprovalAuditRecord>;
+  return (
+    typeof record.id === 'string' &&
+    typeof record.timestamp === 'number' &&
+    typeof record.outcome === 'string' &&
+    typeof record.kind === 'string' &&
+    Array.isArray(record.paths)
+  );
+};
+
+export class ApprovalAuditStorage {
+  private pending: Promise<void> = Promise.resolve();
+
+  constructor(
+    private adapter: DataAdapter,
+    private folder: string = getApprovalAuditFolder(DEFAULT_SESSIONS_FOLDER)
+  ) {}
+
+  getFolder(): string {
+    return this.folder;
+  }
+
+  append(record: ApprovalAuditRecord): Promise<void> {
+    const line = `${JSON.stringify(record)}\n`;
+    return this.enqueue(() => this.appendLine(line));
+  }
+
+  async load(): Promise<ApprovalAuditRecord[]> {
+    await this.pending;
+    try {
+      if (!(await this.adapter.exists(this.getLogPath()))) {
+        return [];
+      }
+      return this.parseJSONL(await this.adapter.read(this.getLogPath()));
+    } catch {
+      return [];
+    }
+  }
+
+  /** Moves the log to another folder, merging it into a log already there. */
+  changeFolder(folder: string): Promise<boolean> {
+    return this.enqueue(async () => {
+      const from = this.getLogPath();
+      this.folder = folder;
+      return from === this.getLogPath() ? false : this.mergeLog(from);
+    });
+  }
+
+  /** Merges a log kept elsewhere, such as the legacy location, into this one. Returns whether a log was found. */
+  importLog(filePath: string): Promise<boolean> {
+    return this.enqueue(() => this.mergeLog(filePath));
+  }
+
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const next = this.pending.then(task);
+    this.pending = next.then(
+      () => undefined,
+      () => undefined
+    );
+    return next;
+  }
+
+  // Older records go first so the merged log stays in chronological order.
+  private async mergeLog(from: string): Promise<boolean> {
+    if (!(await this.adapter.exists(from))) return false;
+    const to = this.getLogPath();
+    await this.ensureFolder();
+    if (await this.adapter.exists(to)) {
+      const content = await this.adapter.read(from);
+      await this.adapter.write(to, `${content}${await this.adapter.read(to)}`);
+      await this.adapter.remove(from);
+    } else {
+      await this.adapter.rename(from, to);
+    }
+    return true;
+  }
+
+  private async appendLine(line: string): Promise<void> {
+    const logPath = this.getLogPath();
+    if (await this.adapter.exists(logPath)) {
+      await this.adapter.append(logPath, line);
+      return;
+    }
+    await this.ensureFolder();
+    await this.adapter.write(logPath, line);
+  }
+
+  private async ensureFolder(): Promise<void> {
+    if (!(await this.adapter.exists(this.folder))) {
+      await this.adapter.mkdir(this.folder);
+    }
+  }
+
+  private getLogPath(): string {
+    return `${this.folder}/${AUDIT_LOG_FILE}`;
+  }
+
+  private parseJSONL(content: string): ApprovalAuditRecord[] {
+    const records: ApprovalAuditRecord[] = [];
+    for (const line of content.split(/\r?\n/)) {
+      if (!line.trim()) continue;
+      try {
+        const record: unknown = JSON.parse(line);
+        if (isAuditRecord(record)) {
+          records.push(record);
+        }
+      } catch {
+        continue;
+      }
+    }
+    return records;
+  }
+}
@@ -0,0 +1,58 @@
+export const SESSION_SCHEMA_VERSION = 2;
+
+/** A session file line as read from disk, before it is checked against the current record types. */
+export type RawSessionRecord = Record<string, unknown>;
+
+type SessionMigration = (records: RawSessionRecord[]) => RawSessionRecord[];
+
+export class SessionSchemaError extends Error {
+  constructor(
+    message: string,
+    readonly sessionId: string,
+    readonly schemaVersion: number
+  ) {
+    super(message);
+    this.name = 'SessionSchemaError';
+  }
+}
+
+// Keyed by the version each migration upgrades from; every step must produce the next version.
+const MIGRATIONS: Record<number, SessionMigration> = {
+  // Version 1 files predate the schema field and need no record changes.
+  1: (records) => records,
+};
+
+const findMeta = (records: RawSessionRecord[]): RawSessionRecord | undefined =>
+  [...records].reverse().find((record) => record.type === 'meta');
+
+export function getSessionSchemaVersion(records: RawSessionRecord[]): number {
+  const meta = findMeta(records);
+  const version = meta?.schemaVersion;
+  return typeof version === 'number' && Number.isInteger(version) && version > 0 ? version : 1;
+}
+
+/** Upgrades records to the current schema. Files written by a newer plugin are refused rather than guessed at. */
+export function migrateSessionRecords(records: RawSessionRecord[]): RawSessionRecord[] {
+  const meta = findMeta(records);
+  const sessionId = typeof meta?.id === 'string' ? meta.id : 'unknown';
+  let version = getSessionSchemaVersion(records);
+  if (version > SESSION_SCHEMA_VERSION) {
+    throw new SessionSchemaError(
+      `Session ${sessionId} was saved by a newer version of Codexian (schema ${version}). ` +
+        'Update the plugin to open it.',
+      sessionId,
+      version
+    );
+  }
+
+  let migrated = records;
+  while (version < SESSION_SCHEMA_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) {
+      throw new SessionSchemaError(`No migration for session schema ${version}.`, sessionId, version);
+    }
+    migrated = migrate(migrated);
+    version += 1;
+  }
+  return migrated;
+}
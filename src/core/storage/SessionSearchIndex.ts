@@ -0,0 +1,228 @@
+import type { CodexianConversation, MessageRole, SessionIndexEntry } from '../types';
+
+const SEARCH_INDEX_VERSION = 1;
+const SNIPPET_RADIUS = 60;
+const TOKEN_PATTERN = /[\p{L}\p{N}_]+/gu;
+
+export interface SessionSearchDocument {
+  kind: 'message' | 'item';
+  text: string;
+  itemType?: string;
+  /** Message to jump to. Ids change when a thread is reloaded, so the role ordinal is kept as a fallback. */
+  messageId?: string;
+  role?: MessageRole;
+  roleIndex?: number;
+}
+
+export interface SessionSearchSnippet {
+  text: string;
+  highlights: Array<[number, number]>;
+}
+
+export interface SessionSearchHit {
+  sessionId: string;
+  document: SessionSearchDocument;
+  snippet: SessionSearchSnippet;
+  score: number;
+}
+
+interface IndexedSession {
+  signature: string;
+  documents: SessionSearchDocument[];
+}
+
+export interface SessionSearchIndexData {
+  version: number;
+  sessions: Record<string, IndexedSession>;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const getString = (value: unknown): string | undefined =>
+  typeof value === 'string' && value.trim() ? value.trim() : undefined;
+
+export function tokenizeSearchText(text: string): string[] {
+  return (text.toLowerCase().match(TOKEN_PATTERN) ?? []).filter((token) => token.length > 1);
+}
+
+export function getSessionSearchSignature(entry: Pick<SessionIndexEntry, 'updatedAt' | 'messageCount'>): string {
+  return `${entry.updatedAt}:${entry.messageCount}`;
+}
+
+// Only what an item did is indexed (commands run, files changed, tools called), not its output.
+export function extractItemSearchText(item: unknown): string {
+  if (!isRecord(item)) return '';
+  const parts: string[] = [];
+  const command = Array.isArray(item.command)
+    ? item.command.filter((part): part is string => typeof part === 'string').join(' ')
+    : getString(item.command);
+  if (command) parts.push(command);
+  const changes = Array.isArray(item.changes) ? item.changes : [];
+  for (const change of changes) {
+    const changePath = isRecord(change) ? getString(change.path) : undefined;
+    if (changePath) parts.push(changePath);
+  }
+  const filePath = getString(item.path);
+  if (filePath) parts.push(filePath);
+  const server = getString(item.server);
+  const tool = getString(item.tool);
+  if (server && tool) parts.push(`${server}/${tool}`);
+  return parts.join('\n');
+}
+
+export function buildSessionSearchDocuments(conversation: CodexianConversation): SessionSearchDocument[] {
+  const roleCounts: Record<MessageRole, number> = { user: 0, assistant: 0 };
+  const targets = conversation.messages.map((message) => {
+    const roleIndex = roleCounts[message.role];
+    roleCounts[message.role] += 1;
+    return { messageId: message.id, role: message.role, roleIndex, timestamp: message.timestamp };
+  });
+
+  const documents: SessionSearchDocument[] = [];
+  conversation.messages.forEach((message, index) => {
+    const target = targets[index];
+    if (!message.content.trim() || !target) return;
+    documents.push({
+      kind: 'message',
+      text: message.content,
+      messageId: target.messageId,
+      role: target.role,
+      roleIndex: target.roleIndex,
+    });
+  });
+
+  for (const item of conversation.items ?? []) {
+    const text = extractItemSearchText(item.item);
+    if (!text) continue;
+    const target = [...targets].reverse().find((entry) => entry.timestamp <= item.timestamp) ?? targets[targets.length - 1];
+    documents.push({
+      kind: 'item',
+      text,
+      itemType: item.itemType,
+      messageId: target?.messageId,
+      role: target?.role,
+      roleIndex: target?.roleIndex,
+    });
+  }
+  return documents;
+}
+
+export function buildSearchSnippet(text: string, tokens: string[]): SessionSearchSnippet {
+  const lower = text.toLowerCase();
+  const first = Math.min(
+    ...tokens.map((token) => lower.indexOf(token)).filter((index) => index >= 0),
+    text.length
+  );
+  const start = first === text.length ? 0 : Math.max(0, first - SNIPPET_RADIUS);
+  const end = Math.min(text.length, start + SNIPPET_RADIUS * 3);
+  const prefix = start > 0 ? '…' : '';
+  const suffix = end < text.length ? '…' : '';
+  const body = text.slice(start, end).replace(/\s/g, ' ');
+
+  const ranges: Array<[number, number]> = [];
+  const bodyLower = body.toLowerCase();
+  for (const token of tokens) {
+    for (let index = bodyLower.indexOf(token); index >= 0; index = bodyLower.indexOf(token, index + token.length)) {
+      ranges.push([index + prefix.length, index + prefix.length + token.length]);
+    }
+  }
+  ranges.sort((left, right) => left[0] - right[0]);
+  const highlights: Array<[number, number]> = [];
+  for (const range of ranges) {
+    const last = highlights[highlights.length - 1];
+    if (last && range[0] <= last[1]) {
+      last[1] = Math.max(last[1], range[1]);
+    } else {
+      highlights.push([range[0], range[1]]);
+    }
+  }
+  return { text: `${prefix}${body}${suffix}`, highlights };
+}
+
+/** In-memory inverted index over the messages and items of saved sessions. */
+export class SessionSearchIndex {
+  private sessions = new Map<string, IndexedSession>();
+  private postings = new Map<string, Set<string>>();
+
+  static fromJSON(data: unknown): SessionSearchIndex | null {
+    if (!isRecord(data) || data.version !== SEARCH_INDEX_VERSION || !isRecord(data.sessions)) return null;
+    const index = new SessionSearchIndex();
+    for (const [sessionId, session] of Object.entries(data.sessions)) {
+      if (!isRecord(session) || typeof session.signature !== 'string' || !Array.isArray(session.documents)) continue;
+      index.setSession(sessionId, session.signature, session.documents as SessionSearchDocument[]);
+    }
+    return index;
+  }
+
+  toJSON(): SessionSearchIndexData {
+    return { version: SEARCH_INDEX_VERSION, sessions: Object.fromEntries(this.sessions) };
+  }
+
+  getSignature(sessionId: string): string | undefined {
+    return this.sessions.get(sessionId)?.signature;
+  }
+
+  getSessionIds(): string[] {
+    return [...this.sessions.keys()];
+  }
+
+  setSession(sessionId: string, signature: string, documents: SessionSearchDocument[]): void {
+    this.removeSession(sessionId);
+    this.sessions.set(sessionId, { signature, documents });
+    documents.forEach((document, index) => {
+      const key = this.toKey(sessionId, index);
+      for (const token of new Set(tokenizeSearchText(document.text))) {
+        const keys = this.postings.get(token) ?? new Set<string>();
+        keys.add(key);
+        this.postings.set(token, keys);
+      }
+    });
+  }
+
+  removeSession(sessionId: string): void {
+    const session = this.sessions.get(sessionId);
+    if (!session) return;
+    this.sessions.delete(sessionId);
+    session.documents.forEach((document, index) => {
+      const key = this.toKey(sessionId, index);
+      for (const token of new Set(tokenizeSearchText(document.text))) {
+        const keys = this.postings.get(token);
+        keys?.delete(key);
+        if (keys?.size === 0) this.postings.delete(token);
+      }
+    });
+  }
+
+  /** Returns documents containing every query term, matching each term as a word prefix, best first. */
+  search(query: string, limit?: number): SessionSearchHit[] {
+    const tokens = [...new Set(tokenizeSearchText(query))];
+    if (tokens.length === 0) return [];
+
+    let matches: Set<string> | null = null;
+    for (const token of tokens) {
+      const tokenMatches = new Set<string>();
+      for (const [indexed, keys] of this.postings) {
+        if (!indexed.startsWith(token)) continue;
+        keys.forEach((key) => tokenMatches.add(key));
+      }
+      matches = matches ? new Set([...matches].filter((key) => tokenMatches.has(key))) : tokenMatches;
+      if (matches.size === 0) return [];
+    }
+
+    const hits: SessionSearchHit[] = [];
+    for (const key of matches ?? []) {
+      const [sessionId = '', rawIndex = ''] = key.split('\n');
+      const document = this.sessions.get(sessionId)?.documents[Number(rawIndex)];
+      if (!document) continue;
+      const snippet = buildSearchSnippet(document.text, tokens);
+      hits.push({ sessionId, document, snippet, score: snippet.highlights.length });
+    }
+    hits.sort((left, right) => right.score - left.score);
+    return limit === undefined ? hits : hits.slice(0, limit);
+  }
+
+  private toKey(sessionId: string, index: number): string {
+    return `${sessionId}\n${index}`;
+  }
+}
@@ -4,13 +4,41 @@ import type {
   ChatMessage,
   CodexianConversation,
   CodexianConversationItem,
+  CodexianImportSource,
   CodexianMode,
+  CodexianUsageRecord,
+  SessionIndexEntry,
+  SessionRetentionPolicy,
 } from '../types';
+import {
+  migrateSessionRecords,
+  type RawSessionRecord,
+  SESSION_SCHEMA_VERSION,
+  SessionSchemaError,
+} from './SessionMigrations';
+import {
+  buildSessionSearchDocuments,
+  getSessionSearchSignature,
+  type SessionSearchHit,
+  SessionSearchIndex,
+} from './SessionSearchIndex';
 
-const SESSIONS_PATH = '.claude/sessions';
+export const DEFAULT_SESSIONS_FOLDER = '.codexian/sessions';
+// Where sessions were kept before the folder became configurable.
+export const LEGACY_SESSIONS_FOLDER = '.claude/sessions';
+const ARCHIVE_FOLDER = 'archive';
+const INDEX_FILE = 'index.json';
+const INDEX_VERSION = 1;
+const INDEX_PROMPT_LIMIT = 200;
+const SEARCH_INDEX_FILE = 'search-index.json';
+const TEMP_SUFFIX = '.tmp';
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Appended records beyond this many characters trigger a rewrite of the file.
+const COMPACTION_THRESHOLD = 256 * 1024;
 
 interface SessionMetaRecord {
   type: 'meta';
+  schemaVersion: number;
   id: string;
   title: string;
   model?: string;
@@ -20,6 +48,7 @@ interface SessionMetaRecord {
   updatedAt: number;
   lastResponseAt?: number;
   threadId?: string;
+  importedFrom?: CodexianImportSource;
 }
 
 interface SessionMessageRecord {
@@ -37,57 +66,567 @@ interface SessionItemRecord {
   item: unknown;
 }
 
-type SessionRecord = SessionMetaRecord | SessionMessageRecord | SessionItemRecord;
+interface SessionUsageRecord extends CodexianUsageRecord {
+  type: 'usage';
+}
+
+type SessionRecord = SessionMetaRecord | SessionMessageRecord | SessionItemRecord | SessionUsageRecord;
+
+interface SerializedSession {
+  meta: string;
+  messages: Map<string, string>;
+  items: string[];
+  usage: string[];
+}
+
+interface SessionWriteState extends SerializedSession {
+  appendedChars: number;
+}
+
+export interface SessionSearchResult extends SessionSearchHit {
+  session: SessionIndexEntry;
+}
+
+interface SessionIndexFile {
+  version: number;
+  entries: SessionIndexEntry[];
+}
+
+const isIndexEntry = (value: unknown): value is SessionIndexEntry => {
+  if (!value || typeof value !== 'object') return false;
+  const entry = value as Partial<SessionIndexEntry>;
+  return (
+    typeof entry.id === 'string' &&
+    typeof entry.title === 'string' &&
+    typeof entry.createdAt === 'number' &&
+    typeof entry.updatedAt === 'number' &&
+    typeof entry.messageCount === 'number'
+  );
+};
+
+export function buildSessionIndexEntry(conversation: CodexianConversation): SessionIndexEntry {
+  const firstUserPrompt = conversation.messages
+    .find((message) => message.role === 'user')
+    ?.content.replace(/\s+/g, ' ')
+    .trim()
+    .slice(0, INDEX_PROMPT_LIMIT);
+  return {
+    id: conversation.id,
+    title: conversation.title,
+    threadId: conversation.threadId,
+    model: conversation.model,
+    mode: conversation.mode,
+    createdAt: conversation.createdAt,
+    updatedAt: conversation.updatedAt,
+    lastResponseAt: conversation.lastResponseAt,
+    messageCount: conversation.messages.length,
+    firstUserPrompt: firstUserPrompt || undefined,
+  };
+}
+
+/** Picks sessions past the age or count limit, newest first. Sessions in `keep` are never picked. */
+export function selectExpiredSessions(
+  entries: SessionIndexEntry[],
+  policy: Pick<SessionRetentionPolicy, 'maxAgeDays' | 'maxCount'>,
+  now: number,
+  keep: ReadonlySet<string> = new Set()
+): SessionIndexEntry[] {
+  const cutoff = policy.maxAgeDays > 0 ? now - policy.maxAgeDays * DAY_MS : null;
+  return [...entries]
+    .sort((left, right) => right.updatedAt - left.updatedAt)
+    .filter((entry, rank) => {
+      if (keep.has(entry.id) || (entry.threadId && keep.has(entry.threadId))) return false;
+      return (cutoff !== null && entry.updatedAt < cutoff) || (policy.maxCount > 0 && rank >= policy.maxCount);
+    });
+}
 
 export class SessionStorage {
-  constructor(private adapter: DataAdapter) {}
+  private pending: Promise<void> = Promise.resolve();
+  private writeStates = new Map<string, SessionWriteState>();
+  private index: Map<string, SessionIndexEntry> | null = null;
+  private searchIndex: SessionSearchIndex | null = null;
+  private searchIndexDirty = false;
+  // Sessions saved before the search index was loaded; their signature may not reveal the change.
+  private staleSearchSessions = new Set<string>();
+  // Sessions written by a newer plugin version; they are never overwritten.
+  private unsupportedSessions = new Map<string, number>();
+
+  constructor(
+    private adapter: DataAdapter,
+    private folder = DEFAULT_SESSIONS_FOLDER
+  ) {}
+
+  getFolder(): string {
+    return this.folder;
+  }
+
+  /** Switches to another folder and moves the session files over. Returns how many files moved. */
+  changeFolder(folder: string): Promise<number> {
+    return this.enqueue(async () => {
+      if (folder === this.folder) return 0;
+      const previous = this.folder;
+      this.folder = folder;
+      return this.moveSessionFiles(previous);
+    });
+  }
+
+  /** Moves session files from another folder into the current one, leaving files that already exist there. */
+  importFolder(folder: string): Promise<number> {
+    return this.enqueue(async () => (folder === this.folder ? 0 : this.moveSessionFiles(folder)));
+  }
+
+  /**
+   * Archives or deletes sessions past the retention limits and returns their index entries so the
+   * caller can archive the matching threads.
+   */
+  applyRetention(
+    policy: SessionRetentionPolicy,
+    keep: ReadonlySet<string> = new Set(),
+    now = Date.now()
+  ): Promise<SessionIndexEntry[]> {
+    return this.enqueue(async () => {
+      const index = await this.loadIndex();
+      const expired = selectExpiredSessions([...index.values()], policy, now, keep);
+      if (expired.length === 0) return [];
+      for (const entry of expired) {
+        const filePath = this.getFilePath(entry.id);
+        if (await this.adapter.exists(filePath)) {
+          if (policy.archive) {
+            await this.moveFile(filePath, `${this.folder}/${ARCHIVE_FOLDER}/${entry.id}.jsonl`, true);
+          } else {
+            await this.adapter.remove(filePath);
+          }
+        }
+        index.delete(entry.id);
+        this.writeStates.delete(entry.id);
+        this.staleSearchSessions.delete(entry.id);
+        if (this.searchIndex) {
+          this.searchIndex.removeSession(entry.id);
+          this.searchIndexDirty = true;
+        }
+      }
+      await this.writeIndexFile(index);
+      await this.flushSearchIndex();
+      return expired;
+    });
+  }
+
+  // Reads also go through the queue so a half-finished swap is never mistaken for a crashed one.
+  loadConversation(id: string): Promise<CodexianConversation | null> {
+    return this.enqueue(() => this.readConversation(id));
+  }
+
+  /** Lists saved sessions from the index file, rebuilding it from the session files when it is missing. */
+  listSessionIndex(): Promise<SessionIndexEntry[]> {
+    return this.enqueue(async () => [...(await this.loadIndex()).values()]);
+  }
+
+  /** Searches message text and item payloads of all saved sessions, bringing stale sessions up to date first. */
+  searchConversations(query: string, limit = 50): Promise<SessionSearchResult[]> {
+    return this.enqueue(async () => {
+      if (!query.trim()) return [];
+      const searchIndex = await this.loadSearchIndex();
+      const sessions = await this.loadIndex();
+      const results: SessionSearchResult[] = [];
+      // The limit applies after dropping hits for sessions that are no longer indexed.
+      for (const hit of searchIndex.search(query)) {
+        const session = sessions.get(hit.sessionId);
+        if (session) results.push({ ...hit, session });
+        if (results.length >= limit) break;
+      }
+      return results;
+    });
+  }
+
+  listConversations(): Promise<CodexianConversation[]> {
+    return this.enqueue(() => this.readAllConversations());
+  }
+
+  /**
+   * Appends records that changed since the last save. The first save of a session in this process,
+   * any removed or rewritten history, and growth past the compaction threshold rewrite the whole file.
+   */
+  saveConversation(conversation: CodexianConversation): Promise<void> {
+    const serialized = this.serialize(conversation);
+    const indexEntry = buildSessionIndexEntry(conversation);
+    return this.enqueue(async () => {
+      const unsupportedVersion = this.unsupportedSessions.get(conversation.id);
+      if (unsupportedVersion !== undefined) {
+        throw new SessionSchemaError(
+          `Session ${conversation.id} was saved by a newer version of Codexian and cannot be overwritten.`,
+          conversation.id,
+          unsupportedVersion
+        );
+      }
+      await this.writeRecords(conversation.id, serialized);
+      await this.updateIndex(indexEntry);
+      this.updateSearchIndex(conversation, indexEntry);
+    });
+  }
+
+  /** Removes a saved session and its index entries. */
+  deleteConversation(id: string): Promise<void> {
+    return this.enqueue(async () => {
+      for (const filePath of [this.getFilePath(id), `${this.getFilePath(id)}${TEMP_SUFFIX}`]) {
+        if (await this.adapter.exists(filePath)) await this.adapter.remove(filePath);
+      }
+      this.writeStates.delete(id);
+      this.staleSearchSessions.delete(id);
+      if (this.searchIndex?.getSignature(id) !== undefined) {
+        this.searchIndex.removeSession(id);
+        this.searchIndexDirty = true;
+      }
+      const index = await this.loadIndex();
+      if (index.delete(id)) await this.writeIndexFile(index);
+    });
+  }
+
+  /** Rewrites the session file without superseded records and forgets its write state. */
+  closeConversation(id: string): Promise<void> {
+    return this.enqueue(async () => {
+      const state = this.writeStates.get(id);
+      if (!state) return;
+      if (state.appendedChars > 0) {
+        await this.writeCompacted(id, state);
+      }
+      this.writeStates.delete(id);
+      await this.flushSearchIndex();
+    });
+  }
+
+  async closeAll(): Promise<void> {
+    await Promise.all([...this.writeStates.keys()].map((id) => this.closeConversation(id)));
+    await this.enqueue(() => this.flushSearchIndex());
+  }
+
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const next = this.pending.then(task);
+    this.pending = next.then(
+      () => undefined,
+      () => undefined
+    );
+    return next;
+  }
+
+  private async writeRecords(id: string, serialized: SerializedSession): Promise<void> {
+    const state = this.writeStates.get(id);
+    const lines = state ? this.collectAppendedLines(state, serialized) : null;
+    if (!state || !lines || state.appendedChars + this.countChars(lines) > COMPACTION_THRESHOLD) {
+      await this.writeCompacted(id, serialized);
+      return;
+    }
+    if (lines.length === 0) return;
+    try {
+      await this.adapter.append(this.getFilePath(id), `${lines.join('\n')}\n`);
+    } catch (error) {
+      this.writeStates.delete(id);
+      throw error;
+    }
+    state.appendedChars += this.countChars(lines);
+    this.applySerialized(state, serialized);
+  }
+
+  private async loadIndex(): Promise<Map<string, SessionIndexEntry>> {
+    if (this.index) return this.index;
+    const stored = await this.readIndexFile();
+    if (stored) {
+      this.index = stored;
+      return stored;
+    }
+    const rebuilt = new Map<string, SessionIndexEntry>();
+    for (const conversation of await this.readAllConversations()) {
+      rebuilt.set(conversation.id, buildSessionIndexEntry(conversation));
+    }
+    this.index = rebuilt;
+    if (rebuilt.size > 0) {
+      await this.writeIndexFile(rebuilt);
+    }
+    return rebuilt;
+  }
+
+  private updateSearchIndex(conversation: CodexianConversation, entry: SessionIndexEntry): void {
+    if (!this.searchIndex) {
+      this.staleSearchSessions.add(conversation.id);
+      return;
+    }
+    this.searchIndex.setSession(
+      conversation.id,
+      getSessionSearchSignature(entry),
+      buildSessionSearchDocuments(conversation)
+    );
+    this.searchIndexDirty = true;
+  }
+
+  private async loadSearchIndex(): Promise<SessionSearchIndex> {
+    if (this.searchIndex) return this.searchIndex;
+    const searchIndex = (await this.readSearchIndexFile()) ?? new SessionSearchIndex();
+    const sessions = await this.loadIndex();
+    let changed = false;
+    for (const id of searchIndex.getSessionIds()) {
+      if (sessions.has(id)) continue;
+      searchIndex.removeSession(id);
+      changed = true;
+    }
+    for (const entry of sessions.values()) {
+      const signature = getSessionSearchSignature(entry);
+      if (searchIndex.getSignature(entry.id) === signature && !this.staleSearchSessions.has(entry.id)) continue;
+      const conversation = await this.readConversation(entry.id).catch(() => null);
+      if (conversation) {
+        searchIndex.setSession(entry.id, signature, buildSessionSearchDocuments(conversation));
+      } else {
+        searchIndex.removeSession(entry.id);
+      }
+      changed = true;
+    }
+    this.staleSearchSessions.clear();
+    this.searchIndex = searchIndex;
+    this.searchIndexDirty = changed;
+    await this.flushSearchIndex();
+    return searchIndex;
+  }
+
+  private async readSearchIndexFile(): Promise<SessionSearchIndex | null> {
+    try {
+      const searchIndexPath = `${this.folder}/${SEARCH_INDEX_FILE}`;
+      if (!(await this.recoverFile(searchIndexPath))) return null;
+      return SessionSearchIndex.fromJSON(JSON.parse(await this.adapter.read(searchIndexPath)));
+    } catch {
+      return null;
+    }
+  }
+
+  private async flushSearchIndex(): Promise<void> {
+    if (!this.searchIndex || !this.searchIndexDirty) return;
+    await this.ensureFolder(this.folder);
+    await this.writeAtomic(`${this.folder}/${SEARCH_INDEX_FILE}`, JSON.stringify(this.searchIndex.toJSON()));
+    this.searchIndexDirty = false;
+  }
+
+  private async readIndexFile(): Promise<Map<string, SessionIndexEntry> | null> {
+    try {
+      const indexPath = `${this.folder}/${INDEX_FILE}`;
+      if (!(await this.recoverFile(indexPath))) return null;
+      const parsed = JSON.parse(await this.adapter.read(indexPath)) as Partial<SessionIndexFile>;
+      if (parsed.version !== INDEX_VERSION || !Array.isArray(parsed.entries)) return null;
+      return new Map(parsed.entries.filter(isIndexEntry).map((entry) => [entry.id, entry]));
+    } catch {
+      return null;
+    }
+  }
+
+  private async updateIndex(entry: SessionIndexEntry): Promise<void> {
+    const index = await this.loadIndex();
+    const previous = index.get(entry.id);
+    if (previous && JSON.stringify(previous) === JSON.stringify(entry)) return;
+    index.set(entry.id, entry);
+    await this.writeIndexFile(index);
+  }
+
+  private async writeIndexFile(index: Map<string, SessionIndexEntry>): Promise<void> {
+    await this.ensureFolder(this.folder);
+    const file: SessionIndexFile = { version: INDEX_VERSION, entries: [...index.values()] };
+    await this.writeAtomic(`${this.folder}/${INDEX_FILE}`, JSON.stringify(file));
+  }
+
+  private collectAppendedLines(state: SessionWriteState, next: SerializedSession): string[] | null {
+    if (
+      next.items.length < state.items.length ||
+      next.usage.length < state.usage.length ||
+      state.items.some((line, index) => next.items[index] !== line) ||
+      state.usage.some((line, index) => next.usage[index] !== line) ||
+      [...state.messages.keys()].some((id) => !next.messages.has(id))
+    ) {
+      return null;
+    }
+
+    const lines: string[] = [];
+    if (next.meta !== state.meta) lines.push(next.meta);
+    for (const [id, line] of next.messages) {
+      if (state.messages.get(id) !== line) lines.push(line);
+    }
+    lines.push(...next.items.slice(state.items.length), ...next.usage.slice(state.usage.length));
+    return lines;
+  }
+
+  private async writeCompacted(id: string, serialized: SerializedSession): Promise<void> {
+    await this.ensureFolder(this.folder);
+    const lines = [serialized.meta, ...serialized.messages.values(), ...serialized.items, ...serialized.usage];
+    await this.writeAtomic(this.getFilePath(id), `${lines.join('\n')}\n`);
+    const state: SessionWriteState = { ...serialized, messages: new Map(serialized.messages), appendedChars: 0 };
+    this.writeStates.set(id, state);
+  }
+
+  private async writeAtomic(filePath: string, content: string): Promise<void> {
+    const tempPath = `${filePath}${TEMP_SUFFIX}`;
+    await this.adapter.write(tempPath, content);
+    try {
+      await this.adapter.rename(tempPath, filePath);
+    } catch {
+      // The desktop adapter refuses to rename over an existing file. Until the rename below
+      // lands only the temp file exists, and recoverFile restores it on the next read.
+      await this.adapter.remove(filePath);
+      await this.adapter.rename(tempPath, filePath);
+    }
+  }
+
+  /** Reports whether a file exists, first restoring it from a temp file left by an interrupted write. */
+  private async recoverFile(filePath: string): Promise<boolean> {
+    if (await this.adapter.exists(filePath)) return true;
+    const tempPath = `${filePath}${TEMP_SUFFIX}`;
+    if (!(await this.adapter.exists(tempPath))) return false;
+    await this.adapter.rename(tempPath, filePath);
+    return true;
+  }
+
+  private applySerialized(state: SessionWriteState, next: SerializedSession): void {
+    state.meta = next.meta;
+    state.messages = new Map(next.messages);
+    state.items = next.items;
+    state.usage = next.usage;
+  }
+
+  private countChars(lines: string[]): number {
+    return lines.reduce((total, line) => total + line.length + 1, 0);
+  }
+
+  private async readAllConversations(): Promise<CodexianConversation[]> {
+    const conversations: CodexianConversation[] = [];
+    for (const filePath of await this.listSessionFiles(this.folder)) {
+      try {
+        const conversation = this.parseSession(await this.adapter.read(filePath));
+        if (conversation) {
+          conversations.push(conversation);
+        }
+      } catch {
+        continue;
+      }
+    }
+    return conversations;
+  }
 
-  async loadConversation(id: string): Promise<CodexianConversation | null> {
+  /** Reads a session file, throwing SessionSchemaError when it was written by a newer plugin version. */
+  private async readConversation(id: string): Promise<CodexianConversation | null> {
     const filePath = this.getFilePath(id);
     try {
-      if (!(await this.adapter.exists(filePath))) {
+      if (!(await this.recoverFile(filePath))) {
         return null;
       }
-      const content = await this.adapter.read(filePath);
-      return this.parseJSONL(content);
-    } catch {
+      return this.parseSession(await this.adapter.read(filePath));
+    } catch (error) {
+      if (error instanceof SessionSchemaError) throw error;
       return null;
     }
   }
 
-  async saveConversation(conversation: CodexianConversation): Promise<void> {
-    await this.ensureSessionsDir();
-    const filePath = this.getFilePath(conversation.id);
-    const content = this.serializeToJSONL(conversation);
-    await this.adapter.write(filePath, content);
+  private async listSessionFiles(folder: string): Promise<string[]> {
+    if (!(await this.adapter.exists(folder))) {
+      return [];
+    }
+    const listing = await this.adapter.list(folder);
+    const files = new Set(listing.files);
+    for (const tempPath of listing.files) {
+      const filePath = tempPath.slice(0, -TEMP_SUFFIX.length);
+      if (!tempPath.endsWith(`.jsonl${TEMP_SUFFIX}`) || files.has(filePath)) continue;
+      await this.adapter.rename(tempPath, filePath);
+      files.add(filePath);
+    }
+    return [...files].filter((filePath) => filePath.endsWith('.jsonl'));
+  }
+
+  private async moveSessionFiles(from: string): Promise<number> {
+    let moved = 0;
+    for (const subfolder of ['', `/${ARCHIVE_FOLDER}`]) {
+      for (const filePath of await this.listSessionFiles(`${from}${subfolder}`)) {
+        if (!(await this.isSessionFile(filePath))) continue;
+        const fileName = filePath.slice(filePath.lastIndexOf('/') + 1);
+        if (await this.moveFile(filePath, `${this.folder}${subfolder}/${fileName}`, false)) moved += 1;
+      }
+    }
+    // The indexes of both folders no longer describe their files; they are rebuilt on next use.
+    const staleIndexes = moved > 0 ? [from, this.folder] : [];
+    for (const folder of staleIndexes) {
+      for (const fileName of [INDEX_FILE, SEARCH_INDEX_FILE]) {
+        if (await this.adapter.exists(`${folder}/${fileName}`)) await this.adapter.remove(`${folder}/${fileName}`);
+      }
+    }
+    this.index = null;
+    this.searchIndex = null;
+    this.searchIndexDirty = false;
+    this.staleSearchSessions.clear();
+    this.writeStates.clear();
+    return moved;
+  }
+
+  // Only files that parse as sessions are moved, so unrelated files in a shared folder stay put.
+  private async isSessionFile(filePath: string): Promise<boolean> {
+    try {
+      return this.parseJSONL(await this.adapter.read(filePath)) !== null;
+    } catch (error) {
+      return error instanceof SessionSchemaError;
+    }
+  }
+
+  private async moveFile(from: string, to: string, overwrite: boolean): Promise<boolean> {
+    if (await this.adapter.exists(to)) {
+      if (!overwrite) return false;
+      await this.adapter.remove(to);
+    }
+    await this.ensureFolder(to.slice(0, to.lastIndexOf('/')));
+    await this.adapter.rename(from, to);
+    return true;
   }
 
   private getFilePath(id: string): string {
-    return `${SESSIONS_PATH}/${id}.jsonl`;
+    return `${this.folder}/${id}.jsonl`;
   }
 
-  private async ensureSessionsDir(): Promise<void> {
-    if (await this.adapter.exists(SESSIONS_PATH)) {
+  private async ensureFolder(folder: string): Promise<void> {
+    if (await this.adapter.exists(folder)) {
       return;
     }
-    await this.adapter.mkdir(SESSIONS_PATH);
+    await this.adapter.mkdir(folder);
+  }
+
+  private parseSession(content: string): CodexianConversation | null {
+    try {
+      return this.parseJSONL(content);
+    } catch (error) {
+      if (error instanceof SessionSchemaError) {
+        this.unsupportedSessions.set(error.sessionId, error.schemaVersion);
+      }
+      throw error;
+    }
   }
 
   private parseJSONL(content: string): CodexianConversation | null {
     const lines = content.split(/\r?\n/).filter((line) => line.trim().length > 0);
     if (lines.length === 0) return null;
 
+    const rawRecords: RawSessionRecord[] = [];
+    for (const line of lines) {
+      try {
+        const parsed: unknown = JSON.parse(line);
+        if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+          rawRecords.push(parsed as RawSessionRecord);
+        }
+      } catch {
+        continue;
+      }
+    }
+
     let meta: SessionMetaRecord | null = null;
-    const messages: ChatMessage[] = [];
+    const messages = new Map<string, ChatMessage>();
     const items: CodexianConversationItem[] = [];
+    const usage: CodexianUsageRecord[] = [];
 
-    for (const line of lines) {
+    for (const raw of migrateSessionRecords(rawRecords)) {
       try {
-        const record = JSON.parse(line) as SessionRecord | { type?: unknown };
+        const record = raw as SessionRecord | { type?: unknown };
         if (record.type === 'meta') {
           meta = record as SessionMetaRecord;
         } else if (record.type === 'message') {
-          messages.push((record as SessionMessageRecord).message);
+          const { message } = record as SessionMessageRecord;
+          messages.set(message.id, message);
         } else if (record.type === 'item') {
           const itemRecord = record as SessionItemRecord;
           items.push({
@@ -98,6 +637,18 @@ export class SessionStorage {
             timestamp: itemRecord.timestamp,
             item: itemRecord.item,
           });
+        } else if (record.type === 'usage') {
+          const usageRecord = record as SessionUsageRecord;
+          usage.push({
+            turnId: usageRecord.turnId,
+            model: usageRecord.model,
+            timestamp: usageRecord.timestamp,
+            inputTokens: usageRecord.inputTokens ?? 0,
+            cachedInputTokens: usageRecord.cachedInputTokens ?? 0,
+            outputTokens: usageRecord.outputTokens ?? 0,
+            reasoningOutputTokens: usageRecord.reasoningOutputTokens ?? 0,
+            totalTokens: usageRecord.totalTokens ?? 0,
+          });
         }
       } catch {
         continue;
@@ -116,14 +667,17 @@ export class SessionStorage {
       createdAt: meta.createdAt,
       updatedAt: meta.updatedAt,
       lastResponseAt: meta.lastResponseAt,
-      messages,
+      messages: [...messages.values()],
       items: items.length > 0 ? items : undefined,
+      usage: usage.length > 0 ? usage : undefined,
+      importedFrom: meta.importedFrom,
     };
   }
 
-  private serializeToJSONL(conversation: CodexianConversation): string {
+  private serialize(conversation: CodexianConversation): SerializedSession {
     const meta: SessionMetaRecord = {
       type: 'meta',
+      schemaVersion: SESSION_SCHEMA_VERSION,
       id: conversation.id,
       title: conversation.title,
       model: conversation.model,
@@ -133,13 +687,15 @@ export class SessionStorage {
       updatedAt: conversation.updatedAt,
       lastResponseAt: conversation.lastResponseAt,
       threadId: conversation.threadId,
+      importedFrom: conversation.importedFrom,
     };
 
-    const lines: string[] = [JSON.stringify(meta)];
+    const messages = new Map<string, string>();
     for (const message of conversation.messages) {
       const record: SessionMessageRecord = { type: 'message', message };
-      lines.push(JSON.stringify(record));
+      messages.set(message.id, JSON.stringify(record));
     }
+    const items: string[] = [];
     for (const item of conversation.items ?? []) {
       const record: SessionItemRecord = {
         type: 'item',
@@ -150,8 +706,12 @@ export class SessionStorage {
         timestamp: item.timestamp,
         item: item.item,
       };
-      lines.push(JSON.stringify(record));
+      items.push(JSON.stringify(record));
     }
-    return `${lines.join('\n')}\n`;
+    const usage = (conversation.usage ?? []).map((entry) => {
+      const record: SessionUsageRecord = { type: 'usage', ...entry };
+      return JSON.stringify(record);
+    });
+    return { meta: JSON.stringify(meta), messages, items, usage };
   }
 }
@@ -1 +1,2 @@
+export { ApprovalAuditStorage, getApprovalAuditFolder, LEGACY_APPROVAL_AUDIT_PATH } from './ApprovalAuditStorage';
 export { SessionStorage } from './SessionStorage';
@@ -6,6 +6,13 @@ export interface CodexianSettings {
   approvalRules: ApprovalRule[];
   commandBlocklist: string[];
   pathBlocklist: string[];
+  mcpServerApprovals: Record<string, McpApprovalDefault>;
+  requestTimeouts: Record<string, number>;
+  modelPricing: Record<string, ModelPricing>;
+  pauseQueueOnFailure: boolean;
+  customModes: CustomMode[];
+  sessionsFolder: string;
+  sessionRetention: SessionRetentionPolicy;
   lastModel?: string;
   lastReasoningEffort?: string;
   lastMode?: CodexianMode;
@@ -37,6 +44,57 @@ export interface CodexianConversation {
   lastResponseAt?: number;
   messages: ChatMessage[];
   items?: CodexianConversationItem[];
+  usage?: CodexianUsageRecord[];
+  importedFrom?: CodexianImportSource;
+}
+
+/** Limits of zero are off. Expired sessions move to the archive folder unless `archive` is false. */
+export interface SessionRetentionPolicy {
+  maxAgeDays: number;
+  maxCount: number;
+  archive: boolean;
+  archiveThreads: boolean;
+}
+
+/** Summary of a saved session kept in the sessions index so listings avoid parsing every file. */
+export interface SessionIndexEntry {
+  id: string;
+  title: string;
+  threadId?: string;
+  model?: string;
+  mode?: CodexianMode;
+  createdAt: number;
+  updatedAt: number;
+  lastResponseAt?: number;
+  messageCount: number;
+  firstUserPrompt?: string;
+}
+
+export type CodexianImportFormat = 'markdown' | 'rollout';
+
+export interface CodexianImportSource {
+  format: CodexianImportFormat;
+  fileName: string;
+  importedAt: number;
+  messageCount: number;
+  sourceThreadId?: string;
+}
+
+export interface CodexianUsageRecord {
+  turnId?: string;
+  model?: string;
+  timestamp: number;
+  inputTokens: number;
+  cachedInputTokens: number;
+  outputTokens: number;
+  reasoningOutputTokens: number;
+  totalTokens: number;
+}
+
+export interface ModelPricing {
+  inputPerMillion: number;
+  cachedInputPerMillion: number;
+  outputPerMillion: number;
 }
 
 export interface CodexianConversationItem {
@@ -48,7 +106,13 @@ export interface CodexianConversationItem {
   item: unknown;
 }
 
-export type CodexianMode = 'agent' | 'chat' | 'agent-full';
+/** Item type of the unified diff recorded when a turn completes. */
+export const TURN_DIFF_ITEM_TYPE = 'turnDiff';
+
+export type BuiltInCodexianMode = 'agent' | 'chat' | 'agent-full';
+
+/** A built-in mode or the id of a custom mode defined in settings. */
+export type CodexianMode = BuiltInCodexianMode | (string & {});
 
 export type ApprovalPolicy = 'on-request' | 'never';
 
@@ -56,6 +120,20 @@ export type SandboxPolicyType = 'readOnly' | 'workspaceWrite' | 'dangerFullAcces
 
 export interface SandboxPolicy {
   type: SandboxPolicyType;
+  writableRoots?: string[];
+  networkAccess?: boolean;
+}
+
+export interface CustomMode {
+  id: string;
+  name: string;
+  approvalPolicy: ApprovalPolicy;
+  sandbox: SandboxPolicyType;
+  writableRoots: string[];
+  networkAccess: boolean;
+  model?: string;
+  reasoningEffort?: string;
+  promptPrefix?: string;
 }
 
 export interface EnvSnippet {
@@ -69,11 +147,44 @@ export type ApprovalMode = 'safe' | 'yolo' | 'prompt';
 
 export type ApprovalDecision = 'accept' | 'decline';
 
-export type ApprovalRuleKind = 'command' | 'path';
+export type ApprovalRuleKind = 'command' | 'path' | 'tool';
+
+/** Fallback for MCP tool calls that no `tool` rule matches, keyed by server name. */
+export type McpApprovalDefault = 'allow' | 'deny' | 'prompt';
+
+export type PatternMatcherType = 'exact' | 'prefix' | 'glob' | 'regex';
 
 export interface ApprovalRule {
   kind: ApprovalRuleKind;
   pattern: string;
+  matcher?: PatternMatcherType;
+}
+
+export type ApprovalGrantScope = 'turn' | 'thread';
+
+export type ApprovalAuditOutcome =
+  | 'auto-accept'
+  | 'auto-decline'
+  | 'user-accept'
+  | 'user-decline'
+  | 'always-rule'
+  | 'turn-grant'
+  | 'thread-grant';
+
+export interface ApprovalAuditRecord {
+  id: string;
+  timestamp: number;
+  outcome: ApprovalAuditOutcome;
+  kind: 'commandExecution' | 'fileChange' | 'mcpToolCall';
+  mode: ApprovalMode;
+  threadId?: string;
+  turnId?: string;
+  command?: string;
+  tool?: string;
+  paths: string[];
+  matchedRules?: ApprovalRule[];
+  blockedBy?: string;
+  createdRule?: ApprovalRule;
 }
 
 export interface AppServerTextContent {
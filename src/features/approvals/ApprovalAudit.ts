@@ -0,0 +1,59 @@
+import { formatPatternSpec, parsePatternSpec } from '../../core/security/PatternMatcher';
+import type { ApprovalAuditOutcome, ApprovalAuditRecord, ApprovalRule } from '../../core/types';
+
+export interface ApprovalAuditFilter {
+  outcome?: ApprovalAuditOutcome;
+  kind?: ApprovalAuditRecord['kind'];
+  query?: string;
+}
+
+export const AUDIT_OUTCOME_LABELS: Record<ApprovalAuditOutcome, string> = {
+  'auto-accept': 'Auto-accepted',
+  'auto-decline': 'Auto-declined',
+  'user-accept': 'Accepted',
+  'user-decline': 'Declined',
+  'always-rule': 'Always allowed',
+  'turn-grant': 'Allowed for turn',
+  'thread-grant': 'Allowed for thread',
+};
+
+export const describeAuditTarget = (record: ApprovalAuditRecord): string =>
+  record.command ?? record.tool ?? (record.paths.length > 0 ? record.paths.join(', ') : '(no target)');
+
+export const formatApprovalRule = (rule: ApprovalRule): string =>
+  `${rule.kind}: ${formatPatternSpec(parsePatternSpec(rule.pattern, rule.kind, rule.matcher), rule.kind)}`;
+
+export const isSameApprovalRule = (left: ApprovalRule, right: ApprovalRule): boolean =>
+  left.kind === right.kind && left.pattern === right.pattern && left.matcher === right.matcher;
+
+export function getAuditRecordRules(record: ApprovalAuditRecord): ApprovalRule[] {
+  const rules: ApprovalRule[] = [];
+  for (const rule of [...(record.createdRule ? [record.createdRule] : []), ...(record.matchedRules ?? [])]) {
+    if (!rules.some((entry) => isSameApprovalRule(entry, rule))) {
+      rules.push(rule);
+    }
+  }
+  return rules;
+}
+
+export function filterApprovalAuditRecords(
+  records: ApprovalAuditRecord[],
+  filter: ApprovalAuditFilter = {}
+): ApprovalAuditRecord[] {
+  const query = filter.query?.trim().toLowerCase() ?? '';
+  return records
+    .filter((record) => {
+      if (filter.outcome && record.outcome !== filter.outcome) return false;
+      if (filter.kind && record.kind !== filter.kind) return false;
+      if (!query) return true;
+      const haystack = [
+        describeAuditTarget(record),
+        record.threadId ?? '',
+        record.turnId ?? '',
+        record.blockedBy ?? '',
+        ...getAuditRecordRules(record).map((rule) => rule.pattern),
+      ];
+      return haystack.some((value) => value.toLowerCase().includes(query));
+    })
+    .sort((left, right) => right.timestamp - left.timestamp);
+}
@@ -0,0 +1,165 @@
+import { Modal, Notice } from 'obsidian';
+
+import type CodexianPlugin from '../../main';
+import type { ApprovalAuditOutcome, ApprovalAuditRecord, ApprovalRule } from '../../core/types';
+import {
+  AUDIT_OUTCOME_LABELS,
+  describeAuditTarget,
+  filterApprovalAuditRecords,
+  formatApprovalRule,
+  getAuditRecordRules,
+  isSameApprovalRule,
+} from './ApprovalAudit';
+
+const OUTCOME_OPTIONS: Array<{ value: ApprovalAuditOutcome | ''; label: string }> = [
+  { value: '', label: 'All decisions' },
+  ...(Object.keys(AUDIT_OUTCOME_LABELS) as ApprovalAuditOutcome[]).map((value) => ({
+    value,
+    label: AUDIT_OUTCOME_LABELS[value],
+  })),
+];
+
+const KIND_OPTIONS: Array<{ value: ApprovalAuditRecord['kind'] | ''; label: string }> = [
+  { value: '', label: 'All requests' },
+  { value: 'commandExecution', label: 'Commands' },
+  { value: 'fileChange', label: 'File changes' },
+  { value: 'mcpToolCall', label: 'Mcp tools' },
+];
+
+const MAX_VISIBLE_RECORDS = 200;
+
+export class ApprovalAuditModal extends Modal {
+  private plugin: CodexianPlugin;
+  private records: ApprovalAuditRecord[] = [];
+  private outcome: ApprovalAuditOutcome | '' = '';
+  private kind: ApprovalAuditRecord['kind'] | '' = '';
+  private query = '';
+  private listEl: HTMLElement | null = null;
+  private summaryEl: HTMLElement | null = null;
+
+  constructor(plugin: CodexianPlugin) {
+    super(plugin.app);
+    this.plugin = plugin;
+  }
+
+  onOpen(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.createEl('h3', { text: 'Approval audit log' });
+
+    const filterRow = contentEl.createDiv({ cls: 'codexian-diagnostics-filters' });
+    const outcomeSelect = filterRow.createEl('select', { cls: 'dropdown' });
+    for (const option of OUTCOME_OPTIONS) {
+      outcomeSelect.createEl('option', { text: option.label, attr: { value: option.value } });
+    }
+    const kindSelect = filterRow.createEl('select', { cls: 'dropdown' });
+    for (const option of KIND_OPTIONS) {
+      kindSelect.createEl('option', { text: option.label, attr: { value: option.value } });
+    }
+    const queryInput = filterRow.createEl('input', {
+      cls: 'codexian-session-search-input',
+      attr: { type: 'text', placeholder: 'Filter by command, path, thread or rule...' },
+    });
+
+    this.summaryEl = contentEl.createDiv({ cls: 'codexian-session-meta', text: 'Loading audit log...' });
+    this.listEl = contentEl.createDiv({ cls: 'codexian-audit-list' });
+
+    outcomeSelect.addEventListener('change', () => {
+      this.outcome = outcomeSelect.value as ApprovalAuditOutcome | '';
+      this.render();
+    });
+    kindSelect.addEventListener('change', () => {
+      this.kind = kindSelect.value as ApprovalAuditRecord['kind'] | '';
+      this.render();
+    });
+    queryInput.addEventListener('input', () => {
+      this.query = queryInput.value;
+      this.render();
+    });
+
+    void this.plugin.loadApprovalAudit().then((records) => {
+      this.records = records;
+      this.render();
+    });
+  }
+
+  onClose(): void {
+    this.listEl = null;
+    this.summaryEl = null;
+    this.contentEl.empty();
+  }
+
+  private render(): void {
+    if (!this.listEl || !this.summaryEl) return;
+    const records = filterApprovalAuditRecords(this.records, {
+      outcome: this.outcome || undefined,
+      kind: this.kind || undefined,
+      query: this.query,
+    });
+    const visible = records.slice(0, MAX_VISIBLE_RECORDS);
+    this.summaryEl.setText(
+      records.length > visible.length
+        ? `Showing ${visible.length} of ${records.length} decisions`
+        : `${records.length} decisions`
+    );
+
+    this.listEl.empty();
+    if (records.length === 0) {
+      this.listEl.createDiv({ cls: 'codexian-session-meta', text: 'No approval decisions recorded.' });
+      return;
+    }
+    for (const record of visible) {
+      this.renderRecord(this.listEl, record);
+    }
+  }
+
+  private renderRecord(parent: HTMLElement, record: ApprovalAuditRecord): void {
+    const row = parent.createDiv({ cls: `codexian-audit-row codexian-audit-${record.outcome}` });
+    const header = row.createDiv({ cls: 'codexian-audit-header' });
+    header.createSpan({ cls: 'codexian-audit-outcome', text: AUDIT_OUTCOME_LABELS[record.outcome] });
+    header.createSpan({ cls: 'codexian-audit-target', text: describeAuditTarget(record) });
+
+    const meta = [
+      new Date(record.timestamp).toLocaleString(),
+      `mode ${record.mode}`,
+      record.threadId ? `thread ${record.threadId}` : '',
+      record.turnId ? `turn ${record.turnId}` : '',
+      record.blockedBy ? `blocked by ${record.blockedBy}` : '',
+    ].filter(Boolean);
+    row.createDiv({ cls: 'codexian-session-meta', text: meta.join(' · ') });
+
+    for (const rule of getAuditRecordRules(record)) {
+      const ruleRow = row.createDiv({ cls: 'codexian-audit-rule' });
+      ruleRow.createEl('code', { text: formatApprovalRule(rule) });
+      const status = this.getRuleStatus(rule);
+      if (status === 'inactive') {
+        ruleRow.createSpan({ cls: 'codexian-session-meta', text: 'No longer active' });
+        continue;
+      }
+      if (status === 'temporary') {
+        ruleRow.createSpan({ cls: 'codexian-session-meta', text: 'Temporary grant' });
+      }
+      const revokeButton = ruleRow.createEl('button', { text: 'Revoke rule' });
+      revokeButton.addEventListener('click', () => {
+        void this.revokeRule(rule);
+      });
+    }
+  }
+
+  private getRuleStatus(rule: ApprovalRule): 'saved' | 'temporary' | 'inactive' {
+    if (this.plugin.settings.approvalRules.some((entry) => isSameApprovalRule(entry, rule))) return 'saved';
+    const granted = this.plugin.runtime.approvalGrants.list().some((grant) => isSameApprovalRule(grant.rule, rule));
+    return granted ? 'temporary' : 'inactive';
+  }
+
+  private async revokeRule(rule: ApprovalRule): Promise<void> {
+    try {
+      await this.plugin.revokeApprovalRule(rule);
+      new Notice(`Revoked ${formatApprovalRule(rule)}.`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error.';
+      new Notice(`Failed to revoke rule: ${message}`);
+    }
+    this.render();
+  }
+}
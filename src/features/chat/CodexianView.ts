@@ -12,26 +12,46 @@ import type {
   AppServerSkill,
   ApprovalRequest,
   ApprovalRequestDecision,
+  RateLimitSnapshot,
+  RuntimeConnectionEvent,
+  RuntimeNotice,
+  TokenUsageUpdate,
+  UserInputAnswers,
+  UserInputQuestion,
+  UserInputRequest,
 } from '../../core/runtime';
+import { AppServerCancelledError, AppServerTimeoutError } from '../../core/runtime';
+import { formatToolIdentifier } from '../../core/security/ApprovalManager';
+import type { SessionSearchDocument } from '../../core/storage/SessionSearchIndex';
+import type { SessionSearchResult } from '../../core/storage/SessionStorage';
+import { restrictModePolicies, type EffectivePolicy } from '../../core/security/FolderPolicy';
 import type {
-  ApprovalDecision,
+  ApprovalGrantScope,
   ApprovalRule,
   AppServerThread,
   ApprovalPolicy,
   AppServerItem,
   ChatMessage,
   CodexianConversation,
+  CodexianConversationItem,
   CodexianMode,
   SandboxPolicy,
+  SessionIndexEntry,
 } from '../../core/types';
+import { TURN_DIFF_ITEM_TYPE } from '../../core/types';
 import { normalizeModelSelection } from '../../utils/env';
+import { formatCost, formatTokenCount, sumUsage } from '../usage/UsageSummary';
+import { buildImportedSessionContext } from '../export/ConversationImporter';
 import { MessageRenderer } from './rendering/MessageRenderer';
 import { ItemCardRenderer } from './rendering/ItemCardRenderer';
+import { renderFileChangePreview } from './rendering/DiffRenderer';
 import { createIconButton } from '../../shared/components/iconButton';
 import { setIcon } from '../../shared/icons';
 import { ConversationController } from './controllers/ConversationController';
 import { DEFAULT_CHAT_STATE, type ChatState } from './state/ChatState';
+import { TurnQueue } from './state/TurnQueue';
 import { buildPromptWithContext } from './context/PromptContext';
+import { buildModePrompt, findModeOption, getModeOptions, type ModeOption } from './context/ChatModes';
 import { buildPlanModePrompt } from './context/PlanModePrompt';
 import { buildPromptWithReviewComments, type ReviewPromptComment } from './context/ReviewCommentsPrompt';
 import {
@@ -45,32 +65,6 @@ import { applyMention, extractMentionedPaths, getMentionState } from '../../shar
 
 export const VIEW_TYPE_CODEXIAN = 'codexian-view';
 
-const MODE_OPTIONS: Array<{
-  value: CodexianMode;
-  label: string;
-  approvalPolicy: ApprovalPolicy;
-  sandboxPolicy: SandboxPolicy;
-}> = [
-  {
-    value: 'agent',
-    label: 'Agent',
-    approvalPolicy: 'on-request',
-    sandboxPolicy: { type: 'workspaceWrite' },
-  },
-  {
-    value: 'chat',
-    label: 'Chat',
-    approvalPolicy: 'on-request',
-    sandboxPolicy: { type: 'readOnly' },
-  },
-  {
-    value: 'agent-full',
-    label: 'Agent (Full Access)',
-    approvalPolicy: 'never',
-    sandboxPolicy: { type: 'dangerFullAccess' },
-  },
-];
-
 const PROMPT_CONTEXT_LIMITS = {
   maxActiveFileChars: 6000,
   maxSelectionChars: 2000,
@@ -102,16 +96,31 @@ interface ReviewPaneDiff {
   text: string;
 }
 
+type SessionSelectHandler = (threadId: string, focus?: SessionSearchDocument) => void;
+
 class SessionManagerModal extends Modal {
   private plugin: CodexianPlugin;
-  private onSelect: (threadId: string) => void;
+  private onSelect: SessionSelectHandler;
+  private onOpenSaved: SessionSelectHandler;
+  private onImport: () => void;
   private threads: AppServerThread[] = [];
+  private sessionIndex = new Map<string, SessionIndexEntry>();
+  private savedSessions: SessionIndexEntry[] = [];
   private searchValue = '';
-
-  constructor(plugin: CodexianPlugin, onSelect: (threadId: string) => void) {
+  private searchRequest = 0;
+  private abortController: AbortController | null = null;
+
+  constructor(
+    plugin: CodexianPlugin,
+    onSelect: SessionSelectHandler,
+    onOpenSaved: SessionSelectHandler,
+    onImport: () => void
+  ) {
     super(plugin.app);
     this.plugin = plugin;
     this.onSelect = onSelect;
+    this.onOpenSaved = onOpenSaved;
+    this.onImport = onImport;
   }
 
   onOpen(): void {
@@ -123,10 +132,17 @@ class SessionManagerModal extends Modal {
       attr: { type: 'text', placeholder: 'Search sessions...' },
       cls: 'codexian-session-search-input',
     });
+    const importButton = searchRow.createEl('button', { text: 'Import from file' });
+    importButton.addEventListener('click', () => {
+      this.onImport();
+      this.close();
+    });
     const listEl = contentEl.createDiv({ cls: 'codexian-session-list' });
+    const matchesEl = contentEl.createDiv({ cls: 'codexian-session-list' });
 
-    const renderList = async (): Promise<void> => {
+    const renderList = (): void => {
       listEl.empty();
+      matchesEl.empty();
       const vaultPath = this.normalizePath(this.plugin.getVaultPathForFilter());
       const filtered = this.threads.filter((thread) => {
         if (!vaultPath) return true;
@@ -136,23 +152,27 @@ class SessionManagerModal extends Modal {
         return threadPath.includes(vaultPath);
       });
 
-      const entries = await Promise.all(
-        filtered.map(async (thread) => {
-          const local = await this.plugin.getLocalConversation(thread.id);
-          const title = this.buildThreadTitle(thread, local);
-          return { thread, title };
-        })
-      );
+      const entries = filtered.map((thread) => ({
+        thread,
+        title: this.buildThreadTitle(thread, this.sessionIndex.get(thread.id)),
+      }));
 
       const query = this.searchValue.trim().toLowerCase();
+      if (query) {
+        void this.renderMatches(matchesEl, query);
+      }
       const visible = query
         ? entries.filter((entry) => {
             const title = entry.title.toLowerCase();
             return title.includes(query) || entry.thread.id.toLowerCase().includes(query);
           })
         : entries;
+      // Imported sessions have no thread until their first send, so they only exist in the session index.
+      const saved = this.savedSessions
+        .map((entry) => ({ entry, title: this.buildSessionTitle(entry) }))
+        .filter(({ entry, title }) => !query || title.toLowerCase().includes(query) || entry.id.toLowerCase().includes(query));
 
-      if (visible.length === 0) {
+      if (visible.length === 0 && saved.length === 0) {
         listEl.createDiv({ text: 'No sessions found.' });
         return;
       }
@@ -189,31 +209,128 @@ class SessionManagerModal extends Modal {
           })();
         });
       }
+
+      for (const { entry, title } of saved) {
+        const row = listEl.createDiv({ cls: 'codexian-session-row' });
+        row.createDiv({ cls: 'codexian-session-title', text: title });
+        row.createDiv({
+          cls: 'codexian-session-meta',
+          text: `Not started · ${new Date(entry.updatedAt).toLocaleString()}`,
+        });
+        const actions = row.createDiv({ cls: 'codexian-session-actions' });
+        const openBtn = actions.createEl('button', { text: 'Open' });
+        openBtn.addEventListener('click', () => {
+          this.onOpenSaved(entry.id);
+          this.close();
+        });
+      }
     };
 
     const loadThreads = async (): Promise<void> => {
-      this.threads = await this.plugin.runtime.listThreads(false);
-      await renderList();
+      this.abortController?.abort();
+      const controller = new AbortController();
+      this.abortController = controller;
+      listEl.empty();
+      listEl.createDiv({ text: 'Loading sessions...' });
+      try {
+        const [threads, sessionIndex] = await Promise.all([
+          this.plugin.runtime.listThreads(false, { signal: controller.signal }),
+          this.plugin.listSessionIndex(),
+        ]);
+        this.threads = threads;
+        this.sessionIndex = new Map(sessionIndex.map((entry) => [entry.threadId ?? entry.id, entry]));
+        this.savedSessions = sessionIndex
+          .filter((entry) => !entry.threadId)
+          .sort((left, right) => right.updatedAt - left.updatedAt);
+      } catch (error) {
+        if (error instanceof AppServerCancelledError) return;
+        listEl.empty();
+        const message =
+          error instanceof AppServerTimeoutError
+            ? 'Timed out loading sessions. The app server did not respond.'
+            : `Failed to load sessions: ${error instanceof Error ? error.message : 'Unknown error.'}`;
+        listEl.createDiv({ cls: 'codexian-session-meta', text: message });
+        const retryBtn = listEl.createEl('button', { text: 'Retry' });
+        retryBtn.addEventListener('click', () => {
+          void loadThreads();
+        });
+        return;
+      }
+      renderList();
     };
 
     searchInput.addEventListener('input', () => {
       this.searchValue = searchInput.value;
-      void renderList();
+      renderList();
     });
 
     void loadThreads();
   }
 
+  onClose(): void {
+    this.abortController?.abort();
+    this.abortController = null;
+    this.searchRequest += 1;
+    this.contentEl.empty();
+  }
+
+  // Matches come from the local session index, so sessions beyond the thread list page are found too.
+  private async renderMatches(matchesEl: HTMLElement, query: string): Promise<void> {
+    const request = ++this.searchRequest;
+    const results = await this.plugin.searchSessions(query);
+    if (request !== this.searchRequest || results.length === 0) return;
+
+    matchesEl.createEl('h4', { text: 'Message matches' });
+    for (const result of results) {
+      const { threadId } = result.session;
+      const row = matchesEl.createDiv({ cls: 'codexian-session-row codexian-session-match' });
+      const body = row.createDiv({ cls: 'codexian-session-match-body' });
+      body.createDiv({
+        cls: 'codexian-session-title',
+        text: result.session.firstUserPrompt ? this.truncateTitle(result.session.firstUserPrompt) : result.session.title,
+      });
+      this.renderSnippet(body.createDiv({ cls: 'codexian-session-snippet' }), result);
+      const actions = row.createDiv({ cls: 'codexian-session-actions' });
+      const openBtn = actions.createEl('button', { text: 'Open' });
+      openBtn.addEventListener('click', () => {
+        if (threadId) {
+          this.onSelect(threadId, result.document);
+        } else {
+          this.onOpenSaved(result.session.id, result.document);
+        }
+        this.close();
+      });
+    }
+  }
+
+  private renderSnippet(snippetEl: HTMLElement, result: SessionSearchResult): void {
+    const { text, highlights } = result.snippet;
+    if (result.document.kind === 'item') {
+      snippetEl.createSpan({ cls: 'codexian-session-meta', text: `${result.document.itemType ?? 'item'}: ` });
+    }
+    let offset = 0;
+    for (const [start, end] of highlights) {
+      snippetEl.appendText(text.slice(offset, start));
+      snippetEl.createEl('mark', { text: text.slice(start, end) });
+      offset = end;
+    }
+    snippetEl.appendText(text.slice(offset));
+  }
+
   private normalizePath(value: string): string {
     if (!value) return '';
     const normalized = path.normalize(value);
     return normalized.replace(/\\/g, '/').replace(/\/+$/, '');
   }
 
-  private buildThreadTitle(thread: AppServerThread, local: CodexianConversation | null): string {
+  private buildSessionTitle(entry: SessionIndexEntry): string {
+    if (entry.firstUserPrompt) return this.truncateTitle(entry.firstUserPrompt);
+    return entry.title || entry.id;
+  }
+
+  private buildThreadTitle(thread: AppServerThread, local: SessionIndexEntry | undefined): string {
     const fallback = (thread.preview || thread.id || '').toString();
-    const candidate = local?.messages.find((message) => message.role === 'user')?.content ?? '';
-    const cleaned = candidate.replace(/\s+/g, ' ').trim();
+    const cleaned = local?.firstUserPrompt ?? '';
     if (cleaned) {
       return this.truncateTitle(cleaned);
     }
@@ -232,6 +349,7 @@ class SessionManagerModal extends Modal {
 
 class McpStatusModal extends Modal {
   private plugin: CodexianPlugin;
+  private abortController = new AbortController();
 
   constructor(plugin: CodexianPlugin) {
     super(plugin.app);
@@ -248,9 +366,14 @@ class McpStatusModal extends Modal {
     void (async () => {
       let servers: AppServerMcpServerStatus[] = [];
       try {
-        servers = await this.plugin.runtime.listMcpServerStatus();
-      } catch {
-        loadingEl.setText('Failed to load mcp server status.');
+        servers = await this.plugin.runtime.listMcpServerStatus({ signal: this.abortController.signal });
+      } catch (error) {
+        if (error instanceof AppServerCancelledError) return;
+        loadingEl.setText(
+          error instanceof AppServerTimeoutError
+            ? 'Timed out loading mcp server status.'
+            : 'Failed to load mcp server status.'
+        );
         return;
       }
 
@@ -264,6 +387,11 @@ class McpStatusModal extends Modal {
     })();
   }
 
+  onClose(): void {
+    this.abortController.abort();
+    this.contentEl.empty();
+  }
+
   private renderServerRow(parent: HTMLElement, server: AppServerMcpServerStatus, index: number): void {
     const rowEl = parent.createDiv({ cls: 'codexian-session-row' });
     const serverName =
@@ -478,6 +606,9 @@ export class CodexianView extends ItemView {
   private conversation: CodexianConversation | null = null;
   private statusEl: HTMLElement | null = null;
   private statusLineEl: HTMLElement | null = null;
+  private usageEl: HTMLElement | null = null;
+  private latestTokenUsage: TokenUsageUpdate | null = null;
+  private latestRateLimits: RateLimitSnapshot | null = null;
   private messagesEl: HTMLElement | null = null;
   private inputEl: HTMLTextAreaElement | null = null;
   private sendButtonEl: HTMLButtonElement | null = null;
@@ -496,6 +627,9 @@ export class CodexianView extends ItemView {
   private mentionDropdownEl: HTMLDivElement | null = null;
   private slashDropdownEl: HTMLDivElement | null = null;
   private attachmentListEl: HTMLDivElement | null = null;
+  private queueListEl: HTMLDivElement | null = null;
+  private turnQueue = new TurnQueue();
+  private unsubscribeTurnQueue: (() => void) | null = null;
   private reviewDiffEl: HTMLPreElement | null = null;
   private reviewScopeInputEl: HTMLInputElement | null = null;
   private reviewCommentInputEl: HTMLTextAreaElement | null = null;
@@ -513,6 +647,12 @@ export class CodexianView extends ItemView {
     resolve: (decision: ApprovalRequestDecision) => void;
     cardEl: HTMLElement;
   }>();
+  private pendingUserInputs = new Set<{
+    resolve: (answers: UserInputAnswers | null) => void;
+    cardEl: HTMLElement;
+  }>();
+  private unsubscribeConnectionState: (() => void) | null = null;
+  private unbindThread: (() => void) | null = null;
   private selectedSkillsByConversation = new Map<string, AppServerSkill | null>();
   private selectedCollaborationModesByConversation = new Map<string, string | null>();
 
@@ -544,6 +684,13 @@ export class CodexianView extends ItemView {
     const header = root.createDiv({ cls: 'codexian-header' });
     const headerLeft = header.createDiv({ cls: 'codexian-brand' });
     headerLeft.createDiv({ cls: 'codexian-title', text: 'Codexian' });
+    this.statusLineEl = headerLeft.createDiv({ cls: 'codexian-status-line' });
+    this.statusEl = this.statusLineEl.createDiv({ cls: 'codexian-status', text: 'Idle' });
+    this.usageEl = this.statusLineEl.createDiv({ cls: 'codexian-status-usage' });
+    this.usageEl.setAttr('aria-label', 'Show usage summary');
+    this.usageEl.addEventListener('click', () => {
+      this.plugin.openUsageSummary();
+    });
     const headerActions = header.createDiv({ cls: 'codexian-actions' });
 
     this.messagesEl = root.createDiv({ cls: 'codexian-transcript' });
@@ -614,6 +761,11 @@ export class CodexianView extends ItemView {
     this.slashDropdownEl = inputRow.createDiv({ cls: 'codexian-mention-dropdown codexian-slash-dropdown' });
     this.slashDropdownEl.hide();
     this.attachmentListEl = inputContainer.createDiv({ cls: 'codexian-attachment-list' });
+    this.queueListEl = inputContainer.createDiv({ cls: 'codexian-queue-list' });
+    this.unsubscribeTurnQueue = this.turnQueue.onChange(() => {
+      this.renderTurnQueue();
+    });
+    this.renderTurnQueue();
 
     const bottomToolbar = inputContainer.createDiv({ cls: 'codexian-input-toolbar codexian-input-toolbar-bottom' });
     const toolbarBottomLeft = bottomToolbar.createDiv({ cls: 'codexian-toolbar-left' });
@@ -627,15 +779,28 @@ export class CodexianView extends ItemView {
       ariaLabel: 'MCP status',
       className: 'codexian-action-btn codexian-icon-btn',
     });
+    const diagnosticsButton = createIconButton(headerActions, 'activity', {
+      ariaLabel: 'Codex diagnostics',
+      className: 'codexian-action-btn codexian-icon-btn',
+    });
     const newButton = createIconButton(headerActions, 'square-pen', {
       ariaLabel: 'New session',
       className: 'codexian-action-btn codexian-icon-btn',
     });
 
     sessionsButton.addEventListener('click', () => {
-      const modal = new SessionManagerModal(this.plugin, (threadId) => {
-        void this.loadThreadConversation(threadId);
-      });
+      const modal = new SessionManagerModal(
+        this.plugin,
+        (threadId, focus) => {
+          void this.loadThreadConversation(threadId, focus);
+        },
+        (sessionId, focus) => {
+          void this.loadSavedConversation(sessionId, focus);
+        },
+        () => {
+          void this.importConversationFromFile();
+        }
+      );
       modal.open();
     });
 
@@ -644,6 +809,10 @@ export class CodexianView extends ItemView {
       modal.open();
     });
 
+    diagnosticsButton.addEventListener('click', () => {
+      this.plugin.openDiagnostics();
+    });
+
     newButton.addEventListener('click', () => {
       void this.createNewConversation();
     });
@@ -787,7 +956,12 @@ export class CodexianView extends ItemView {
 
     root.createDiv({ cls: 'codexian-input-hint', text: '' });
 
-    this.plugin.runtime.setApprovalRequestHandler((request) => this.showApprovalCard(request));
+    this.containerEl.addEventListener('focusin', () => {
+      this.plugin.setLastActiveView(this);
+    });
+    this.unsubscribeConnectionState = this.plugin.runtime.onConnectionStateChange((event) => {
+      this.handleConnectionStateChange(event);
+    });
 
     await this.runWithStatus('Load conversation', async () => {
       await this.loadConversation();
@@ -799,6 +973,38 @@ export class CodexianView extends ItemView {
     this.updateSendState();
   }
 
+  public getThreadId(): string | null {
+    return this.conversation?.threadId ?? null;
+  }
+
+  public getCurrentConversation(): CodexianConversation | null {
+    return this.conversation;
+  }
+
+  public async importConversationFromFile(): Promise<void> {
+    const file = await this.pickImportFile();
+    if (!file) return;
+    await this.runWithStatus('Import session', async () => {
+      const content = await file.text();
+      this.setConversation(await this.plugin.importConversationFile(file.name, content));
+      await this.applySelectionDefaults(this.conversation!);
+      this.renderMessages();
+      this.syncSelections();
+      new Notice(`Imported ${this.conversation!.messages.length} messages from ${file.name}.`);
+    });
+  }
+
+  private pickImportFile(): Promise<File | null> {
+    return new Promise((resolve) => {
+      const input = document.createElement('input');
+      input.type = 'file';
+      input.accept = '.md,.jsonl';
+      input.addEventListener('change', () => resolve(input.files?.[0] ?? null));
+      input.addEventListener('cancel', () => resolve(null));
+      input.click();
+    });
+  }
+
   public async startNewThreadFromCommand(): Promise<void> {
     await this.createNewConversation();
   }
@@ -820,17 +1026,60 @@ export class CodexianView extends ItemView {
   }
 
   async onClose(): Promise<void> {
-    this.plugin.runtime.setApprovalRequestHandler(null);
+    this.unsubscribeConnectionState?.();
+    this.unsubscribeConnectionState = null;
+    this.unsubscribeTurnQueue?.();
+    this.unsubscribeTurnQueue = null;
+    this.turnQueue.clear();
+    this.unbindThread?.();
+    this.unbindThread = null;
+    this.resolvePendingRequests();
+    if (this.conversation) {
+      await this.plugin.closeConversation(this.conversation.id);
+    }
+  }
+
+  private setConversation(conversation: CodexianConversation): void {
+    const previousThreadId = this.conversation?.threadId;
+    const previousId = this.conversation?.id;
+    this.conversation = conversation;
+    if (previousId && previousId !== conversation.id) {
+      void this.plugin.closeConversation(previousId);
+    }
+    if (previousThreadId === conversation.threadId && this.unbindThread) return;
+
+    this.resolvePendingRequests();
+    this.turnQueue.clear();
+    this.bindConversationThread();
+  }
+
+  private bindConversationThread(): void {
+    this.unbindThread?.();
+    this.unbindThread = null;
+    const threadId = this.conversation?.threadId;
+    if (!threadId) return;
+    this.unbindThread = this.plugin.runtime.bindThread(threadId, {
+      onApprovalRequest: (request) => this.showApprovalCard(request),
+      onUserInputRequest: (request) => this.showUserInputCard(request),
+    });
+  }
+
+  private resolvePendingRequests(): void {
     for (const pending of this.pendingApprovals) {
       pending.resolve({ decision: 'decline' });
       pending.cardEl.remove();
     }
     this.pendingApprovals.clear();
+    for (const pending of this.pendingUserInputs) {
+      pending.resolve(null);
+      pending.cardEl.remove();
+    }
+    this.pendingUserInputs.clear();
   }
 
   private async loadConversation(): Promise<void> {
-    this.conversation = await this.conversationController.loadConversation();
-    await this.applySelectionDefaults(this.conversation);
+    this.setConversation(await this.conversationController.loadConversation());
+    await this.applySelectionDefaults(this.conversation!);
     this.renderMessages();
     this.syncSelections();
   }
@@ -859,22 +1108,57 @@ export class CodexianView extends ItemView {
     }
   }
 
-  private async loadThreadConversation(threadId: string): Promise<void> {
+  private async loadThreadConversation(threadId: string, focus?: SessionSearchDocument): Promise<void> {
+    const owner = this.plugin
+      .getOpenCodexianViews()
+      .find((view) => view !== this && view.getThreadId() === threadId);
+    if (owner) {
+      await this.app.workspace.revealLeaf(owner.leaf);
+      owner.focusMessage(focus);
+      return;
+    }
+    await this.runWithStatus('Load session', async () => {
+      this.setStatus('Loading...', 'running');
+      this.setConversation(await this.conversationController.loadThreadConversation(threadId));
+      await this.applySelectionDefaults(this.conversation!);
+      this.renderMessages();
+      this.syncSelections();
+      this.focusMessage(focus);
+      this.setStatus('Idle', 'idle');
+    });
+  }
+
+  private async loadSavedConversation(sessionId: string, focus?: SessionSearchDocument): Promise<void> {
     await this.runWithStatus('Load session', async () => {
       this.setStatus('Loading...', 'running');
-      this.conversation = await this.conversationController.loadThreadConversation(threadId);
-      await this.applySelectionDefaults(this.conversation);
+      this.setConversation(await this.conversationController.loadSavedConversation(sessionId));
+      await this.applySelectionDefaults(this.conversation!);
       this.renderMessages();
       this.syncSelections();
+      this.focusMessage(focus);
       this.setStatus('Idle', 'idle');
     });
   }
 
+  /** Scrolls to a search match. Reloaded threads get new message ids, so fall back to the role ordinal. */
+  public focusMessage(target: SessionSearchDocument | undefined): void {
+    if (!target || !this.conversation || !this.renderer) return;
+    const messages = this.conversation.messages;
+    const message =
+      messages.find((entry) => entry.id === target.messageId) ??
+      messages.filter((entry) => entry.role === target.role)[target.roleIndex ?? -1];
+    const messageEl = message ? this.renderer.getMessageElement(message.id) : undefined;
+    if (!messageEl) return;
+    messageEl.scrollIntoView({ block: 'center' });
+    messageEl.addClass('codexian-message-focused');
+    window.setTimeout(() => messageEl.removeClass('codexian-message-focused'), 2000);
+  }
+
   private async createNewConversation(): Promise<void> {
     await this.runWithStatus('Start session', async () => {
       this.setStatus('Starting...', 'running');
-      this.conversation = await this.conversationController.createNewConversation();
-      await this.applySelectionDefaults(this.conversation);
+      this.setConversation(await this.conversationController.createNewConversation());
+      await this.applySelectionDefaults(this.conversation!);
       this.renderMessages();
       this.syncSelections();
       this.setStatus('Idle', 'idle');
@@ -888,9 +1172,8 @@ export class CodexianView extends ItemView {
     }
     await this.runWithStatus('Rollback', async () => {
       this.setStatus('Rolling back...', 'running');
-      this.conversation = await this.conversationController.rollbackConversation(
-        this.conversation!.threadId!,
-        numTurns
+      this.setConversation(
+        await this.conversationController.rollbackConversation(this.conversation!.threadId!, numTurns)
       );
       this.renderMessages();
       this.setStatus('Idle', 'idle');
@@ -901,6 +1184,8 @@ export class CodexianView extends ItemView {
     if (!this.messagesEl || !this.conversation || !this.renderer) return;
     this.renderer.renderMessages(this.conversation.messages, (message) => this.appendMessage(message));
     this.itemCardRenderer?.reset();
+    this.latestTokenUsage = null;
+    this.renderUsageIndicator();
     this.scrollToBottom();
   }
 
@@ -961,27 +1246,88 @@ export class CodexianView extends ItemView {
     }
   }
 
+  private handleConnectionStateChange(event: RuntimeConnectionEvent): void {
+    if (event.state === 'disconnected') {
+      this.setStatus(event.message ?? 'App Server disconnected.', 'error');
+      return;
+    }
+    if (event.state === 'reconnecting') {
+      this.setStatus(`Reconnecting (attempt ${event.attempt ?? 1})...`, 'running');
+      return;
+    }
+    if (event.state === 'reconnected') {
+      this.setStatus('Reconnected', 'idle');
+      return;
+    }
+    this.setStatus(event.message ?? 'App Server unavailable.', 'error');
+  }
+
+  private handleRuntimeNotice(notice: RuntimeNotice): void {
+    if (notice.severity === 'warning') {
+      this.setStatus(`Warning: ${notice.message}`, 'running');
+      return;
+    }
+    if (notice.willRetry) {
+      this.setStatus(`Retrying: ${notice.message}`, 'running');
+      return;
+    }
+    this.setStatus(`Error: ${notice.message}`, 'error');
+  }
+
+  private renderUsageIndicator(): void {
+    if (!this.usageEl) return;
+    const parts: string[] = [];
+    const usage = this.conversation?.usage ?? [];
+    if (usage.length > 0) {
+      const totals = sumUsage(usage, this.plugin.settings.modelPricing);
+      parts.push(`${formatTokenCount(totals.totalTokens)} tokens`);
+      if (totals.cost !== null) {
+        parts.push(formatCost(totals.cost));
+      }
+    }
+    const contextWindow = this.latestTokenUsage?.modelContextWindow;
+    const lastInput = this.latestTokenUsage?.last?.inputTokens;
+    if (contextWindow && lastInput) {
+      parts.push(`${Math.min(100, Math.round((lastInput / contextWindow) * 100))}% context`);
+    }
+    const primary = this.latestRateLimits?.primary;
+    if (primary) {
+      parts.push(`${Math.round(primary.usedPercent)}% of rate limit`);
+    }
+    this.usageEl.setText(parts.join(' · '));
+  }
+
   private scrollToBottom(): void {
     if (!this.messagesEl) return;
     this.messagesEl.scrollTop = this.messagesEl.scrollHeight;
   }
 
-  private async handleSend(options?: { forcedPrompt?: string; bypassPlanMode?: boolean }): Promise<void> {
+  private async handleSend(options?: {
+    forcedPrompt?: string;
+    queuedPrompt?: string;
+    bypassPlanMode?: boolean;
+  }): Promise<void> {
     if (!this.inputEl || !this.sendButtonEl) return;
-    if (this.state.isRunning) return;
+    if (this.state.isRunning) {
+      if (!options?.forcedPrompt && !options?.queuedPrompt) {
+        this.enqueueInput();
+      }
+      return;
+    }
 
     const forcedPrompt = options?.forcedPrompt;
-    const prompt = (forcedPrompt ?? this.inputEl.value).trim();
+    const queuedPrompt = options?.queuedPrompt;
+    const prompt = (forcedPrompt ?? queuedPrompt ?? this.inputEl.value).trim();
     if (!prompt) return;
     const expandedPrompt = forcedPrompt ? prompt : expandSlashCommandPrompt(prompt, this.getSlashCommands());
     const reviewComments = this.consumeReviewCommentsForSend();
     const promptWithReviewComments = buildPromptWithReviewComments(expandedPrompt, reviewComments);
-    const imageAttachments = [...this.pendingImageAttachments];
+    const imageAttachments = queuedPrompt ? [] : [...this.pendingImageAttachments];
     const imagePaths = imageAttachments.map((attachment) => attachment.path);
     this.hideMentionDropdown();
     this.hideSlashCommandDropdown();
 
-    const packedPromptBase = await this.buildPromptForSend(promptWithReviewComments);
+    const { prompt: packedPromptBase, contextPaths } = await this.buildPromptForSend(promptWithReviewComments);
     const selectedSkill = this.getSelectedSkill();
     const selectedCollaborationMode = this.getSelectedCollaborationMode();
     const promptWithSkill = selectedSkill ? `$${selectedSkill.name} ${packedPromptBase}` : packedPromptBase;
@@ -991,7 +1337,10 @@ export class CodexianView extends ItemView {
     );
 
     const conversation = this.conversation ?? await this.conversationController.loadConversation();
-    this.conversation = conversation;
+    this.setConversation(conversation);
+    const importedContext = conversation.threadId ? null : buildImportedSessionContext(conversation);
+    const modePrompt = buildModePrompt(packedPrompt, this.getModeOption(conversation.mode));
+    const turnPrompt = importedContext ? `${importedContext}\n\n${modePrompt}` : modePrompt;
 
     const userMessage: ChatMessage = {
       id: this.plugin.createMessageId(),
@@ -1017,7 +1366,7 @@ export class CodexianView extends ItemView {
     this.appendMessage(assistantMessage);
     this.scrollToBottom();
 
-    if (!forcedPrompt) {
+    if (!forcedPrompt && !queuedPrompt) {
       this.inputEl.value = '';
       this.pendingImageAttachments = [];
       this.renderAttachmentList();
@@ -1032,9 +1381,11 @@ export class CodexianView extends ItemView {
     try {
       if (!conversation.threadId) {
         const previousSkillKey = this.getConversationSkillKey(conversation);
+        const previousId = conversation.id;
         const thread = await this.plugin.runtime.startThread();
         conversation.threadId = thread.id;
         conversation.id = thread.id;
+        this.bindConversationThread();
         const nextSkillKey = this.getConversationSkillKey(conversation);
         if (previousSkillKey !== nextSkillKey && this.selectedSkillsByConversation.has(previousSkillKey)) {
           const previousSkill = this.selectedSkillsByConversation.get(previousSkillKey) ?? null;
@@ -1050,7 +1401,7 @@ export class CodexianView extends ItemView {
           this.selectedCollaborationModesByConversation.set(nextSkillKey, previousCollaborationMode);
           this.selectedCollaborationModesByConversation.delete(previousSkillKey);
         }
-        await this.plugin.saveConversation(conversation);
+        await this.plugin.renameConversation(previousId, conversation);
       }
       const threadId = conversation.threadId;
       if (!threadId) {
@@ -1059,9 +1410,13 @@ export class CodexianView extends ItemView {
       this.normalizeEffortSelection();
       const model = conversation.model;
       const effort = conversation.reasoningEffort;
-      const { approvalPolicy, sandboxPolicy } = this.getModePolicies(conversation.mode);
+      const folderPolicy = await this.plugin.resolveFolderPolicy(contextPaths);
+      this.plugin.runtime.setThreadPolicy(threadId, folderPolicy);
+      const { approvalPolicy, sandboxPolicy } = this.getModePolicies(conversation.mode, folderPolicy);
       this.itemCardRenderer?.beginTurn();
-      await this.plugin.runtime.startTurn(threadId, packedPrompt, {
+      // The diff is rewritten on every update; it is stored once when the turn completes so saves stay appends.
+      let turnDiff: { turnId: string; text: string } | null = null;
+      await this.plugin.runtime.startTurn(threadId, turnPrompt, {
         onStart: (turnId) => {
           this.state.activeTurnId = turnId || null;
           if (this.state.cancelRequested && this.state.activeTurnId) {
@@ -1088,6 +1443,9 @@ export class CodexianView extends ItemView {
         },
         onItemCompleted: (item) => {
           this.itemCardRenderer?.handleItemCompleted(item);
+          if (item.type !== 'userMessage' && item.type !== 'agentMessage') {
+            this.recordConversationItem(conversation, item.type, 'raw' in item ? item.raw : item, item.id);
+          }
           if (item.type === 'plan') {
             this.renderPlanUpdateCard(this.extractPlanPayloadFromItem(item));
           }
@@ -1099,6 +1457,37 @@ export class CodexianView extends ItemView {
         },
         onDiffUpdated: (diff, turnId) => {
           this.updateReviewDiff(diff, turnId);
+          const diffText = this.extractUnifiedDiffText(diff);
+          if (diffText) {
+            turnDiff = { turnId, text: diffText };
+          }
+        },
+        onReasoningDelta: (reasoning) => {
+          this.itemCardRenderer?.handleReasoningDelta(reasoning);
+          this.scrollToBottom();
+        },
+        onTokenUsage: (usage) => {
+          this.latestTokenUsage = usage;
+          this.renderUsageIndicator();
+        },
+        onRateLimits: (rateLimits) => {
+          this.latestRateLimits = rateLimits;
+          this.renderUsageIndicator();
+        },
+        onThreadNameUpdated: (name) => {
+          conversation.title = name;
+          void this.plugin.saveConversation(conversation);
+        },
+        onNotice: (notice) => {
+          this.handleRuntimeNotice(notice);
+        },
+        onTurnUsage: (usage) => {
+          conversation.usage = [
+            ...(conversation.usage ?? []),
+            { turnId: this.state.activeTurnId ?? undefined, model, timestamp: Date.now(), ...usage },
+          ];
+          this.renderUsageIndicator();
+          void this.plugin.saveConversation(conversation);
         },
         onError: (message) => {
           const cleaned = message.trim();
@@ -1109,7 +1498,10 @@ export class CodexianView extends ItemView {
           this.updateMessage(assistantMessage);
           this.setStatus(`Error: ${cleaned}`, 'error');
         },
-        onComplete: () => {
+        onComplete: (status) => {
+          if (turnDiff) {
+            this.recordConversationItem(conversation, TURN_DIFF_ITEM_TYPE, turnDiff.text, `diff-${turnDiff.turnId}`);
+          }
           this.state.isRunning = false;
           this.state.activeTurnId = null;
           this.state.cancelRequested = false;
@@ -1123,6 +1515,7 @@ export class CodexianView extends ItemView {
           this.updateSendState();
           void this.cleanupTempAttachmentFiles(imageAttachments);
           void this.plugin.saveConversation(conversation);
+          this.advanceTurnQueue(status);
         },
       }, model, effort, approvalPolicy, sandboxPolicy, imagePaths, selectedSkill ?? undefined, selectedCollaborationMode ?? undefined);
     } catch (error) {
@@ -1135,9 +1528,123 @@ export class CodexianView extends ItemView {
       this.state.cancelRequested = false;
       this.updateSendState();
       void this.cleanupTempAttachmentFiles(imageAttachments);
+      this.advanceTurnQueue('failed');
+    }
+  }
+
+  private recordConversationItem(
+    conversation: CodexianConversation,
+    itemType: string,
+    item: unknown,
+    itemId?: string
+  ): void {
+    const entry: CodexianConversationItem = {
+      threadId: conversation.threadId,
+      turnId: this.state.activeTurnId ?? undefined,
+      itemId,
+      itemType,
+      timestamp: Date.now(),
+      item,
+    };
+    // Replace an earlier record of the same item in place so the records before it keep their order.
+    const items = [...(conversation.items ?? [])];
+    const index = itemId ? items.findIndex((existing) => existing.itemId === itemId) : -1;
+    if (index >= 0) {
+      items[index] = entry;
+    } else {
+      items.push(entry);
+    }
+    conversation.items = items;
+  }
+
+  private enqueueInput(): void {
+    if (!this.inputEl) return;
+    if (!this.turnQueue.enqueue(this.inputEl.value)) return;
+    this.inputEl.value = '';
+    this.hideMentionDropdown();
+    this.hideSlashCommandDropdown();
+    this.updateSendState();
+  }
+
+  private advanceTurnQueue(status?: string): void {
+    const failed = status === 'failed' || status === 'interrupted';
+    if (failed && this.plugin.settings.pauseQueueOnFailure) {
+      this.turnQueue.pause();
+      return;
+    }
+    const next = this.turnQueue.takeNext();
+    if (next) {
+      void this.handleSend({ queuedPrompt: next.prompt });
     }
   }
 
+  private renderTurnQueue(): void {
+    if (!this.queueListEl) return;
+    this.queueListEl.empty();
+    const items = this.turnQueue.getItems();
+    if (items.length === 0) {
+      this.queueListEl.hide();
+      return;
+    }
+    this.queueListEl.show();
+
+    const header = this.queueListEl.createDiv({ cls: 'codexian-queue-header' });
+    const paused = this.turnQueue.isPaused();
+    header.createSpan({
+      cls: 'codexian-queue-title',
+      text: paused ? `Queue paused (${items.length})` : `Queued (${items.length})`,
+    });
+    if (paused) {
+      const resumeButton = header.createEl('button', {
+        cls: 'codexian-queue-action',
+        text: 'Resume',
+        attr: { type: 'button' },
+      });
+      resumeButton.addEventListener('click', () => {
+        this.turnQueue.resume();
+        if (!this.state.isRunning) {
+          this.advanceTurnQueue();
+        }
+      });
+    }
+    const clearButton = header.createEl('button', {
+      cls: 'codexian-queue-action',
+      text: 'Clear',
+      attr: { type: 'button' },
+    });
+    clearButton.addEventListener('click', () => {
+      this.turnQueue.clear();
+    });
+
+    items.forEach((item, index) => {
+      const row = this.queueListEl!.createDiv({ cls: 'codexian-queue-item' });
+      row.createSpan({ cls: 'codexian-queue-prompt', text: item.prompt, attr: { title: item.prompt } });
+      const upButton = createIconButton(row, 'chevron-up', {
+        ariaLabel: 'Move up',
+        className: 'codexian-queue-action codexian-icon-btn',
+      });
+      upButton.disabled = index === 0;
+      upButton.addEventListener('click', () => {
+        this.turnQueue.move(item.id, -1);
+      });
+      const downButton = createIconButton(row, 'chevron-down', {
+        ariaLabel: 'Move down',
+        className: 'codexian-queue-action codexian-icon-btn',
+      });
+      downButton.disabled = index === items.length - 1;
+      downButton.addEventListener('click', () => {
+        this.turnQueue.move(item.id, 1);
+      });
+      const removeButton = createIconButton(row, 'x', {
+        ariaLabel: 'Remove from queue',
+        className: 'codexian-queue-action codexian-icon-btn',
+      });
+      removeButton.addEventListener('click', () => {
+        this.turnQueue.remove(item.id);
+      });
+    });
+  }
+
   private async handleCancel(): Promise<void> {
     if (!this.state.isRunning || !this.conversation?.threadId) return;
     this.state.cancelRequested = true;
@@ -1552,7 +2059,7 @@ export class CodexianView extends ItemView {
     this.slashDropdownEl.hide();
   }
 
-  private async buildPromptForSend(userPrompt: string): Promise<string> {
+  private async buildPromptForSend(userPrompt: string): Promise<{ prompt: string; contextPaths: string[] }> {
     const view = this.app.workspace.getActiveViewOfType(MarkdownView);
     let activeFile: { path: string; content: string } | null = null;
     if (view?.file) {
@@ -1579,12 +2086,16 @@ export class CodexianView extends ItemView {
       limits: PROMPT_CONTEXT_LIMITS,
     });
 
+    const contextPaths = [
+      ...(view?.file ? [view.file.path] : []),
+      ...mentionedFiles.map((file) => file.path),
+    ];
     const pendingContextBlocks = this.plugin.consumePendingContextBlocks();
     if (pendingContextBlocks.length === 0) {
-      return promptWithContext;
+      return { prompt: promptWithContext, contextPaths };
     }
 
-    return `${pendingContextBlocks.join('\n\n')}\n\n${promptWithContext}`;
+    return { prompt: `${pendingContextBlocks.join('\n\n')}\n\n${promptWithContext}`, contextPaths };
   }
 
   private updateReviewDiff(diff: unknown, turnId: string): void {
@@ -2025,6 +2536,15 @@ export class CodexianView extends ItemView {
     try {
       await action();
     } catch (error) {
+      if (error instanceof AppServerCancelledError) {
+        this.setStatus('Idle', 'idle');
+        return;
+      }
+      if (error instanceof AppServerTimeoutError) {
+        this.setStatus(`${label} timed out`, 'error');
+        new Notice(`${label} timed out: ${error.message}`);
+        return;
+      }
       const message = error instanceof Error ? error.message : 'Unknown error.';
       this.setStatus(`${label} failed: ${message}`, 'error');
       new Notice(message);
@@ -2033,9 +2553,9 @@ export class CodexianView extends ItemView {
 
   private openModeMenu(event: MouseEvent): void {
     if (!this.conversation) return;
-    const current = this.conversation.mode;
+    const current = this.getModeOption(this.conversation.mode)?.value;
     const menu = new Menu();
-    for (const option of MODE_OPTIONS) {
+    for (const option of getModeOptions(this.plugin.settings.customModes)) {
       menu.addItem((item) => {
         item.setTitle(option.label);
         if (current === option.value) {
@@ -2044,6 +2564,8 @@ export class CodexianView extends ItemView {
         item.onClick(() => {
           if (!this.conversation) return;
           this.conversation.mode = option.value;
+          if (option.model) this.conversation.model = option.model;
+          if (option.reasoningEffort) this.conversation.reasoningEffort = option.reasoningEffort;
           void this.plugin.saveConversation(this.conversation);
           this.plugin.settings.lastMode = option.value;
           void this.plugin.saveSettings();
@@ -2238,16 +2760,16 @@ export class CodexianView extends ItemView {
   }
 
   private getModePolicies(
-    mode?: CodexianMode
+    mode?: CodexianMode,
+    folderPolicy: EffectivePolicy | null = null
   ): { approvalPolicy?: ApprovalPolicy; sandboxPolicy?: SandboxPolicy } {
-    if (!mode) {
-      return {};
-    }
-    const match = MODE_OPTIONS.find((option) => option.value === mode);
-    if (!match) {
-      return {};
-    }
-    return { approvalPolicy: match.approvalPolicy, sandboxPolicy: match.sandboxPolicy };
+    const match = this.getModeOption(mode);
+    const modePolicies = match ? { approvalPolicy: match.approvalPolicy, sandboxPolicy: match.sandboxPolicy } : {};
+    return restrictModePolicies(modePolicies, folderPolicy);
+  }
+
+  private getModeOption(mode?: CodexianMode): ModeOption | undefined {
+    return findModeOption(mode, this.plugin.settings.customModes);
   }
 
   private shouldAutoTitle(conversation: CodexianConversation): boolean {
@@ -2262,13 +2784,16 @@ export class CodexianView extends ItemView {
       changed = true;
     }
 
-    if (!conversation.model && this.plugin.settings.lastModel) {
-      conversation.model = this.plugin.settings.lastModel;
+    const modeOption = this.getModeOption(conversation.mode);
+    const defaultModel = modeOption?.model ?? this.plugin.settings.lastModel;
+    if (!conversation.model && defaultModel) {
+      conversation.model = defaultModel;
       changed = true;
     }
 
-    if (!conversation.reasoningEffort && this.plugin.settings.lastReasoningEffort) {
-      conversation.reasoningEffort = this.plugin.settings.lastReasoningEffort;
+    const defaultEffort = modeOption?.reasoningEffort ?? this.plugin.settings.lastReasoningEffort;
+    if (!conversation.reasoningEffort && defaultEffort) {
+      conversation.reasoningEffort = defaultEffort;
       changed = true;
     }
 
@@ -2323,10 +2848,59 @@ export class CodexianView extends ItemView {
       headerEl.createDiv({ cls: 'codexian-item-card-title', text: 'Approval required' });
       const statusEl = headerEl.createDiv({ cls: 'codexian-item-card-status', text: 'Waiting' });
       const bodyEl = cardEl.createDiv({ cls: 'codexian-item-card-body' });
+      const rejectedPaths = new Set<string>();
+      let partialNoteEl: HTMLElement | null = null;
+      let updateSelection = (): void => undefined;
 
       if (request.kind === 'commandExecution') {
         bodyEl.createDiv({ text: 'Command request' });
         bodyEl.createEl('code', { text: request.command || '(unknown command)' });
+        const parts = request.commandParts ?? [];
+        if (parts.length > 1) {
+          const partsEl = bodyEl.createEl('ul', { cls: 'codexian-approval-parts' });
+          for (const part of parts) {
+            const partEl = partsEl.createEl('li', { cls: `codexian-approval-part is-${part.status}` });
+            partEl.createEl('code', { text: part.command });
+            partEl.createSpan({
+              cls: 'codexian-approval-part-status',
+              text: part.status === 'allowed' ? 'Allowed by rule' : 'Needs approval',
+            });
+          }
+        }
+      } else if (request.kind === 'mcpToolCall') {
+        bodyEl.createDiv({ text: 'Mcp tool request' });
+        const toolCall = request.toolCall;
+        bodyEl.createEl('code', {
+          text: toolCall ? formatToolIdentifier(toolCall.server, toolCall.tool) : '(unknown tool)',
+        });
+        if (toolCall?.arguments !== undefined) {
+          bodyEl.createEl('pre', {
+            cls: 'codexian-approval-arguments',
+            text: JSON.stringify(toolCall.arguments, null, 2) ?? '',
+          });
+        }
+      } else if (request.fileChanges && request.fileChanges.length > 0) {
+        bodyEl.createDiv({ text: 'File change request' });
+        const previewsEl = bodyEl.createDiv({ cls: 'codexian-file-previews' });
+        const selectable = request.fileChanges.length > 1;
+        for (const change of request.fileChanges) {
+          renderFileChangePreview(previewsEl, change, {
+            onSelectionChange: selectable
+              ? (filePath, selected) => {
+                  if (selected) rejectedPaths.delete(filePath);
+                  else rejectedPaths.add(filePath);
+                  updateSelection();
+                }
+              : undefined,
+          });
+        }
+        if (selectable) {
+          partialNoteEl = bodyEl.createDiv({
+            cls: 'codexian-approval-note',
+            text: 'The server applies these files as one change, so rejecting any file declines the whole request.',
+          });
+          partialNoteEl.hide();
+        }
       } else {
         bodyEl.createDiv({ text: 'File change request' });
         const list = bodyEl.createEl('ul');
@@ -2342,44 +2916,180 @@ export class CodexianView extends ItemView {
       const actionsEl = cardEl.createDiv({ cls: 'codexian-approval-actions' });
       const acceptButton = actionsEl.createEl('button', { text: 'Accept' });
       const declineButton = actionsEl.createEl('button', { text: 'Decline' });
+      const turnButton = actionsEl.createEl('button', { text: 'Allow this turn' });
+      const threadButton = actionsEl.createEl('button', { text: 'Allow this thread' });
       const alwaysButton = actionsEl.createEl('button', { text: 'Always' });
+      const scopedButtons = [turnButton, threadButton, alwaysButton];
+      if (!this.buildAlwaysRule(request)) {
+        scopedButtons.forEach((button) => button.hide());
+      }
+      updateSelection = () => {
+        const partial = rejectedPaths.size > 0;
+        partialNoteEl?.toggle(partial);
+        [acceptButton, ...scopedButtons].forEach((button) => {
+          button.disabled = partial;
+        });
+        declineButton.textContent = partial ? `Decline (${rejectedPaths.size} rejected)` : 'Decline';
+      };
 
       const pendingEntry = { resolve, cardEl };
       this.pendingApprovals.add(pendingEntry);
 
-      const finalize = (decision: ApprovalDecision, alwaysRule?: ApprovalRule): void => {
+      const finalize = (result: ApprovalRequestDecision, statusText: string): void => {
         if (!this.pendingApprovals.has(pendingEntry)) {
           return;
         }
         this.pendingApprovals.delete(pendingEntry);
-        acceptButton.disabled = true;
-        declineButton.disabled = true;
-        alwaysButton.disabled = true;
-        statusEl.textContent = decision === 'accept' ? 'Accepted' : 'Declined';
-        cardEl.dataset.status = decision === 'accept' ? 'completed' : 'error';
-        resolve(alwaysRule ? { decision, alwaysRule } : { decision });
+        [acceptButton, declineButton, ...scopedButtons].forEach((button) => {
+          button.disabled = true;
+        });
+        statusEl.textContent = statusText;
+        cardEl.dataset.status = result.decision === 'accept' ? 'completed' : 'error';
+        resolve(result);
       };
 
-      acceptButton.addEventListener('click', () => finalize('accept'));
-      declineButton.addEventListener('click', () => finalize('decline'));
-      alwaysButton.addEventListener('click', () => {
-        const alwaysRule = this.buildAlwaysRule(request);
-        if (!alwaysRule) {
-          finalize('accept');
+      const acceptWithScope = (scope: ApprovalGrantScope | 'always'): void => {
+        const rule = this.buildAlwaysRule(request);
+        if (!rule) {
+          finalize({ decision: 'accept' }, 'Accepted');
+        } else if (scope === 'always') {
+          finalize({ decision: 'accept', alwaysRule: rule }, 'Always allowed');
+        } else {
+          finalize(
+            { decision: 'accept', grant: { rule, scope } },
+            scope === 'turn' ? 'Allowed for this turn' : 'Allowed for this thread'
+          );
+        }
+      };
+
+      acceptButton.addEventListener('click', () => finalize({ decision: 'accept' }, 'Accepted'));
+      declineButton.addEventListener('click', () => finalize({ decision: 'decline' }, 'Declined'));
+      turnButton.addEventListener('click', () => acceptWithScope('turn'));
+      threadButton.addEventListener('click', () => acceptWithScope('thread'));
+      alwaysButton.addEventListener('click', () => acceptWithScope('always'));
+
+      this.scrollToBottom();
+    });
+  }
+
+  private showUserInputCard(request: UserInputRequest): Promise<UserInputAnswers | null> {
+    return new Promise<UserInputAnswers | null>((resolve) => {
+      if (!this.messagesEl) {
+        resolve(null);
+        return;
+      }
+
+      const cardEl = this.messagesEl.createDiv({ cls: 'codexian-user-input-card codexian-item-card' });
+      cardEl.dataset.status = 'pending';
+      const headerEl = cardEl.createDiv({ cls: 'codexian-item-card-header' });
+      headerEl.createDiv({ cls: 'codexian-item-card-title', text: 'Input requested' });
+      const statusEl = headerEl.createDiv({ cls: 'codexian-item-card-status', text: 'Waiting' });
+      const bodyEl = cardEl.createDiv({ cls: 'codexian-item-card-body codexian-user-input-form' });
+
+      const collectors = request.questions.map((question, index) =>
+        this.renderUserInputField(bodyEl, question, index)
+      );
+
+      const actionsEl = cardEl.createDiv({ cls: 'codexian-approval-actions' });
+      const submitButton = actionsEl.createEl('button', { text: 'Submit', attr: { type: 'button' } });
+      const skipButton = actionsEl.createEl('button', { text: 'Skip', attr: { type: 'button' } });
+
+      const pendingEntry = { resolve, cardEl };
+      this.pendingUserInputs.add(pendingEntry);
+
+      const finalize = (answers: UserInputAnswers | null): void => {
+        if (!this.pendingUserInputs.has(pendingEntry)) {
           return;
         }
-        finalize('accept', alwaysRule);
+        this.pendingUserInputs.delete(pendingEntry);
+        submitButton.disabled = true;
+        skipButton.disabled = true;
+        bodyEl.querySelectorAll('input').forEach((inputEl) => {
+          inputEl.disabled = true;
+        });
+        statusEl.textContent = answers ? 'Submitted' : 'Skipped';
+        cardEl.dataset.status = answers ? 'completed' : 'error';
+        resolve(answers);
+      };
+
+      submitButton.addEventListener('click', () => {
+        const answers: UserInputAnswers = {};
+        request.questions.forEach((question, index) => {
+          const values = collectors[index]?.() ?? [];
+          if (values.length > 0) {
+            answers[question.id] = values;
+          }
+        });
+        finalize(answers);
       });
+      skipButton.addEventListener('click', () => finalize(null));
 
       this.scrollToBottom();
     });
   }
 
+  private renderUserInputField(
+    parent: HTMLElement,
+    question: UserInputQuestion,
+    index: number
+  ): () => string[] {
+    const fieldEl = parent.createDiv({ cls: 'codexian-user-input-field' });
+    if (question.header) {
+      fieldEl.createDiv({ cls: 'codexian-user-input-header', text: question.header });
+    }
+    fieldEl.createDiv({ cls: 'codexian-user-input-question', text: question.question });
+
+    const groupName = `codexian-user-input-${Date.now()}-${index}`;
+    const optionInputs: Array<{ inputEl: HTMLInputElement; label: string }> = [];
+    for (const option of question.options) {
+      const optionEl = fieldEl.createEl('label', { cls: 'codexian-user-input-option' });
+      const inputEl = optionEl.createEl('input', { attr: { type: 'radio', name: groupName } });
+      optionEl.createSpan({ text: option.label });
+      if (option.description) {
+        optionEl.createSpan({ cls: 'codexian-user-input-option-desc', text: option.description });
+      }
+      optionInputs.push({ inputEl, label: option.label });
+    }
+
+    let otherInputEl: HTMLInputElement | null = null;
+    if (question.allowOther) {
+      otherInputEl = fieldEl.createEl('input', {
+        cls: 'codexian-user-input-text',
+        attr: {
+          type: 'text',
+          placeholder: question.options.length > 0 ? 'Other answer (optional)' : 'Type your answer',
+        },
+      });
+      const textInputEl = otherInputEl;
+      textInputEl.addEventListener('input', () => {
+        if (!textInputEl.value.trim()) return;
+        for (const option of optionInputs) {
+          option.inputEl.checked = false;
+        }
+      });
+    }
+
+    return () => {
+      const selected = optionInputs.find((option) => option.inputEl.checked)?.label;
+      const other = otherInputEl?.value.trim() ?? '';
+      if (other) return [other];
+      return selected ? [selected] : [];
+    };
+  }
+
   private buildAlwaysRule(request: ApprovalRequest): ApprovalRule | undefined {
     if (request.kind === 'commandExecution') {
-      const command = request.command?.trim();
+      const unmatched = (request.commandParts ?? []).filter((part) => part.status !== 'allowed');
+      if (unmatched.length > 1) return undefined;
+      const command = (unmatched[0]?.command ?? request.command)?.trim();
       if (!command) return undefined;
-      return { kind: 'command', pattern: command };
+      return { kind: 'command', pattern: command, matcher: 'exact' };
+    }
+
+    if (request.kind === 'mcpToolCall') {
+      const toolCall = request.toolCall;
+      if (!toolCall) return undefined;
+      return { kind: 'tool', pattern: formatToolIdentifier(toolCall.server, toolCall.tool), matcher: 'exact' };
     }
 
     const pattern = this.getCommonPathPrefix(request.paths);
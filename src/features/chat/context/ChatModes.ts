@@ -0,0 +1,82 @@
+import type { ApprovalPolicy, CodexianMode, CustomMode, SandboxPolicy } from '../../../core/types';
+
+export interface ModeOption {
+  value: CodexianMode;
+  label: string;
+  approvalPolicy: ApprovalPolicy;
+  sandboxPolicy: SandboxPolicy;
+  model?: string;
+  reasoningEffort?: string;
+  promptPrefix?: string;
+}
+
+export const BUILT_IN_MODES: ModeOption[] = [
+  {
+    value: 'agent',
+    label: 'Agent',
+    approvalPolicy: 'on-request',
+    sandboxPolicy: { type: 'workspaceWrite' },
+  },
+  {
+    value: 'chat',
+    label: 'Chat',
+    approvalPolicy: 'on-request',
+    sandboxPolicy: { type: 'readOnly' },
+  },
+  {
+    value: 'agent-full',
+    label: 'Agent (Full Access)',
+    approvalPolicy: 'never',
+    sandboxPolicy: { type: 'dangerFullAccess' },
+  },
+];
+
+export const createCustomModeId = (): string => `mode-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+export function createCustomMode(name: string): CustomMode {
+  return {
+    id: createCustomModeId(),
+    name,
+    approvalPolicy: 'on-request',
+    sandbox: 'workspaceWrite',
+    writableRoots: [],
+    networkAccess: false,
+  };
+}
+
+// Writable roots and network access only mean something to the workspace-write sandbox.
+export function toModeOption(mode: CustomMode): ModeOption {
+  const sandboxPolicy: SandboxPolicy = { type: mode.sandbox };
+  if (mode.sandbox === 'workspaceWrite') {
+    const writableRoots = mode.writableRoots.map((root) => root.trim()).filter((root) => root.length > 0);
+    if (writableRoots.length > 0) sandboxPolicy.writableRoots = writableRoots;
+    sandboxPolicy.networkAccess = mode.networkAccess;
+  }
+  return {
+    value: mode.id,
+    label: mode.name.trim() || 'Untitled mode',
+    approvalPolicy: mode.approvalPolicy,
+    sandboxPolicy,
+    model: mode.model?.trim() || undefined,
+    reasoningEffort: mode.reasoningEffort?.trim() || undefined,
+    promptPrefix: mode.promptPrefix?.trim() || undefined,
+  };
+}
+
+export function getModeOptions(customModes: CustomMode[]): ModeOption[] {
+  return [...BUILT_IN_MODES, ...customModes.map(toModeOption)];
+}
+
+// A session can outlive the custom mode it was saved with; it then runs as the built-in agent mode
+// rather than with no approval or sandbox policy at all.
+export function findModeOption(mode: CodexianMode | undefined, customModes: CustomMode[]): ModeOption | undefined {
+  if (!mode) return undefined;
+  return getModeOptions(customModes).find((option) => option.value === mode) ?? BUILT_IN_MODES[0];
+}
+
+export function buildModePrompt(prompt: string, option: ModeOption | undefined): string {
+  if (!option?.promptPrefix || !prompt.trim()) {
+    return prompt;
+  }
+  return `${option.promptPrefix}\n\n${prompt}`;
+}
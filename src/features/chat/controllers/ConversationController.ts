@@ -12,6 +12,10 @@ export class ConversationController {
     return this.plugin.loadConversationFromThread(threadId);
   }
 
+  async loadSavedConversation(sessionId: string): Promise<CodexianConversation> {
+    return this.plugin.openSavedConversation(sessionId);
+  }
+
   async createNewConversation(): Promise<CodexianConversation> {
     const thread = await this.plugin.runtime.startThread();
     const conversation = this.plugin.createConversationFromThread(thread);
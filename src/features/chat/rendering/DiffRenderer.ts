@@ -0,0 +1,96 @@
+import type { ApprovalFileChange } from '../../../core/runtime';
+import { classifyDiffLine, countDiffLines } from '../../../utils/diff';
+
+export interface FileChangePreviewOptions {
+  onSelectionChange?: (path: string, selected: boolean) => void;
+}
+
+export interface FileChangePreviewHandle {
+  rowEl: HTMLElement;
+  checkboxEl?: HTMLInputElement;
+}
+
+const KIND_LABELS: Record<string, string> = {
+  add: 'Added',
+  delete: 'Deleted',
+  update: 'Modified',
+};
+
+export function renderUnifiedDiff(diff: string): HTMLElement {
+  const preEl = document.createElement('pre');
+  preEl.className = 'codexian-diff';
+  for (const line of diff.split(/\r?\n/)) {
+    const lineEl = document.createElement('span');
+    lineEl.className = `codexian-diff-line is-${classifyDiffLine(line)}`;
+    lineEl.textContent = line;
+    preEl.appendChild(lineEl);
+  }
+  return preEl;
+}
+
+export function renderFileChangePreview(
+  parent: HTMLElement,
+  change: ApprovalFileChange,
+  options: FileChangePreviewOptions = {}
+): FileChangePreviewHandle {
+  const rowEl = document.createElement('div');
+  rowEl.className = 'codexian-file-preview';
+  rowEl.dataset.path = change.path;
+
+  let checkboxEl: HTMLInputElement | undefined;
+  if (options.onSelectionChange) {
+    const onSelectionChange = options.onSelectionChange;
+    const toggleEl = document.createElement('input');
+    toggleEl.type = 'checkbox';
+    toggleEl.checked = true;
+    toggleEl.className = 'codexian-file-preview-toggle';
+    toggleEl.title = `Approve ${change.path}`;
+    toggleEl.addEventListener('change', () => {
+      rowEl.className = toggleEl.checked ? 'codexian-file-preview' : 'codexian-file-preview is-rejected';
+      onSelectionChange(change.path, toggleEl.checked);
+    });
+    rowEl.appendChild(toggleEl);
+    checkboxEl = toggleEl;
+  }
+
+  const detailsEl = document.createElement('details');
+  detailsEl.className = 'codexian-file-preview-details';
+  const summaryEl = document.createElement('summary');
+  const pathEl = document.createElement('span');
+  pathEl.className = 'codexian-file-preview-path';
+  pathEl.textContent = change.path;
+  summaryEl.appendChild(pathEl);
+
+  const kindLabel = change.kind ? KIND_LABELS[change.kind] : undefined;
+  if (kindLabel) {
+    const kindEl = document.createElement('span');
+    kindEl.className = 'codexian-file-preview-kind';
+    kindEl.textContent = kindLabel;
+    summaryEl.appendChild(kindEl);
+  }
+
+  if (change.diff) {
+    const counts = countDiffLines(change.diff);
+    const addedEl = document.createElement('span');
+    addedEl.className = 'codexian-diff-count is-added';
+    addedEl.textContent = `+${counts.additions}`;
+    const removedEl = document.createElement('span');
+    removedEl.className = 'codexian-diff-count is-removed';
+    removedEl.textContent = `-${counts.deletions}`;
+    summaryEl.appendChild(addedEl);
+    summaryEl.appendChild(removedEl);
+  }
+
+  detailsEl.appendChild(summaryEl);
+  if (change.diff) {
+    detailsEl.appendChild(renderUnifiedDiff(change.diff));
+  } else {
+    const emptyEl = document.createElement('div');
+    emptyEl.className = 'codexian-file-preview-empty';
+    emptyEl.textContent = 'No diff provided for this file.';
+    detailsEl.appendChild(emptyEl);
+  }
+  rowEl.appendChild(detailsEl);
+  parent.appendChild(rowEl);
+  return { rowEl, checkboxEl };
+}
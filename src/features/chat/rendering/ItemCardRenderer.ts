@@ -1,3 +1,4 @@
+import type { ReasoningDelta } from '../../../core/runtime';
 import type { AppServerItem } from '../../../core/types';
 
 type SupportedItemCardType = 'commandExecution' | 'fileChange' | 'plan' | 'reasoning' | 'mcpToolCall';
@@ -10,6 +11,7 @@ interface ItemCardEntry {
   outputEl?: HTMLElement;
   toggleButtonEl?: HTMLButtonElement;
   collapsibleEl?: HTMLElement;
+  reasoningIndex?: number;
 }
 
 const isRecord = (value: unknown): value is Record<string, unknown> =>
@@ -32,6 +34,7 @@ export class ItemCardRenderer {
   private entriesByKey = new Map<string, ItemCardEntry>();
   private sequence = 0;
   private latestCommandCardKey: string | null = null;
+  private latestReasoningCardKey: string | null = null;
 
   constructor(private transcriptEl: HTMLElement) {}
 
@@ -39,20 +42,48 @@ export class ItemCardRenderer {
     this.entriesByKey.clear();
     this.sequence = 0;
     this.latestCommandCardKey = null;
+    this.latestReasoningCardKey = null;
   }
 
   beginTurn(): void {
     this.latestCommandCardKey = null;
+    this.latestReasoningCardKey = null;
   }
 
   handleItemStarted(item: AppServerItem): void {
     if (!isSupportedItemType(item.type)) return;
+    const id = getString(item.id);
+    const existing = id ? this.entriesByKey.get(id) : undefined;
+    if (existing?.type === item.type) {
+      this.refreshCard(existing, this.getRaw(item));
+      return;
+    }
+    this.startCard(item.type, this.getItemKey(item), this.getRaw(item));
+  }
 
-    const raw = this.getRaw(item);
-    const key = this.getItemKey(item);
+  // A reasoning card opened by early deltas keeps its streamed text; only the raw item is filled in.
+  private refreshCard(entry: ItemCardEntry, raw: Record<string, unknown> | undefined): void {
+    if (entry.type === 'reasoning') {
+      const rawEl = entry.bodyEl.querySelector<HTMLElement>('.codexian-item-reasoning-raw');
+      if (rawEl) rawEl.textContent = stringifyJson(raw ?? {});
+      return;
+    }
+    entry.bodyEl.replaceChildren();
+    if (entry.type === 'commandExecution') {
+      this.renderCommandExecution(entry, raw);
+    } else if (entry.type === 'fileChange') {
+      this.renderFileChange(entry, raw);
+    } else if (entry.type === 'plan') {
+      this.renderPlan(entry, raw);
+    } else {
+      this.renderMcpToolCall(entry, raw);
+    }
+  }
+
+  private startCard(type: SupportedItemCardType, key: string, raw: Record<string, unknown> | undefined): void {
     const cardEl = document.createElement('div');
-    cardEl.className = `codexian-item-card codexian-item-${item.type}`;
-    cardEl.dataset.itemType = item.type;
+    cardEl.className = `codexian-item-card codexian-item-${type}`;
+    cardEl.dataset.itemType = type;
     cardEl.dataset.status = 'running';
 
     const headerEl = document.createElement('div');
@@ -60,7 +91,7 @@ export class ItemCardRenderer {
 
     const titleEl = document.createElement('div');
     titleEl.className = 'codexian-item-card-title';
-    titleEl.textContent = item.type;
+    titleEl.textContent = type;
 
     const statusEl = document.createElement('div');
     statusEl.className = 'codexian-item-card-status';
@@ -77,27 +108,59 @@ export class ItemCardRenderer {
     this.transcriptEl.appendChild(cardEl);
 
     const entry: ItemCardEntry = {
-      type: item.type,
+      type,
       cardEl,
       statusEl,
       bodyEl,
     };
     this.entriesByKey.set(key, entry);
 
-    if (item.type === 'commandExecution') {
+    if (type === 'commandExecution') {
       this.renderCommandExecution(entry, raw);
       this.latestCommandCardKey = key;
-    } else if (item.type === 'fileChange') {
+    } else if (type === 'fileChange') {
       this.renderFileChange(entry, raw);
-    } else if (item.type === 'plan') {
+    } else if (type === 'plan') {
       this.renderPlan(entry, raw);
-    } else if (item.type === 'mcpToolCall') {
+    } else if (type === 'mcpToolCall') {
       this.renderMcpToolCall(entry, raw);
     } else {
       this.renderReasoning(entry, raw);
+      this.latestReasoningCardKey = key;
     }
   }
 
+  handleReasoningDelta(reasoning: ReasoningDelta): void {
+    if (!reasoning.delta) return;
+    const hasCard = reasoning.itemId ? this.entriesByKey.has(reasoning.itemId) : !!this.latestReasoningCardKey;
+    if (!hasCard) {
+      // Deltas can arrive before their item starts; open the card under the delta's item id.
+      this.startCard('reasoning', reasoning.itemId || this.nextItemKey('reasoning'), {});
+    }
+    const key = reasoning.itemId ?? this.latestReasoningCardKey;
+    const entry = key ? this.entriesByKey.get(key) : undefined;
+    if (!entry || entry.type !== 'reasoning') return;
+    const className =
+      reasoning.kind === 'summary' ? 'codexian-item-reasoning-summary' : 'codexian-item-reasoning-text';
+    const targetEl = entry.bodyEl.querySelector<HTMLElement>(`.${className}`);
+    if (!targetEl) return;
+    const fallbackEl = entry.bodyEl.querySelector<HTMLElement>('.codexian-item-fallback-json');
+    if (fallbackEl) {
+      fallbackEl.hidden = true;
+    }
+
+    const current = targetEl.textContent ?? '';
+    const startsNewPart =
+      reasoning.kind === 'summary' &&
+      reasoning.index !== undefined &&
+      entry.reasoningIndex !== undefined &&
+      reasoning.index !== entry.reasoningIndex;
+    if (reasoning.kind === 'summary' && reasoning.index !== undefined) {
+      entry.reasoningIndex = reasoning.index;
+    }
+    targetEl.textContent = `${current}${startsNewPart && current ? '\n\n' : ''}${reasoning.delta}`;
+  }
+
   handleCommandExecutionOutputDelta(delta: string): void {
     if (!delta) return;
     if (!this.latestCommandCardKey) return;
@@ -154,10 +217,12 @@ export class ItemCardRenderer {
   }
 
   private getItemKey(item: AppServerItem): string {
-    const id = getString(item.id);
-    if (id) return id;
+    return getString(item.id) || this.nextItemKey(item.type);
+  }
+
+  private nextItemKey(type: string): string {
     this.sequence += 1;
-    return `${item.type}-${this.sequence}`;
+    return `${type}-${this.sequence}`;
   }
 
   private resolveItemKey(item: AppServerItem): string | null {
@@ -280,12 +345,14 @@ export class ItemCardRenderer {
     const summary =
       getString(raw?.summary) ?? getString(raw?.summaryText) ?? getString(raw?.text) ?? getString(raw?.reasoning) ?? null;
 
-    if (summary) {
-      const summaryEl = document.createElement('div');
-      summaryEl.className = 'codexian-item-reasoning-summary';
-      summaryEl.textContent = summary;
-      entry.bodyEl.appendChild(summaryEl);
-    }
+    const summaryEl = document.createElement('div');
+    summaryEl.className = 'codexian-item-reasoning-summary';
+    summaryEl.textContent = summary ?? '';
+    entry.bodyEl.appendChild(summaryEl);
+
+    const textEl = document.createElement('div');
+    textEl.className = 'codexian-item-reasoning-text';
+    entry.bodyEl.appendChild(textEl);
 
     const controlsEl = document.createElement('div');
     controlsEl.className = 'codexian-item-card-controls';
@@ -24,6 +24,10 @@ export class MessageRenderer {
     this.messageEls.set(message.id, messageEl);
   }
 
+  getMessageElement(id: string): HTMLElement | undefined {
+    return this.messageEls.get(id);
+  }
+
   updateMessage(message: ChatMessage, create: (message: ChatMessage) => HTMLElement): void {
     const messageEl = this.messageEls.get(message.id);
     if (!messageEl) {
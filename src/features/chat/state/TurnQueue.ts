@@ -0,0 +1,89 @@
+export interface QueuedPrompt {
+  id: number;
+  prompt: string;
+  createdAt: number;
+}
+
+export class TurnQueue {
+  private items: QueuedPrompt[] = [];
+  private nextId = 1;
+  private paused = false;
+  private listeners = new Set<() => void>();
+
+  enqueue(prompt: string): QueuedPrompt | null {
+    const trimmed = prompt.trim();
+    if (!trimmed) return null;
+    const item: QueuedPrompt = { id: this.nextId++, prompt: trimmed, createdAt: Date.now() };
+    this.items.push(item);
+    this.notify();
+    return item;
+  }
+
+  remove(id: number): void {
+    const next = this.items.filter((item) => item.id !== id);
+    if (next.length === this.items.length) return;
+    this.items = next;
+    if (this.items.length === 0) {
+      this.paused = false;
+    }
+    this.notify();
+  }
+
+  move(id: number, offset: number): void {
+    const index = this.items.findIndex((item) => item.id === id);
+    if (index < 0) return;
+    const target = Math.max(0, Math.min(this.items.length - 1, index + offset));
+    if (target === index) return;
+    const [item] = this.items.splice(index, 1);
+    if (!item) return;
+    this.items.splice(target, 0, item);
+    this.notify();
+  }
+
+  takeNext(): QueuedPrompt | null {
+    if (this.paused) return null;
+    const item = this.items.shift() ?? null;
+    if (item) {
+      this.notify();
+    }
+    return item;
+  }
+
+  pause(): void {
+    if (this.paused || this.items.length === 0) return;
+    this.paused = true;
+    this.notify();
+  }
+
+  resume(): void {
+    if (!this.paused) return;
+    this.paused = false;
+    this.notify();
+  }
+
+  clear(): void {
+    if (this.items.length === 0 && !this.paused) return;
+    this.items = [];
+    this.paused = false;
+    this.notify();
+  }
+
+  isPaused(): boolean {
+    return this.paused;
+  }
+
+  getItems(): QueuedPrompt[] {
+    return [...this.items];
+  }
+
+  onChange(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notify(): void {
+    this.listeners.forEach((listener) => listener());
+  }
+}
@@ -0,0 +1,172 @@
+import { Modal, normalizePath, Notice } from 'obsidian';
+
+import type CodexianPlugin from '../../main';
+import {
+  formatDiagnosticsEntries,
+  type DiagnosticsEntry,
+  type DiagnosticsSource,
+} from '../../core/runtime';
+
+const SOURCE_OPTIONS: Array<{ value: DiagnosticsSource | ''; label: string }> = [
+  { value: '', label: 'All sources' },
+  { value: 'stderr', label: 'Stderr' },
+  { value: 'rpc-in', label: 'Rpc from server' },
+  { value: 'rpc-out', label: 'Rpc to server' },
+  { value: 'lifecycle', label: 'Lifecycle' },
+];
+
+const pad = (value: number): string => value.toString().padStart(2, '0');
+
+const buildExportFileName = (date: Date): string => {
+  const stamp = [
+    date.getFullYear(),
+    pad(date.getMonth() + 1),
+    pad(date.getDate()),
+  ].join('-');
+  const time = [pad(date.getHours()), pad(date.getMinutes()), pad(date.getSeconds())].join('');
+  return `Codex diagnostics ${stamp} ${time}.md`;
+};
+
+export class DiagnosticsModal extends Modal {
+  private plugin: CodexianPlugin;
+  private source: DiagnosticsSource | '' = '';
+  private query = '';
+  private unsubscribe: (() => void) | null = null;
+  private renderedLines = new Map<number, HTMLElement>();
+  private renderFrame: number | null = null;
+
+  constructor(plugin: CodexianPlugin) {
+    super(plugin.app);
+    this.plugin = plugin;
+  }
+
+  onOpen(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.createEl('h3', { text: 'Codex diagnostics' });
+
+    const filterRow = contentEl.createDiv({ cls: 'codexian-diagnostics-filters' });
+    const sourceSelect = filterRow.createEl('select', { cls: 'dropdown' });
+    for (const option of SOURCE_OPTIONS) {
+      sourceSelect.createEl('option', { text: option.label, attr: { value: option.value } });
+    }
+    const queryInput = filterRow.createEl('input', {
+      cls: 'codexian-session-search-input',
+      attr: { type: 'text', placeholder: 'Filter entries...' },
+    });
+
+    const summaryEl = contentEl.createDiv({ cls: 'codexian-session-meta' });
+    const logEl = contentEl.createEl('pre', { cls: 'codexian-diagnostics-log' });
+
+    const actions = contentEl.createDiv({ cls: 'codexian-modal-actions' });
+    const clearButton = actions.createEl('button', { text: 'Clear' });
+    const copyButton = actions.createEl('button', { text: 'Copy' });
+    const exportButton = actions.createEl('button', { text: 'Export to note' });
+
+    // Entries only arrive at the end and leave from the front, so unless the filter changed, existing lines are kept.
+    const render = (rebuild: boolean): void => {
+      const entries = this.getVisibleEntries();
+      summaryEl.setText(`${entries.length} entries`);
+      if (rebuild || entries.length === 0 || this.renderedLines.size === 0) {
+        logEl.empty();
+        this.renderedLines.clear();
+      }
+      if (entries.length === 0) {
+        logEl.setText('No diagnostics recorded.');
+        return;
+      }
+      const visibleIds = new Set(entries.map((entry) => entry.id));
+      for (const [id, line] of this.renderedLines) {
+        if (visibleIds.has(id)) continue;
+        line.remove();
+        this.renderedLines.delete(id);
+      }
+      for (const entry of entries) {
+        if (this.renderedLines.has(entry.id)) continue;
+        this.renderedLines.set(entry.id, logEl.createDiv({ text: formatDiagnosticsEntries([entry]) }));
+      }
+    };
+
+    // A busy app server records many entries per frame; render them together.
+    const scheduleRender = (): void => {
+      if (this.renderFrame !== null) return;
+      this.renderFrame = window.requestAnimationFrame(() => {
+        this.renderFrame = null;
+        render(false);
+      });
+    };
+
+    sourceSelect.addEventListener('change', () => {
+      this.source = sourceSelect.value as DiagnosticsSource | '';
+      render(true);
+    });
+    queryInput.addEventListener('input', () => {
+      this.query = queryInput.value;
+      render(true);
+    });
+    clearButton.addEventListener('click', () => {
+      this.plugin.runtime.diagnostics.clear();
+    });
+    copyButton.addEventListener('click', () => {
+      void this.copyEntries();
+    });
+    exportButton.addEventListener('click', () => {
+      void this.exportEntries();
+    });
+
+    this.unsubscribe = this.plugin.runtime.diagnostics.onChange(scheduleRender);
+    render(true);
+  }
+
+  onClose(): void {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    if (this.renderFrame !== null) {
+      window.cancelAnimationFrame(this.renderFrame);
+      this.renderFrame = null;
+    }
+    this.renderedLines.clear();
+    this.contentEl.empty();
+  }
+
+  private getVisibleEntries(): DiagnosticsEntry[] {
+    return this.plugin.runtime.diagnostics.getEntries({
+      sources: this.source ? [this.source] : undefined,
+      query: this.query,
+    });
+  }
+
+  private async copyEntries(): Promise<void> {
+    const text = formatDiagnosticsEntries(this.getVisibleEntries());
+    try {
+      await navigator.clipboard.writeText(text);
+      new Notice('Diagnostics copied to clipboard.');
+    } catch {
+      new Notice('Unable to copy diagnostics.');
+    }
+  }
+
+  private async exportEntries(): Promise<void> {
+    const entries = this.getVisibleEntries();
+    const now = new Date();
+    const content = [
+      '# Codex diagnostics',
+      '',
+      `Exported: ${now.toISOString()}`,
+      `Entries: ${entries.length}`,
+      '',
+      '```text',
+      formatDiagnosticsEntries(entries),
+      '```',
+      '',
+    ].join('\n');
+    const filePath = normalizePath(buildExportFileName(now));
+    try {
+      await this.app.vault.create(filePath, content);
+      new Notice(`Diagnostics exported to ${filePath}.`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error.';
+      new Notice(`Failed to export diagnostics: ${message}`);
+    }
+  }
+}
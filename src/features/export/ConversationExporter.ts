@@ -0,0 +1,198 @@
+import { TURN_DIFF_ITEM_TYPE, type CodexianConversation, type CodexianConversationItem } from '../../core/types';
+
+export const EXPORT_FOLDER = 'Codexian exports';
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const getString = (value: unknown): string | undefined =>
+  typeof value === 'string' && value.trim() ? value : undefined;
+
+const getNumber = (value: unknown): number | undefined =>
+  typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+
+const getArray = (value: unknown): unknown[] => (Array.isArray(value) ? value : []);
+
+const getItemRecord = (item: unknown): Record<string, unknown> => {
+  if (!isRecord(item)) return {};
+  return isRecord(item.raw) ? item.raw : item;
+};
+
+const fence = (text: string, language: string): string => {
+  const longestRun = Math.max(2, ...(text.match(/`+/g) ?? []).map((run) => run.length));
+  const marker = '`'.repeat(longestRun + 1);
+  return [`${marker}${language}`, text.replace(/\s+$/, ''), marker].join('\n');
+};
+
+const quote = (lines: string[]): string =>
+  lines
+    .join('\n')
+    .split('\n')
+    .map((line) => (line ? `> ${line}` : '>'))
+    .join('\n');
+
+const callout = (type: string, title: string, body: string[]): string =>
+  quote([`[!${type}]- ${title.replace(/\s+/g, ' ').trim()}`, ...body]);
+
+const formatTimestamp = (value: number | undefined): string | undefined =>
+  value === undefined || !Number.isFinite(value) ? undefined : new Date(value).toISOString();
+
+function renderFrontmatter(conversation: CodexianConversation, exportedAt: number): string {
+  const fields: Array<[string, string | undefined]> = [
+    ['title', conversation.title],
+    ['thread_id', conversation.threadId],
+    ['model', conversation.model],
+    ['reasoning_effort', conversation.reasoningEffort],
+    ['mode', conversation.mode],
+    ['created', formatTimestamp(conversation.createdAt)],
+    ['updated', formatTimestamp(conversation.updatedAt)],
+    ['last_response', formatTimestamp(conversation.lastResponseAt)],
+    ['exported', formatTimestamp(exportedAt)],
+  ];
+  const lines = fields
+    .filter((entry): entry is [string, string] => entry[1] !== undefined && entry[1] !== '')
+    .map(([key, value]) => `${key}: ${JSON.stringify(value)}`);
+  return ['---', ...lines, '---'].join('\n');
+}
+
+function renderCommandExecution(raw: Record<string, unknown>): string {
+  const command =
+    getString(raw.command) ?? getString(raw.commandLine) ?? getString(raw.cmd) ?? getString(raw.input) ?? 'command';
+  const output =
+    getString(raw.aggregatedOutput) ??
+    getString(raw.output) ??
+    getString(raw.stdout) ??
+    getString(raw.combinedOutput) ??
+    '';
+  const exitCode = getNumber(raw.exitCode);
+  const status = getString(raw.status);
+  const body = [fence(command, 'sh')];
+  if (output) {
+    body.push(fence(output, 'text'));
+  }
+  const meta = [
+    status ? `Status: ${status}` : null,
+    exitCode !== undefined ? `Exit code: ${exitCode}` : null,
+  ].filter((value): value is string => !!value);
+  if (meta.length > 0) {
+    body.push(meta.join(' · '));
+  }
+  return callout('example', `Command: ${command.split('\n')[0] ?? command}`, body);
+}
+
+function renderFileChange(raw: Record<string, unknown>): string {
+  const body: string[] = [];
+  const changes = [...getArray(raw.changes), ...getArray(raw.files)];
+  for (const change of changes) {
+    if (typeof change === 'string') {
+      body.push(`- \`${change}\``);
+      continue;
+    }
+    if (!isRecord(change)) continue;
+    const path = getString(change.path) ?? getString(change.filePath) ?? getString(change.newPath);
+    if (!path) continue;
+    const kind = isRecord(change.kind) ? getString(change.kind.type) : getString(change.kind);
+    body.push(kind ? `- \`${path}\` (${kind})` : `- \`${path}\``);
+    const diff = getString(change.diff) ?? getString(change.unifiedDiff);
+    if (diff) {
+      body.push(fence(diff, 'diff'));
+    }
+  }
+  const diff = getString(raw.unifiedDiff) ?? getString(raw.diff) ?? getString(raw.patch) ?? getString(raw.diffText);
+  if (diff) {
+    body.push(fence(diff, 'diff'));
+  }
+  const count = changes.length;
+  return callout('note', count > 0 ? `File changes (${count})` : 'File changes', body);
+}
+
+function renderPlan(raw: Record<string, unknown>): string {
+  const steps = [...getArray(raw.steps), ...getArray(raw.plan)]
+    .map((value) => {
+      if (typeof value === 'string') return value;
+      if (!isRecord(value)) return null;
+      const text =
+        getString(value.step) ?? getString(value.text) ?? getString(value.title) ?? getString(value.description);
+      if (!text) return null;
+      const status = getString(value.status);
+      return status ? `${text} (${status})` : text;
+    })
+    .filter((value): value is string => !!value);
+  const body = steps.length > 0 ? steps.map((step, index) => `${index + 1}. ${step}`) : [];
+  const text = getString(raw.text) ?? getString(raw.explanation);
+  if (text) {
+    body.push(...(body.length > 0 ? ['', text] : [text]));
+  }
+  return callout('todo', 'Plan', body);
+}
+
+export function renderConversationItem(item: CodexianConversationItem): string | null {
+  const raw = getItemRecord(item.item);
+  switch (item.itemType) {
+    case 'commandExecution':
+      return renderCommandExecution(raw);
+    case 'fileChange':
+      return renderFileChange(raw);
+    case 'plan':
+      return renderPlan(raw);
+    default:
+      return null;
+  }
+}
+
+export function getLastTurnDiff(conversation: CodexianConversation): string | null {
+  const items = conversation.items ?? [];
+  for (let index = items.length - 1; index >= 0; index -= 1) {
+    const item = items[index];
+    if (item?.itemType !== TURN_DIFF_ITEM_TYPE) continue;
+    const text = getString(item.item);
+    if (text) return text.trim();
+  }
+  return null;
+}
+
+interface TranscriptEntry {
+  timestamp: number;
+  order: number;
+  markdown: string;
+}
+
+export function renderConversationMarkdown(
+  conversation: CodexianConversation,
+  exportedAt: number = Date.now()
+): string {
+  const entries: TranscriptEntry[] = [];
+  let order = 0;
+  for (const message of conversation.messages) {
+    const content = message.content.trim();
+    if (!content) continue;
+    const heading = message.role === 'user' ? '## User' : '## Assistant';
+    entries.push({ timestamp: message.timestamp, order: order++, markdown: `${heading}\n\n${content}` });
+  }
+  for (const item of conversation.items ?? []) {
+    const markdown = renderConversationItem(item);
+    if (!markdown) continue;
+    entries.push({ timestamp: item.timestamp, order: order++, markdown });
+  }
+  entries.sort((a, b) => a.timestamp - b.timestamp || a.order - b.order);
+
+  const sections = [renderFrontmatter(conversation, exportedAt), `# ${conversation.title || 'Codexian Session'}`];
+  sections.push(...entries.map((entry) => entry.markdown));
+
+  const diff = getLastTurnDiff(conversation);
+  if (diff) {
+    sections.push(`## Last turn diff\n\n${fence(diff, 'diff')}`);
+  }
+  return `${sections.join('\n\n')}\n`;
+}
+
+export function buildExportFileName(conversation: CodexianConversation): string {
+  const title = (conversation.title || 'Codexian Session')
+    .replace(/[\\/:*?"<>|#^[\]]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .slice(0, 80)
+    .trim();
+  const date = new Date(conversation.updatedAt || Date.now()).toISOString().slice(0, 10);
+  return `${title || 'Codexian Session'} ${date}`;
+}
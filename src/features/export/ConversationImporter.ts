@@ -0,0 +1,440 @@
+import {
+  TURN_DIFF_ITEM_TYPE,
+  type ChatMessage,
+  type CodexianConversation,
+  type CodexianConversationItem,
+  type CodexianImportFormat,
+  type CodexianMode,
+} from '../../core/types';
+
+export interface ImportOptions {
+  id: string;
+  fileName: string;
+  now?: number;
+}
+
+export class ConversationImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConversationImportError';
+  }
+}
+
+const IMPORTED_CONTEXT_MAX_CHARS = 12_000;
+const CODEXIAN_MODES: CodexianMode[] = ['agent', 'chat', 'agent-full'];
+const ROLLOUT_CONTEXT_TAG = /^<(environment_context|user_instructions|user_shell_command|turn_aborted)>/;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const getString = (value: unknown): string | undefined =>
+  typeof value === 'string' && value.trim() ? value : undefined;
+
+const getNumber = (value: unknown): number | undefined =>
+  typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+
+const getArray = (value: unknown): unknown[] => (Array.isArray(value) ? value : []);
+
+const parseTimestamp = (value: unknown): number | undefined => {
+  if (typeof value !== 'string') return undefined;
+  const parsed = Date.parse(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+};
+
+const parseJson = (value: string): unknown => {
+  try {
+    return JSON.parse(value) as unknown;
+  } catch {
+    return undefined;
+  }
+};
+
+const buildTitle = (messages: ChatMessage[], fileName: string): string => {
+  const firstUser = messages.find((message) => message.role === 'user')?.content.split('\n')[0]?.trim();
+  if (firstUser) {
+    return firstUser.length > 60 ? `${firstUser.slice(0, 57)}...` : firstUser;
+  }
+  return fileName.replace(/\.(md|jsonl)$/i, '') || 'Imported session';
+};
+
+interface FenceSegment {
+  language: string;
+  text: string;
+}
+
+function splitFences(lines: string[]): { fences: FenceSegment[]; plain: string[] } {
+  const fences: FenceSegment[] = [];
+  const plain: string[] = [];
+  let open: { marker: string; language: string; lines: string[] } | null = null;
+  for (const line of lines) {
+    if (open) {
+      if (line.trim() === open.marker) {
+        fences.push({ language: open.language, text: open.lines.join('\n') });
+        open = null;
+      } else {
+        open.lines.push(line);
+      }
+      continue;
+    }
+    const match = /^(`{3,})([\w-]*)\s*$/.exec(line.trim());
+    if (match) {
+      open = { marker: match[1] ?? '```', language: match[2] ?? '', lines: [] };
+      continue;
+    }
+    plain.push(line);
+  }
+  if (open) {
+    fences.push({ language: open.language, text: open.lines.join('\n') });
+  }
+  return { fences, plain };
+}
+
+function parseCommandCallout(lines: string[]): Record<string, unknown> {
+  const { fences, plain } = splitFences(lines);
+  const command = fences.find((fence) => fence.language === 'sh')?.text ?? '';
+  const output = fences.find((fence) => fence.language === 'text')?.text;
+  const meta = plain.join(' ');
+  const status = /Status:\s*([\w-]+)/.exec(meta)?.[1];
+  const exitCode = /Exit code:\s*(-?\d+)/.exec(meta)?.[1];
+  return {
+    command,
+    aggregatedOutput: output,
+    status,
+    exitCode: exitCode !== undefined ? Number(exitCode) : undefined,
+  };
+}
+
+function parseFileChangeCallout(lines: string[]): Record<string, unknown> {
+  const changes: Array<{ path: string; kind?: string; diff?: string }> = [];
+  let pending: string[] | null = null;
+  for (const line of lines) {
+    if (pending) {
+      pending.push(line);
+      if (/^`{3,}\s*$/.test(line.trim())) {
+        const last = changes[changes.length - 1];
+        const diff = splitFences(pending).fences[0]?.text;
+        if (last && diff) last.diff = diff;
+        pending = null;
+      }
+      continue;
+    }
+    const entry = /^- `([^`]+)`(?: \(([^)]+)\))?$/.exec(line.trim());
+    if (entry?.[1]) {
+      changes.push({ path: entry[1], kind: entry[2] });
+      continue;
+    }
+    if (/^`{3,}diff\s*$/.test(line.trim())) {
+      pending = [line];
+    }
+  }
+  return { changes };
+}
+
+function parsePlanCallout(lines: string[]): Record<string, unknown> {
+  const plan = lines
+    .map((line) => /^\d+\.\s+(.*?)(?: \((\w+)\))?$/.exec(line.trim()))
+    .filter((match): match is RegExpExecArray => !!match?.[1])
+    .map((match) => ({ step: match[1], status: match[2] }));
+  return { plan };
+}
+
+const CALLOUT_ITEM_TYPES: Record<string, string> = {
+  example: 'commandExecution',
+  note: 'fileChange',
+  todo: 'plan',
+};
+
+function parseFrontmatter(lines: string[]): { fields: Record<string, string>; bodyStart: number } {
+  const fields: Record<string, string> = {};
+  if (lines[0]?.trim() !== '---') {
+    return { fields, bodyStart: 0 };
+  }
+  for (let index = 1; index < lines.length; index += 1) {
+    const line = lines[index] ?? '';
+    if (line.trim() === '---') {
+      return { fields, bodyStart: index + 1 };
+    }
+    const separator = line.indexOf(':');
+    if (separator <= 0) continue;
+    const key = line.slice(0, separator).trim();
+    const rawValue = line.slice(separator + 1).trim();
+    const parsed = rawValue.startsWith('"') ? parseJson(rawValue) : rawValue;
+    if (typeof parsed === 'string') {
+      fields[key] = parsed;
+    }
+  }
+  return { fields, bodyStart: 0 };
+}
+
+export function parseExportedMarkdown(content: string, options: ImportOptions): CodexianConversation {
+  const lines = content.replace(/\r\n?/g, '\n').split('\n');
+  const { fields, bodyStart } = parseFrontmatter(lines);
+  const now = options.now ?? Date.now();
+  const createdAt = parseTimestamp(fields.created) ?? now;
+
+  const messages: ChatMessage[] = [];
+  const items: CodexianConversationItem[] = [];
+  let sequence = 0;
+  let current: { kind: 'message'; role: ChatMessage['role']; lines: string[] } | { kind: 'diff'; lines: string[] } | null =
+    null;
+  let callout: { type: string; lines: string[] } | null = null;
+
+  const flushCallout = (): void => {
+    if (!callout) return;
+    const itemType = CALLOUT_ITEM_TYPES[callout.type];
+    if (itemType) {
+      const item =
+        itemType === 'commandExecution'
+          ? parseCommandCallout(callout.lines)
+          : itemType === 'fileChange'
+            ? parseFileChangeCallout(callout.lines)
+            : parsePlanCallout(callout.lines);
+      items.push({ itemType, timestamp: createdAt + sequence++, item });
+    }
+    callout = null;
+  };
+
+  const flushCurrent = (): void => {
+    if (!current) return;
+    const text = current.lines.join('\n').trim();
+    if (current.kind === 'message' && text) {
+      messages.push({
+        id: `${options.id}-msg-${messages.length + 1}`,
+        role: current.role,
+        content: text,
+        timestamp: createdAt + sequence++,
+      });
+    } else if (current.kind === 'diff') {
+      const diff = splitFences(current.lines).fences[0]?.text.trim();
+      if (diff) {
+        items.push({ itemType: TURN_DIFF_ITEM_TYPE, timestamp: createdAt + sequence++, item: diff });
+      }
+    }
+    current = null;
+  };
+
+  for (let index = bodyStart; index < lines.length; index += 1) {
+    const line = lines[index] ?? '';
+    if (callout) {
+      if (line.startsWith('>')) {
+        callout.lines.push(line.replace(/^> ?/, ''));
+        continue;
+      }
+      flushCallout();
+    }
+
+    const heading = /^## (User|Assistant|Last turn diff)\s*$/.exec(line);
+    if (heading) {
+      flushCurrent();
+      current =
+        heading[1] === 'Last turn diff'
+          ? { kind: 'diff', lines: [] }
+          : { kind: 'message', role: heading[1] === 'User' ? 'user' : 'assistant', lines: [] };
+      continue;
+    }
+
+    const calloutStart = /^> \[!(\w+)\]-/.exec(line);
+    const previous = index > bodyStart ? lines[index - 1] ?? '' : '';
+    if (calloutStart?.[1] && CALLOUT_ITEM_TYPES[calloutStart[1]] && !previous.trim()) {
+      flushCurrent();
+      callout = { type: calloutStart[1], lines: [] };
+      continue;
+    }
+
+    current?.lines.push(line);
+  }
+  flushCallout();
+  flushCurrent();
+
+  if (messages.length === 0) {
+    throw new ConversationImportError('No messages found in the Markdown export.');
+  }
+
+  const mode = CODEXIAN_MODES.find((value) => value === fields.mode);
+  return {
+    id: options.id,
+    title: fields.title || buildTitle(messages, options.fileName),
+    model: fields.model,
+    reasoningEffort: fields.reasoning_effort,
+    mode,
+    createdAt,
+    updatedAt: parseTimestamp(fields.updated) ?? now,
+    lastResponseAt: parseTimestamp(fields.last_response),
+    messages,
+    items: items.length > 0 ? items : undefined,
+    importedFrom: {
+      format: 'markdown',
+      fileName: options.fileName,
+      importedAt: now,
+      messageCount: messages.length,
+      sourceThreadId: fields.thread_id,
+    },
+  };
+}
+
+const extractRolloutText = (content: unknown): string =>
+  getArray(content)
+    .map((part) => (isRecord(part) ? getString(part.text) ?? '' : ''))
+    .filter((text) => text.length > 0)
+    .join('\n')
+    .trim();
+
+const extractShellCommand = (value: unknown): string | undefined => {
+  if (typeof value === 'string') return value;
+  const parts = getArray(value).filter((part): part is string => typeof part === 'string');
+  if (parts.length === 0) return undefined;
+  const script = parts.length >= 3 && /(^|\/)(ba|z)?sh$/.test(parts[0] ?? '') && parts[1] === '-lc' ? parts[2] : undefined;
+  return script ?? parts.join(' ');
+};
+
+const extractPatchPaths = (patch: string): Array<{ path: string; kind: string }> =>
+  [...patch.matchAll(/^\*\*\* (Add|Update|Delete) File: (.+)$/gm)].map((match) => ({
+    path: (match[2] ?? '').trim(),
+    kind: (match[1] ?? 'update').toLowerCase(),
+  }));
+
+export function parseRolloutJsonl(content: string, options: ImportOptions): CodexianConversation {
+  const now = options.now ?? Date.now();
+  const messages: ChatMessage[] = [];
+  const items: CodexianConversationItem[] = [];
+  const pendingCalls = new Map<string, Record<string, unknown>>();
+  let sessionId: string | undefined;
+  let createdAt: number | undefined;
+  let updatedAt: number | undefined;
+  let model: string | undefined;
+  let reasoningEffort: string | undefined;
+  let fallbackTimestamp = now;
+
+  for (const line of content.split(/\r?\n/)) {
+    if (!line.trim()) continue;
+    const record = parseJson(line);
+    if (!isRecord(record)) continue;
+    const payload = isRecord(record.payload) ? record.payload : {};
+    const timestamp = parseTimestamp(record.timestamp) ?? fallbackTimestamp++;
+    createdAt ??= timestamp;
+    updatedAt = Math.max(updatedAt ?? timestamp, timestamp);
+
+    if (record.type === 'session_meta') {
+      sessionId = getString(payload.id) ?? sessionId;
+      createdAt = parseTimestamp(payload.timestamp) ?? createdAt;
+      continue;
+    }
+    if (record.type === 'turn_context') {
+      model = getString(payload.model) ?? model;
+      reasoningEffort = getString(payload.effort) ?? reasoningEffort;
+      continue;
+    }
+    if (record.type !== 'response_item') continue;
+
+    switch (payload.type) {
+      case 'message': {
+        const role = payload.role === 'user' ? 'user' : payload.role === 'assistant' ? 'assistant' : null;
+        const text = extractRolloutText(payload.content);
+        if (!role || !text || (role === 'user' && ROLLOUT_CONTEXT_TAG.test(text))) break;
+        messages.push({ id: `${options.id}-msg-${messages.length + 1}`, role, content: text, timestamp });
+        break;
+      }
+      case 'function_call':
+      case 'local_shell_call': {
+        const args = typeof payload.arguments === 'string' ? parseJson(payload.arguments) : undefined;
+        const action = isRecord(payload.action) ? payload.action : isRecord(args) ? args : {};
+        const command = extractShellCommand(action.command ?? action.cmd);
+        if (!command) break;
+        const item: Record<string, unknown> = { command, status: getString(payload.status) ?? 'completed' };
+        const callId = getString(payload.call_id) ?? getString(payload.id);
+        if (callId) pendingCalls.set(callId, item);
+        items.push({ itemType: 'commandExecution', itemId: callId, timestamp, item });
+        break;
+      }
+      case 'custom_tool_call': {
+        const input = getString(payload.input);
+        if (payload.name !== 'apply_patch' || !input) break;
+        const changes = extractPatchPaths(input);
+        items.push({
+          itemType: 'fileChange',
+          itemId: getString(payload.call_id),
+          timestamp,
+          item: { changes, diff: input },
+        });
+        break;
+      }
+      case 'function_call_output': {
+        const item = pendingCalls.get(getString(payload.call_id) ?? '');
+        if (!item) break;
+        const rawOutput = payload.output;
+        const parsed = typeof rawOutput === 'string' ? parseJson(rawOutput) : rawOutput;
+        const result = isRecord(parsed) ? parsed : { output: rawOutput };
+        const metadata = isRecord(result.metadata) ? result.metadata : {};
+        item.aggregatedOutput = getString(result.output) ?? getString(rawOutput);
+        item.exitCode = getNumber(metadata.exit_code);
+        if (item.exitCode !== undefined && item.exitCode !== 0) {
+          item.status = 'failed';
+        }
+        break;
+      }
+      default:
+        break;
+    }
+  }
+
+  if (messages.length === 0) {
+    throw new ConversationImportError('No messages found in the rollout file.');
+  }
+
+  return {
+    id: options.id,
+    title: buildTitle(messages, options.fileName),
+    model,
+    reasoningEffort,
+    createdAt: createdAt ?? now,
+    updatedAt: updatedAt ?? now,
+    lastResponseAt: [...messages].reverse().find((message) => message.role === 'assistant')?.timestamp,
+    messages,
+    items: items.length > 0 ? items : undefined,
+    importedFrom: {
+      format: 'rollout',
+      fileName: options.fileName,
+      importedAt: now,
+      messageCount: messages.length,
+      sourceThreadId: sessionId,
+    },
+  };
+}
+
+export function detectImportFormat(fileName: string, content: string): CodexianImportFormat {
+  if (/\.jsonl$/i.test(fileName)) return 'rollout';
+  if (/\.md$/i.test(fileName)) return 'markdown';
+  return content.trimStart().startsWith('{') ? 'rollout' : 'markdown';
+}
+
+export function importConversation(content: string, options: ImportOptions): CodexianConversation {
+  return detectImportFormat(options.fileName, content) === 'rollout'
+    ? parseRolloutJsonl(content, options)
+    : parseExportedMarkdown(content, options);
+}
+
+export function buildImportedSessionContext(
+  conversation: CodexianConversation,
+  maxChars: number = IMPORTED_CONTEXT_MAX_CHARS
+): string | null {
+  const source = conversation.importedFrom;
+  if (!source) return null;
+  const transcript = conversation.messages
+    .slice(0, source.messageCount)
+    .map((message) => `${message.role === 'user' ? 'User' : 'Assistant'}: ${message.content}`)
+    .join('\n\n');
+  if (!transcript) return null;
+  const truncated = transcript.length > maxChars;
+  const text = truncated ? transcript.slice(transcript.length - maxChars) : transcript;
+  return [
+    '[Context: Imported session]',
+    `Source: ${source.fileName}`,
+    'Continue this conversation. The earlier transcript is below.',
+    truncated ? `(Truncated: showing last ${maxChars} of ${transcript.length} chars.)` : '',
+    '```text',
+    text,
+    '```',
+  ]
+    .filter((line) => line.length > 0)
+    .join('\n');
+}
@@ -5,8 +5,20 @@ import * as fs from 'fs';
 import * as path from 'path';
 
 import type CodexianPlugin from '../../main';
-import type { ApprovalRule, CodexianSettings, EnvSnippet } from '../../core/types';
+import type {
+  ApprovalRule,
+  CodexianSettings,
+  CustomMode,
+  EnvSnippet,
+  McpApprovalDefault,
+  ModelPricing,
+} from '../../core/types';
 import { findCodexCLIPath, resolveCliCommand } from '../../core/runtime';
+import { DEFAULT_SESSIONS_FOLDER } from '../../core/storage/SessionStorage';
+import { parsePatternSpec, validatePatternSpec, type PatternTarget } from '../../core/security/PatternMatcher';
+import { formatApprovalRule } from '../approvals/ApprovalAudit';
+import { createCustomMode } from '../chat/context/ChatModes';
+import { formatPolicyTestResult, testApprovalPolicy, type PolicyTestTarget } from './PolicyTester';
 
 export const DEFAULT_SETTINGS: CodexianSettings = {
   cliPath: '',
@@ -16,35 +28,125 @@ export const DEFAULT_SETTINGS: CodexianSettings = {
   approvalRules: [],
   commandBlocklist: [],
   pathBlocklist: [],
+  mcpServerApprovals: {},
+  requestTimeouts: {},
+  modelPricing: {},
+  pauseQueueOnFailure: true,
+  customModes: [],
+  sessionsFolder: DEFAULT_SESSIONS_FOLDER,
+  sessionRetention: { maxAgeDays: 0, maxCount: 0, archive: true, archiveThreads: false },
   lastModel: undefined,
   lastReasoningEffort: undefined,
   lastMode: undefined,
 };
 
+const parseRetentionLimit = (input: string): number => {
+  const value = Math.floor(Number(input.trim()));
+  return Number.isFinite(value) && value > 0 ? value : 0;
+};
+
 const parseListLines = (input: string): string[] =>
   input
     .split('\n')
     .map((line) => line.trim())
     .filter((line) => line.length > 0);
 
-const parseApprovalRules = (input: string): ApprovalRule[] => {
-  return parseListLines(input)
-    .map((line) => {
-      const [rawKind, ...rest] = line.split(':');
-      const kind = (rawKind || '').trim().toLowerCase();
-      const pattern = rest.join(':').trim();
-      if (!pattern) return null;
-      if (kind !== 'command' && kind !== 'path') return null;
-      return { kind, pattern } as ApprovalRule;
-    })
-    .filter((rule): rule is ApprovalRule => !!rule);
+const parseApprovalRuleLine = (line: string): ApprovalRule | string => {
+  const [rawKind, ...rest] = line.split(':');
+  const kind = (rawKind || '').trim().toLowerCase();
+  if (kind !== 'command' && kind !== 'path' && kind !== 'tool') {
+    return 'Start the rule with command:, path: or tool:.';
+  }
+  const spec = parsePatternSpec(rest.join(':'), kind);
+  return validatePatternSpec(spec, kind) ?? { kind, pattern: spec.pattern, matcher: spec.matcher };
 };
 
+const parseApprovalRules = (input: string): ApprovalRule[] =>
+  parseListLines(input)
+    .map(parseApprovalRuleLine)
+    .filter((rule): rule is ApprovalRule => typeof rule !== 'string');
+
 const stringifyApprovalRules = (rules: ApprovalRule[]): string =>
-  rules.map((rule) => `${rule.kind}: ${rule.pattern}`).join('\n');
+  rules.map(formatApprovalRule).join('\n');
+
+const collectApprovalRuleErrors = (input: string): string[] =>
+  parseListLines(input).flatMap((line) => {
+    const result = parseApprovalRuleLine(line);
+    return typeof result === 'string' ? [`${line}: ${result}`] : [];
+  });
+
+const collectPatternErrors = (input: string, target: PatternTarget): string[] =>
+  parseListLines(input).flatMap((line) => {
+    const error = validatePatternSpec(parsePatternSpec(line, target), target);
+    return error ? [`${line}: ${error}`] : [];
+  });
+
+const renderPatternErrors = (errorEl: HTMLElement, errors: string[]): void => {
+  errorEl.setText(errors.join('\n'));
+  errorEl.toggle(errors.length > 0);
+};
+
+const MCP_APPROVAL_DEFAULTS: McpApprovalDefault[] = ['allow', 'deny', 'prompt'];
+
+const parseMcpServerApprovals = (input: string): Record<string, McpApprovalDefault> => {
+  const result: Record<string, McpApprovalDefault> = {};
+  for (const line of parseListLines(input)) {
+    const [rawServer, rawDefault] = line.split('=');
+    const server = (rawServer || '').trim();
+    const value = (rawDefault || '').trim().toLowerCase();
+    const match = MCP_APPROVAL_DEFAULTS.find((entry) => entry === value);
+    if (!server || !match) continue;
+    result[server] = match;
+  }
+  return result;
+};
+
+const stringifyMcpServerApprovals = (defaults: Record<string, McpApprovalDefault>): string =>
+  Object.entries(defaults)
+    .map(([server, value]) => `${server} = ${value}`)
+    .join('\n');
+
+const parseRequestTimeouts = (input: string): Record<string, number> => {
+  const result: Record<string, number> = {};
+  for (const line of parseListLines(input)) {
+    const [rawMethod, rawSeconds] = line.split('=');
+    const method = (rawMethod || '').trim();
+    const seconds = Number((rawSeconds || '').trim());
+    if (!method || !Number.isFinite(seconds) || seconds < 0) continue;
+    result[method] = Math.round(seconds * 1000);
+  }
+  return result;
+};
+
+const parseModelPricing = (input: string): Record<string, ModelPricing> => {
+  const result: Record<string, ModelPricing> = {};
+  for (const line of parseListLines(input)) {
+    const [rawModel, rawPrices] = line.split('=');
+    const model = (rawModel || '').trim();
+    const prices = (rawPrices || '').split(',').map((value) => Number(value.trim()));
+    if (!model || prices.length !== 3 || prices.some((value) => !Number.isFinite(value) || value < 0)) continue;
+    const [inputPerMillion = 0, cachedInputPerMillion = 0, outputPerMillion = 0] = prices;
+    result[model] = { inputPerMillion, cachedInputPerMillion, outputPerMillion };
+  }
+  return result;
+};
+
+const stringifyModelPricing = (pricing: Record<string, ModelPricing>): string =>
+  Object.entries(pricing)
+    .map(
+      ([model, price]) =>
+        `${model} = ${price.inputPerMillion}, ${price.cachedInputPerMillion}, ${price.outputPerMillion}`
+    )
+    .join('\n');
+
+const stringifyRequestTimeouts = (timeouts: Record<string, number>): string =>
+  Object.entries(timeouts)
+    .map(([method, timeoutMs]) => `${method} = ${timeoutMs / 1000}`)
+    .join('\n');
 
 export class CodexianSettingTab extends PluginSettingTab {
   plugin: CodexianPlugin;
+  private refreshPolicyTest: () => void = () => undefined;
 
   constructor(app: App, plugin: CodexianPlugin) {
     super(app, plugin);
@@ -139,21 +241,29 @@ export class CodexianSettingTab extends PluginSettingTab {
             } else {
               this.plugin.settings.approvalMode = 'safe';
             }
+            this.refreshPolicyTest();
             await this.plugin.saveSettings();
           })();
         });
       });
 
-    new Setting(containerEl)
+    const approvalRulesSetting = new Setting(containerEl)
       .setName('Approval allow rules')
-      .setDesc('Add one rule per line using command or path prefixes.')
+      .setDesc(
+        'One rule per line as command:, path: or tool: followed by a pattern. Tool patterns name an mcp server and tool, e.g. tool: github/list_issues. Prefix the pattern with exact:, prefix:, glob: or regex: to pick a matcher.'
+      );
+    const approvalRulesErrorEl = approvalRulesSetting.descEl.createDiv({ cls: 'codexian-setting-error' });
+    renderPatternErrors(approvalRulesErrorEl, []);
+    approvalRulesSetting
       .addTextArea((text) => {
         text
           .setPlaceholder('Enter one rule per line.')
           .setValue(stringifyApprovalRules(this.plugin.settings.approvalRules))
           .onChange((value) => {
             void (async () => {
+              renderPatternErrors(approvalRulesErrorEl, collectApprovalRuleErrors(value));
               this.plugin.settings.approvalRules = parseApprovalRules(value);
+              this.refreshPolicyTest();
               await this.plugin.saveSettings();
             })();
           });
@@ -161,16 +271,24 @@ export class CodexianSettingTab extends PluginSettingTab {
         text.inputEl.addClass('codexian-input-full');
       });
 
-    new Setting(containerEl)
+    const commandBlocklistSetting = new Setting(containerEl)
       .setName('Command blocklist')
-      .setDesc('Add one command pattern per line. Supports exact and suffix wildcard patterns.')
+      .setDesc('One command pattern per line. Exact commands, trailing wildcards, globs and regex: patterns are supported.');
+    const commandBlocklistErrorEl = commandBlocklistSetting.descEl.createDiv({ cls: 'codexian-setting-error' });
+    renderPatternErrors(
+      commandBlocklistErrorEl,
+      collectPatternErrors(this.plugin.settings.commandBlocklist.join('\n'), 'command')
+    );
+    commandBlocklistSetting
       .addTextArea((text) => {
         text
-          .setPlaceholder('Rm *\nGit push --force')
+          .setPlaceholder('Rm *\nGit push --force*')
           .setValue(this.plugin.settings.commandBlocklist.join('\n'))
           .onChange((value) => {
             void (async () => {
+              renderPatternErrors(commandBlocklistErrorEl, collectPatternErrors(value, 'command'));
               this.plugin.settings.commandBlocklist = parseListLines(value);
+              this.refreshPolicyTest();
               await this.plugin.saveSettings();
             })();
           });
@@ -178,19 +296,27 @@ export class CodexianSettingTab extends PluginSettingTab {
         text.inputEl.addClass('codexian-input-full');
       });
 
-    new Setting(containerEl)
+    const pathBlocklistSetting = new Setting(containerEl)
       .setName('Path blocklist')
-      .setDesc('One path prefix per line. Segment-aware prefix matching is used.')
+      .setDesc('One path per line. Plain paths match by segment prefix. Globs such as **/secrets/** and regex: patterns are supported.');
+    const pathBlocklistErrorEl = pathBlocklistSetting.descEl.createDiv({ cls: 'codexian-setting-error' });
+    renderPatternErrors(
+      pathBlocklistErrorEl,
+      collectPatternErrors(this.plugin.settings.pathBlocklist.join('\n'), 'path')
+    );
+    pathBlocklistSetting
       .addTextArea((text) => {
         const configPathExample = this.app.vault.configDir
-          ? `${this.app.vault.configDir}/plugins/`
+          ? `**/${this.app.vault.configDir}/**`
           : 'Config/plugins/';
         text
           .setPlaceholder(`${configPathExample}\nSecrets/`)
           .setValue(this.plugin.settings.pathBlocklist.join('\n'))
           .onChange((value) => {
             void (async () => {
+              renderPatternErrors(pathBlocklistErrorEl, collectPatternErrors(value, 'path'));
               this.plugin.settings.pathBlocklist = parseListLines(value);
+              this.refreshPolicyTest();
               await this.plugin.saveSettings();
             })();
           });
@@ -198,6 +324,78 @@ export class CodexianSettingTab extends PluginSettingTab {
         text.inputEl.addClass('codexian-input-full');
       });
 
+    new Setting(containerEl)
+      .setName('Mcp server approvals')
+      .setDesc(
+        'One server = allow, deny or prompt per line. Applies to mcp tool calls that no tool: rule matches. Unlisted servers follow the approval mode.'
+      )
+      .addTextArea((text) => {
+        text
+          .setPlaceholder(stringifyMcpServerApprovals({ filesystem: 'prompt', docs: 'allow' }))
+          .setValue(stringifyMcpServerApprovals(this.plugin.settings.mcpServerApprovals))
+          .onChange((value) => {
+            void (async () => {
+              this.plugin.settings.mcpServerApprovals = parseMcpServerApprovals(value);
+              this.refreshPolicyTest();
+              await this.plugin.saveSettings();
+            })();
+          });
+        text.inputEl.rows = 3;
+        text.inputEl.addClass('codexian-input-full');
+      });
+
+    this.renderPolicyTester(containerEl);
+
+    this.renderCustomModes(containerEl);
+
+    new Setting(containerEl)
+      .setName('Pause queue on failure')
+      .setDesc('Stop running queued prompts when a turn fails or is interrupted. Resume from the queue list.')
+      .addToggle((toggle) => {
+        toggle.setValue(this.plugin.settings.pauseQueueOnFailure).onChange((value) => {
+          void (async () => {
+            this.plugin.settings.pauseQueueOnFailure = value;
+            await this.plugin.saveSettings();
+          })();
+        });
+      });
+
+    new Setting(containerEl)
+      .setName('Request timeouts')
+      .setDesc('One method = seconds per line to override the default app server timeouts. Use 0 to wait indefinitely.')
+      .addTextArea((text) => {
+        text
+          .setPlaceholder(stringifyRequestTimeouts({ 'thread/list': 15_000, 'model/list': 30_000 }))
+          .setValue(stringifyRequestTimeouts(this.plugin.settings.requestTimeouts))
+          .onChange((value) => {
+            void (async () => {
+              this.plugin.settings.requestTimeouts = parseRequestTimeouts(value);
+              await this.plugin.saveSettings();
+            })();
+          });
+        text.inputEl.rows = 3;
+        text.inputEl.addClass('codexian-input-full');
+      });
+
+    new Setting(containerEl)
+      .setName('Model pricing')
+      .setDesc('One model = input, cached input, output price per million tokens. Used to estimate usage cost.')
+      .addTextArea((text) => {
+        text
+          .setPlaceholder(
+            stringifyModelPricing({ 'gpt-5': { inputPerMillion: 1.25, cachedInputPerMillion: 0.125, outputPerMillion: 10 } })
+          )
+          .setValue(stringifyModelPricing(this.plugin.settings.modelPricing))
+          .onChange((value) => {
+            void (async () => {
+              this.plugin.settings.modelPricing = parseModelPricing(value);
+              await this.plugin.saveSettings();
+            })();
+          });
+        text.inputEl.rows = 3;
+        text.inputEl.addClass('codexian-input-full');
+      });
+
     new Setting(containerEl)
       .setName('Environment variables')
       .setDesc('One key=value per line. Lines starting with # or export are ignored.')
@@ -296,6 +494,261 @@ export class CodexianSettingTab extends PluginSettingTab {
           })();
         });
       });
+
+    this.renderSessionStorage(containerEl);
+  }
+
+  private renderSessionStorage(containerEl: HTMLElement): void {
+    new Setting(containerEl).setName('Session storage').setHeading();
+    const retention = this.plugin.settings.sessionRetention;
+    const saveRetention = (): void => {
+      void this.plugin.saveSettings();
+    };
+
+    let folder = this.plugin.settings.sessionsFolder;
+    new Setting(containerEl)
+      .setName('Sessions folder')
+      .setDesc('Vault folder for saved sessions and the approval audit log. Existing files move to the new folder.')
+      .addText((text) => {
+        text
+          .setPlaceholder(DEFAULT_SESSIONS_FOLDER)
+          .setValue(folder)
+          .onChange((value) => {
+            folder = value;
+          });
+      })
+      .addButton((button) => {
+        button.setButtonText('Move').onClick(() => {
+          void (async () => {
+            await this.plugin.setSessionsFolder(folder);
+            this.display();
+          })();
+        });
+      });
+
+    new Setting(containerEl)
+      .setName('Maximum age')
+      .setDesc('Days since a session was last updated before retention removes it. Use 0 to keep sessions of any age.')
+      .addText((text) => {
+        text.setValue(String(retention.maxAgeDays)).onChange((value) => {
+          retention.maxAgeDays = parseRetentionLimit(value);
+          saveRetention();
+        });
+      });
+
+    new Setting(containerEl)
+      .setName('Maximum sessions')
+      .setDesc('Keep only the most recently updated sessions. Use 0 for no limit.')
+      .addText((text) => {
+        text.setValue(String(retention.maxCount)).onChange((value) => {
+          retention.maxCount = parseRetentionLimit(value);
+          saveRetention();
+        });
+      });
+
+    new Setting(containerEl)
+      .setName('Archive instead of delete')
+      .setDesc('Move expired sessions to the archive subfolder rather than deleting them.')
+      .addToggle((toggle) => {
+        toggle.setValue(retention.archive).onChange((value) => {
+          retention.archive = value;
+          saveRetention();
+        });
+      });
+
+    new Setting(containerEl)
+      .setName('Archive app server threads')
+      .setDesc('Also archive the codex thread of each expired session.')
+      .addToggle((toggle) => {
+        toggle.setValue(retention.archiveThreads).onChange((value) => {
+          retention.archiveThreads = value;
+          saveRetention();
+        });
+      });
+
+    new Setting(containerEl)
+      .setName('Apply retention')
+      .setDesc('Retention also runs when the plugin starts. Open sessions are never removed.')
+      .addButton((button) => {
+        button.setButtonText('Apply now').onClick(() => {
+          void this.plugin.runSessionRetention(true);
+        });
+      });
+  }
+
+  private renderCustomModes(containerEl: HTMLElement): void {
+    new Setting(containerEl).setName('Custom modes').setHeading();
+
+    new Setting(containerEl)
+      .setName('Add mode')
+      .setDesc('Custom modes appear in the mode menu next to agent, chat and full access.')
+      .addButton((button) => {
+        button.setButtonText('Add').onClick(() => {
+          void (async () => {
+            this.plugin.settings.customModes.push(createCustomMode('New mode'));
+            await this.plugin.saveSettings();
+            this.display();
+          })();
+        });
+      });
+
+    for (const mode of this.plugin.settings.customModes) {
+      this.renderCustomMode(containerEl.createDiv({ cls: 'codexian-custom-mode' }), mode);
+    }
+  }
+
+  private renderCustomMode(containerEl: HTMLElement, mode: CustomMode): void {
+    const save = (): void => {
+      void this.plugin.saveSettings();
+    };
+
+    new Setting(containerEl)
+      .setName('Mode')
+      .addText((text) => {
+        text
+          .setPlaceholder('Mode name')
+          .setValue(mode.name)
+          .onChange((value) => {
+            mode.name = value.trim();
+            save();
+          });
+      })
+      .addDropdown((dropdown) => {
+        dropdown.addOption('on-request', 'Ask for approval');
+        dropdown.addOption('never', 'Never ask');
+        dropdown.setValue(mode.approvalPolicy);
+        dropdown.onChange((value) => {
+          mode.approvalPolicy = value === 'never' ? 'never' : 'on-request';
+          save();
+        });
+      })
+      .addDropdown((dropdown) => {
+        dropdown.addOption('readOnly', 'Read only');
+        dropdown.addOption('workspaceWrite', 'Workspace write');
+        dropdown.addOption('dangerFullAccess', 'Full access');
+        dropdown.setValue(mode.sandbox);
+        dropdown.onChange((value) => {
+          mode.sandbox = value === 'readOnly' || value === 'dangerFullAccess' ? value : 'workspaceWrite';
+          save();
+        });
+      })
+      .addButton((button) => {
+        button.setButtonText('Delete').onClick(() => {
+          void (async () => {
+            this.plugin.settings.customModes = this.plugin.settings.customModes.filter(
+              (entry) => entry.id !== mode.id
+            );
+            if (this.plugin.settings.lastMode === mode.id) {
+              this.plugin.settings.lastMode = undefined;
+            }
+            await this.plugin.saveSettings();
+            this.display();
+          })();
+        });
+      });
+
+    new Setting(containerEl)
+      .setName('Network access')
+      .setDesc('Allow network access from the workspace write sandbox.')
+      .addToggle((toggle) => {
+        toggle.setValue(mode.networkAccess).onChange((value) => {
+          mode.networkAccess = value;
+          save();
+        });
+      });
+
+    new Setting(containerEl)
+      .setName('Extra writable roots')
+      .setDesc('One absolute folder per line that the workspace write sandbox may also modify.')
+      .addTextArea((text) => {
+        text
+          .setPlaceholder('/tmp/builds')
+          .setValue(mode.writableRoots.join('\n'))
+          .onChange((value) => {
+            mode.writableRoots = parseListLines(value);
+            save();
+          });
+        text.inputEl.rows = 2;
+        text.inputEl.addClass('codexian-input-full');
+      });
+
+    new Setting(containerEl)
+      .setName('Default model and effort')
+      .setDesc('Applied when the mode is selected. Leave empty to keep the current selection.')
+      .addText((text) => {
+        text
+          .setPlaceholder('Model')
+          .setValue(mode.model ?? '')
+          .onChange((value) => {
+            mode.model = value.trim() || undefined;
+            save();
+          });
+      })
+      .addDropdown((dropdown) => {
+        dropdown.addOption('', 'Any effort');
+        for (const effort of ['low', 'medium', 'high']) {
+          dropdown.addOption(effort, effort);
+        }
+        dropdown.setValue(mode.reasoningEffort ?? '');
+        dropdown.onChange((value) => {
+          mode.reasoningEffort = value || undefined;
+          save();
+        });
+      });
+
+    new Setting(containerEl)
+      .setName('Prompt prefix')
+      .setDesc('Optional instructions sent before every prompt in this mode.')
+      .addTextArea((text) => {
+        text
+          .setPlaceholder('Answer as a careful reviewer.')
+          .setValue(mode.promptPrefix ?? '')
+          .onChange((value) => {
+            mode.promptPrefix = value.trim() || undefined;
+            save();
+          });
+        text.inputEl.rows = 3;
+        text.inputEl.addClass('codexian-input-full');
+      });
+  }
+
+  private renderPolicyTester(containerEl: HTMLElement): void {
+    let target: PolicyTestTarget = 'command';
+    let value = '';
+    const testerSetting = new Setting(containerEl)
+      .setName('Test policy')
+      .setDesc('Dry-run a command, vault path or mcp server/tool against the current approval mode, rules and blocklists.');
+    const resultEl = containerEl.createEl('pre', { cls: 'codexian-policy-test-result' });
+
+    this.refreshPolicyTest = () => {
+      const result = testApprovalPolicy(this.plugin.settings, this.plugin.getVaultPathForFilter(), target, value);
+      resultEl.setText(
+        result
+          ? formatPolicyTestResult(result, this.plugin.settings.approvalMode).join('\n')
+          : 'Enter a command or path to see how it would be handled.'
+      );
+      resultEl.dataset.decision = result ? (result.resolution.requiresPrompt ? 'prompt' : result.resolution.decision) : '';
+    };
+
+    testerSetting
+      .addDropdown((dropdown) => {
+        dropdown.addOption('command', 'Command');
+        dropdown.addOption('path', 'Path');
+        dropdown.addOption('tool', 'Mcp tool');
+        dropdown.setValue(target);
+        dropdown.onChange((next) => {
+          target = next === 'path' || next === 'tool' ? next : 'command';
+          this.refreshPolicyTest();
+        });
+      })
+      .addText((text) => {
+        text.setPlaceholder('Git push origin main').onChange((next) => {
+          value = next;
+          this.refreshPolicyTest();
+        });
+        text.inputEl.addClass('codexian-policy-test-input');
+      });
+    this.refreshPolicyTest();
   }
 
   private requestSnippetName(): Promise<string | null> {
@@ -0,0 +1,95 @@
+import {
+  ApprovalManager,
+  type ApprovalManagerSettings,
+  type ApprovalResolution,
+  type CommandPartEvaluation,
+} from '../../core/security/ApprovalManager';
+import type { CodexianSettings, McpApprovalDefault } from '../../core/types';
+import { formatApprovalRule } from '../approvals/ApprovalAudit';
+
+export type PolicyTestTarget = 'command' | 'path' | 'tool';
+
+export interface PolicyTestResult {
+  target: PolicyTestTarget;
+  value: string;
+  resolution: ApprovalResolution;
+  parts?: CommandPartEvaluation[];
+  insideVault?: boolean;
+  serverDefault?: McpApprovalDefault;
+}
+
+export function testApprovalPolicy(
+  settings: ApprovalManagerSettings,
+  vaultPath: string,
+  target: PolicyTestTarget,
+  value: string
+): PolicyTestResult | null {
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+  const manager = new ApprovalManager(settings, vaultPath);
+  if (target === 'command') {
+    return {
+      target,
+      value: trimmed,
+      resolution: manager.resolveCommand({ command: trimmed }),
+      parts: manager.explainCommand(trimmed),
+    };
+  }
+  if (target === 'tool') {
+    const separator = trimmed.indexOf('/');
+    const server = separator > 0 ? trimmed.slice(0, separator) : trimmed;
+    const tool = separator > 0 ? trimmed.slice(separator + 1) : '';
+    return {
+      target,
+      value: trimmed,
+      resolution: manager.resolveTool({ server, tool }),
+      serverDefault: settings.mcpServerApprovals[server.trim()],
+    };
+  }
+  return {
+    target,
+    value: trimmed,
+    resolution: manager.resolveFileChange({ paths: [trimmed] }),
+    insideVault: manager.isPathInsideVault(trimmed),
+  };
+}
+
+export function describeResolution(resolution: ApprovalResolution): string {
+  if (resolution.requiresPrompt) return 'Prompt for approval';
+  return resolution.decision === 'accept' ? 'Accept without prompting' : 'Decline without prompting';
+}
+
+const describePart = (part: CommandPartEvaluation): string => {
+  if (part.status === 'blocked') return `${part.command}: blocked by ${part.blockedBy ?? 'blocklist'}`;
+  if (part.status === 'allowed' && part.rule) return `${part.command}: allowed by ${formatApprovalRule(part.rule)}`;
+  return `${part.command}: no allow rule matched`;
+};
+
+export function formatPolicyTestResult(result: PolicyTestResult, mode: CodexianSettings['approvalMode']): string[] {
+  const { resolution } = result;
+  const lines = [`Decision: ${describeResolution(resolution)}`];
+
+  if (result.target === 'path') {
+    lines.push(`Inside vault: ${result.insideVault ? 'yes' : 'no'}`);
+    if (!result.insideVault) {
+      lines.push('Paths outside the vault are always declined.');
+      return lines;
+    }
+  }
+
+  if (result.parts && result.parts.length > 1) {
+    lines.push(`Compound command with ${result.parts.length} parts:`);
+    lines.push(...result.parts.map((part) => `  ${describePart(part)}`));
+  }
+
+  if (resolution.blockedBy !== undefined) {
+    lines.push(`Blocklist entry: ${resolution.blockedBy}`);
+  } else if (resolution.matchedRules && resolution.matchedRules.length > 0) {
+    lines.push(...resolution.matchedRules.map((rule) => `Allow rule: ${formatApprovalRule(rule)}`));
+  } else if (result.serverDefault) {
+    lines.push(`No tool rule matched, so the server default (${result.serverDefault}) decides.`);
+  } else {
+    lines.push(`No rule matched, so the ${mode} approval mode decides.`);
+  }
+  return lines;
+}
@@ -0,0 +1,118 @@
+import type { CodexianConversation, CodexianUsageRecord, ModelPricing } from '../../core/types';
+
+export interface UsageTotals {
+  turns: number;
+  inputTokens: number;
+  cachedInputTokens: number;
+  outputTokens: number;
+  reasoningOutputTokens: number;
+  totalTokens: number;
+  cost: number | null;
+}
+
+export interface UsageBucket extends UsageTotals {
+  key: string;
+}
+
+export interface UsageSummary {
+  total: UsageTotals;
+  byModel: UsageBucket[];
+  byDay: UsageBucket[];
+}
+
+const UNKNOWN_MODEL = 'Unknown model';
+
+const emptyTotals = (): UsageTotals => ({
+  turns: 0,
+  inputTokens: 0,
+  cachedInputTokens: 0,
+  outputTokens: 0,
+  reasoningOutputTokens: 0,
+  totalTokens: 0,
+  cost: null,
+});
+
+const toDayKey = (timestamp: number): string => {
+  const date = new Date(timestamp);
+  const month = `${date.getMonth() + 1}`.padStart(2, '0');
+  const day = `${date.getDate()}`.padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+export function estimateUsageCost(
+  record: CodexianUsageRecord,
+  pricing: Record<string, ModelPricing>
+): number | null {
+  const price = record.model ? pricing[record.model] : undefined;
+  if (!price) return null;
+  const uncachedInput = Math.max(0, record.inputTokens - record.cachedInputTokens);
+  return (
+    (uncachedInput * price.inputPerMillion +
+      record.cachedInputTokens * price.cachedInputPerMillion +
+      record.outputTokens * price.outputPerMillion) /
+    1_000_000
+  );
+}
+
+const addRecord = (totals: UsageTotals, record: CodexianUsageRecord, cost: number | null): void => {
+  totals.turns += 1;
+  totals.inputTokens += record.inputTokens;
+  totals.cachedInputTokens += record.cachedInputTokens;
+  totals.outputTokens += record.outputTokens;
+  totals.reasoningOutputTokens += record.reasoningOutputTokens;
+  totals.totalTokens += record.totalTokens;
+  if (cost !== null) {
+    totals.cost = (totals.cost ?? 0) + cost;
+  }
+};
+
+export function sumUsage(
+  records: CodexianUsageRecord[],
+  pricing: Record<string, ModelPricing> = {}
+): UsageTotals {
+  const totals = emptyTotals();
+  for (const record of records) {
+    addRecord(totals, record, estimateUsageCost(record, pricing));
+  }
+  return totals;
+}
+
+export function summarizeUsage(
+  conversations: CodexianConversation[],
+  pricing: Record<string, ModelPricing> = {}
+): UsageSummary {
+  const total = emptyTotals();
+  const byModel = new Map<string, UsageBucket>();
+  const byDay = new Map<string, UsageBucket>();
+  const bucketFor = (buckets: Map<string, UsageBucket>, key: string): UsageBucket => {
+    let bucket = buckets.get(key);
+    if (!bucket) {
+      bucket = { key, ...emptyTotals() };
+      buckets.set(key, bucket);
+    }
+    return bucket;
+  };
+
+  for (const conversation of conversations) {
+    for (const record of conversation.usage ?? []) {
+      const cost = estimateUsageCost(record, pricing);
+      addRecord(total, record, cost);
+      addRecord(bucketFor(byModel, record.model || UNKNOWN_MODEL), record, cost);
+      addRecord(bucketFor(byDay, toDayKey(record.timestamp)), record, cost);
+    }
+  }
+
+  return {
+    total,
+    byModel: [...byModel.values()].sort((a, b) => b.totalTokens - a.totalTokens),
+    byDay: [...byDay.values()].sort((a, b) => b.key.localeCompare(a.key)),
+  };
+}
+
+export function formatTokenCount(value: number): string {
+  return value >= 1000 ? `${(value / 1000).toFixed(value >= 10_000 ? 0 : 1)}k` : `${value}`;
+}
+
+export function formatCost(cost: number | null): string {
+  return cost === null ? '-' : `$${cost.toFixed(cost < 1 ? 4 : 2)}`;
+}
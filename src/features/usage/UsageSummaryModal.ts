@@ -0,0 +1,72 @@
+import { Modal } from 'obsidian';
+
+import type CodexianPlugin from '../../main';
+import { formatCost, formatTokenCount, summarizeUsage, type UsageBucket } from './UsageSummary';
+
+export class UsageSummaryModal extends Modal {
+  private plugin: CodexianPlugin;
+
+  constructor(plugin: CodexianPlugin) {
+    super(plugin.app);
+    this.plugin = plugin;
+  }
+
+  onOpen(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.createEl('h3', { text: 'Usage summary' });
+    const bodyEl = contentEl.createDiv({ cls: 'codexian-usage-summary' });
+    bodyEl.createDiv({ cls: 'codexian-session-meta', text: 'Loading usage...' });
+
+    void (async () => {
+      let summary;
+      try {
+        const conversations = await this.plugin.listSavedConversations();
+        summary = summarizeUsage(conversations, this.plugin.settings.modelPricing);
+      } catch (error) {
+        bodyEl.empty();
+        const message = error instanceof Error ? error.message : 'Unknown error.';
+        bodyEl.createDiv({ cls: 'codexian-session-meta', text: `Failed to load usage: ${message}` });
+        return;
+      }
+
+      bodyEl.empty();
+      if (summary.total.turns === 0) {
+        bodyEl.createDiv({ cls: 'codexian-session-meta', text: 'No usage recorded yet.' });
+        return;
+      }
+
+      const { total } = summary;
+      bodyEl.createDiv({
+        cls: 'codexian-session-meta',
+        text: `${total.turns} turns, ${formatTokenCount(total.totalTokens)} tokens, estimated cost ${formatCost(total.cost)}`,
+      });
+      this.renderTable(bodyEl, 'By model', 'Model', summary.byModel);
+      this.renderTable(bodyEl, 'By day', 'Day', summary.byDay);
+    })();
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+  }
+
+  private renderTable(parent: HTMLElement, title: string, keyLabel: string, buckets: UsageBucket[]): void {
+    parent.createEl('h4', { text: title });
+    const table = parent.createEl('table', { cls: 'codexian-usage-table' });
+    const headerRow = table.createEl('thead').createEl('tr');
+    for (const label of [keyLabel, 'Turns', 'Input', 'Cached', 'Output', 'Total', 'Cost']) {
+      headerRow.createEl('th', { text: label });
+    }
+    const body = table.createEl('tbody');
+    for (const bucket of buckets) {
+      const row = body.createEl('tr');
+      row.createEl('td', { text: bucket.key });
+      row.createEl('td', { text: `${bucket.turns}` });
+      row.createEl('td', { text: formatTokenCount(bucket.inputTokens) });
+      row.createEl('td', { text: formatTokenCount(bucket.cachedInputTokens) });
+      row.createEl('td', { text: formatTokenCount(bucket.outputTokens) });
+      row.createEl('td', { text: formatTokenCount(bucket.totalTokens) });
+      row.createEl('td', { text: formatCost(bucket.cost) });
+    }
+  }
+}
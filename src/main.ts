@@ -1,35 +1,83 @@
-import { MarkdownView, Notice, Plugin } from 'obsidian';
+import { MarkdownView, Notice, Plugin, TFile } from 'obsidian';
 
 import { CodexRuntime } from './core/runtime';
-import { SessionStorage } from './core/storage';
+import {
+  FOLDER_POLICY_FILE,
+  FOLDER_POLICY_FRONTMATTER_KEY,
+  FolderPolicyError,
+  loadNearestFolderPolicies,
+  mergeFolderPolicies,
+  type EffectivePolicy,
+} from './core/security/FolderPolicy';
+import {
+  ApprovalAuditStorage,
+  getApprovalAuditFolder,
+  LEGACY_APPROVAL_AUDIT_PATH,
+  SessionStorage,
+} from './core/storage';
+import {
+  DEFAULT_SESSIONS_FOLDER,
+  LEGACY_SESSIONS_FOLDER,
+  type SessionSearchResult,
+} from './core/storage/SessionStorage';
 import type {
   AppServerThread,
+  ApprovalAuditRecord,
+  ApprovalRule,
   ChatMessage,
   CodexianConversation,
   CodexianData,
   CodexianSettings,
+  SessionIndexEntry,
 } from './core/types';
+import { ApprovalAuditModal } from './features/approvals/ApprovalAuditModal';
+import { isSameApprovalRule } from './features/approvals/ApprovalAudit';
 import { CodexianSettingTab, DEFAULT_SETTINGS } from './features/settings/CodexianSettings';
 import { CodexianView, VIEW_TYPE_CODEXIAN } from './features/chat/CodexianView';
+import { findModeOption } from './features/chat/context/ChatModes';
+import { DiagnosticsModal } from './features/diagnostics/DiagnosticsModal';
+import {
+  buildExportFileName,
+  EXPORT_FOLDER,
+  renderConversationMarkdown,
+} from './features/export/ConversationExporter';
+import { importConversation } from './features/export/ConversationImporter';
+import { UsageSummaryModal } from './features/usage/UsageSummaryModal';
 import { runInlineEditCommand } from './features/inline-edit/runInlineEditCommand';
 
+const normalizeSessionsFolder = (folder: string): string =>
+  folder.trim().replace(/\\/g, '/').replace(/\/{2,}/g, '/').replace(/^\/+|\/+$/g, '') || DEFAULT_SESSIONS_FOLDER;
+
 export default class CodexianPlugin extends Plugin {
   settings: CodexianSettings;
   runtime: CodexRuntime;
   pendingContextBlocks: string[] = [];
   pendingPrefillText: string | null = null;
   private storage: SessionStorage;
+  private approvalAudit: ApprovalAuditStorage;
   private activeConversationId: string | null = null;
   private conversation: CodexianConversation | null = null;
+  private lastActiveView: CodexianView | null = null;
+  private migrateLegacySessions = false;
 
   onload(): void {
     void this.loadSettings()
       .then(() => {
-      this.storage = new SessionStorage(this.app.vault.adapter);
+      this.storage = new SessionStorage(this.app.vault.adapter, this.settings.sessionsFolder);
       this.runtime = new CodexRuntime(this.settings, this.getVaultPath());
       this.runtime.setSettingsChangedHandler(async () => {
         await this.saveSettings();
       });
+      this.approvalAudit = new ApprovalAuditStorage(
+        this.app.vault.adapter,
+        getApprovalAuditFolder(this.settings.sessionsFolder)
+      );
+      this.runtime.setApprovalAuditHandler((record) => {
+        this.approvalAudit.append(record).catch((error) => {
+          console.error('Failed to record approval decision', error);
+        });
+      });
+      void this.prepareSessionStorage();
 
       this.registerView(
         VIEW_TYPE_CODEXIAN,
@@ -48,6 +96,14 @@ export default class CodexianPlugin extends Plugin {
         },
       });
 
+      this.addCommand({
+        id: 'open-new-view',
+        name: 'Open in new view',
+        callback: () => {
+          void this.openNewView();
+        },
+      });
+
       this.addCommand({
         id: 'inline-edit',
         name: 'Inline edit selection/cursor',
@@ -88,6 +144,54 @@ export default class CodexianPlugin extends Plugin {
         },
       });
 
+      this.addCommand({
+        id: 'show-diagnostics',
+        name: 'Show diagnostics',
+        callback: () => {
+          this.openDiagnostics();
+        },
+      });
+
+      this.addCommand({
+        id: 'show-usage-summary',
+        name: 'Show usage summary',
+        callback: () => {
+          this.openUsageSummary();
+        },
+      });
+
+      this.addCommand({
+        id: 'export-conversation',
+        name: 'Export conversation to note',
+        callback: () => {
+          void this.exportConversationToNote();
+        },
+      });
+
+      this.addCommand({
+        id: 'import-conversation',
+        name: 'Import conversation from file',
+        callback: () => {
+          void this.runImportConversationCommand();
+        },
+      });
+
+      this.addCommand({
+        id: 'apply-session-retention',
+        name: 'Apply session retention',
+        callback: () => {
+          void this.runSessionRetention(true);
+        },
+      });
+
+      this.addCommand({
+        id: 'show-approval-audit',
+        name: 'Show approval audit log',
+        callback: () => {
+          this.openApprovalAudit();
+        },
+      });
+
       const statusBarItem = this.addStatusBarItem();
       statusBarItem.setText('Codexian');
       statusBarItem.addEventListener('click', () => {
@@ -103,6 +207,7 @@ export default class CodexianPlugin extends Plugin {
 
   onunload(): void {
     void this.runtime.shutdown();
+    void this.storage.closeAll();
   }
 
   async loadSettings(): Promise<void> {
@@ -117,6 +222,11 @@ export default class CodexianPlugin extends Plugin {
     this.settings.approvalRules ??= [];
     this.settings.commandBlocklist ??= [];
     this.settings.pathBlocklist ??= [];
+    this.settings.mcpServerApprovals ??= {};
+    this.settings.customModes ??= [];
+    this.settings.sessionRetention = { ...DEFAULT_SETTINGS.sessionRetention, ...loadedSettings?.sessionRetention };
+    this.migrateLegacySessions = !loadedSettings?.sessionsFolder;
+    this.settings.sessionsFolder = normalizeSessionsFolder(this.settings.sessionsFolder);
     this.activeConversationId = data?.activeConversationId ?? null;
   }
 
@@ -130,7 +240,7 @@ export default class CodexianPlugin extends Plugin {
 
   async activateView(): Promise<void> {
     const { workspace } = this.app;
-    let leaf = workspace.getLeavesOfType(VIEW_TYPE_CODEXIAN)[0];
+    let leaf = this.getOpenCodexianView()?.leaf;
 
     if (!leaf) {
       const rightLeaf = workspace.getRightLeaf(false);
@@ -148,6 +258,89 @@ export default class CodexianPlugin extends Plugin {
     }
   }
 
+  async openNewView(): Promise<void> {
+    const { workspace } = this.app;
+    const leaf = workspace.getRightLeaf(true);
+    if (!leaf) return;
+    await leaf.setViewState({
+      type: VIEW_TYPE_CODEXIAN,
+      active: true,
+    });
+    await workspace.revealLeaf(leaf);
+  }
+
+  openDiagnostics(): void {
+    new DiagnosticsModal(this).open();
+  }
+
+  openUsageSummary(): void {
+    new UsageSummaryModal(this).open();
+  }
+
+  openApprovalAudit(): void {
+    new ApprovalAuditModal(this).open();
+  }
+
+  async loadApprovalAudit(): Promise<ApprovalAuditRecord[]> {
+    return this.approvalAudit.load();
+  }
+
+  async revokeApprovalRule(rule: ApprovalRule): Promise<void> {
+    this.runtime.approvalGrants.revoke(rule);
+    this.settings.approvalRules = this.settings.approvalRules.filter((entry) => !isSameApprovalRule(entry, rule));
+    await this.saveSettings();
+  }
+
+  async exportConversationToNote(): Promise<void> {
+    const conversation = this.getOpenCodexianView()?.getCurrentConversation() ?? this.conversation;
+    if (!conversation || conversation.messages.length === 0) {
+      new Notice('No conversation to export.');
+      return;
+    }
+
+    const { vault } = this.app;
+    try {
+      if (!vault.getAbstractFileByPath(EXPORT_FOLDER)) {
+        await vault.createFolder(EXPORT_FOLDER);
+      }
+      const baseName = buildExportFileName(conversation);
+      let filePath = `${EXPORT_FOLDER}/${baseName}.md`;
+      for (let suffix = 2; vault.getAbstractFileByPath(filePath); suffix += 1) {
+        filePath = `${EXPORT_FOLDER}/${baseName} ${suffix}.md`;
+      }
+      const file = await vault.create(filePath, renderConversationMarkdown(conversation));
+      if (file instanceof TFile) {
+        await this.app.workspace.getLeaf(true).openFile(file);
+      }
+      new Notice(`Exported conversation to ${filePath}.`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error.';
+      new Notice(`Export failed: ${message}`);
+    }
+  }
+
+  async importConversationFile(fileName: string, content: string): Promise<CodexianConversation> {
+    const conversation = importConversation(content, {
+      id: `import-${Date.now()}-${Math.random().toString(36).slice(2, 10)}`,
+      fileName,
+    });
+    this.conversation = conversation;
+    this.activeConversationId = conversation.id;
+    await this.saveSettings();
+    await this.storage.saveConversation(conversation);
+    return conversation;
+  }
+
+  private async runImportConversationCommand(): Promise<void> {
+    await this.activateView();
+    const view = this.getOpenCodexianView();
+    if (!view) {
+      new Notice('Codexian view is unavailable.');
+      return;
+    }
+    await view.importConversationFromFile();
+  }
+
   consumePendingContextBlocks(): string[] {
     const blocks = [...this.pendingContextBlocks];
     this.pendingContextBlocks = [];
@@ -242,15 +435,28 @@ export default class CodexianPlugin extends Plugin {
     this.getOpenCodexianView()?.applyPendingCommandInput();
   }
 
+  setLastActiveView(view: CodexianView): void {
+    this.lastActiveView = view;
+  }
+
+  getOpenCodexianViews(): CodexianView[] {
+    return this.app.workspace
+      .getLeavesOfType(VIEW_TYPE_CODEXIAN)
+      .map((leaf) => leaf.view)
+      .filter((view): view is CodexianView => view instanceof CodexianView);
+  }
+
   private getOpenCodexianView(): CodexianView | null {
-    const leaf = this.app.workspace.getLeavesOfType(VIEW_TYPE_CODEXIAN)[0];
-    if (!leaf) {
-      return null;
+    const views = this.getOpenCodexianViews();
+    if (this.lastActiveView && views.includes(this.lastActiveView)) {
+      return this.lastActiveView;
     }
-    if (leaf.view instanceof CodexianView) {
-      return leaf.view;
-    }
-    return null;
+    return views[0] ?? null;
+  }
+
+  private isThreadOpenInView(threadId: string | undefined): boolean {
+    if (!threadId) return false;
+    return this.getOpenCodexianViews().some((view) => view.getThreadId() === threadId);
   }
 
   private buildSelectionContextBlock(selection: string): string {
@@ -268,7 +474,7 @@ export default class CodexianPlugin extends Plugin {
   }
 
   async getConversation(): Promise<CodexianConversation> {
-    if (this.conversation) {
+    if (this.conversation && !this.isThreadOpenInView(this.conversation.threadId)) {
       return this.conversation;
     }
 
@@ -307,8 +513,135 @@ export default class CodexianPlugin extends Plugin {
     await this.storage.saveConversation(conversation);
   }
 
-  async getLocalConversation(threadId: string): Promise<CodexianConversation | null> {
-    return this.storage.loadConversation(threadId);
+  /** Saves a conversation whose id changed and drops the record kept under its previous id. */
+  async renameConversation(previousId: string, conversation: CodexianConversation): Promise<void> {
+    await this.saveConversation(conversation);
+    if (previousId !== conversation.id) {
+      await this.storage.deleteConversation(previousId);
+    }
+  }
+
+  /** Opens a saved session that has no app server thread yet, such as an imported one. */
+  async openSavedConversation(id: string): Promise<CodexianConversation> {
+    const conversation = await this.storage.loadConversation(id);
+    if (!conversation) {
+      throw new Error('Saved session not found.');
+    }
+    this.conversation = conversation;
+    this.activeConversationId = conversation.id;
+    await this.saveSettings();
+    return conversation;
+  }
+
+  async closeConversation(id: string): Promise<void> {
+    try {
+      await this.storage.closeConversation(id);
+    } catch (error) {
+      console.error('Failed to compact Codexian session', error);
+    }
+  }
+
+  async listSessionIndex(): Promise<SessionIndexEntry[]> {
+    try {
+      return await this.storage.listSessionIndex();
+    } catch {
+      return [];
+    }
+  }
+
+  async searchSessions(query: string): Promise<SessionSearchResult[]> {
+    try {
+      return await this.storage.searchConversations(query);
+    } catch (error) {
+      console.error('Failed to search Codexian sessions', error);
+      return [];
+    }
+  }
+
+  /** Moves saved sessions to another vault folder. Returns false when the folder is not usable. */
+  async setSessionsFolder(folder: string): Promise<boolean> {
+    const normalized = normalizeSessionsFolder(folder);
+    if (normalized.split('/').includes('..')) {
+      new Notice('The sessions folder must be inside the vault.');
+      return false;
+    }
+    if (normalized === this.storage.getFolder()) return true;
+    try {
+      const moved = await this.storage.changeFolder(normalized);
+      await this.approvalAudit.changeFolder(getApprovalAuditFolder(normalized));
+      this.settings.sessionsFolder = normalized;
+      await this.saveSettings();
+      new Notice(`Moved ${moved} sessions to ${normalized}.`);
+      return true;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error.';
+      new Notice(`Failed to move sessions: ${message}`);
+      return false;
+    }
+  }
+
+  async runSessionRetention(notify: boolean): Promise<void> {
+    const policy = this.settings.sessionRetention;
+    if (policy.maxAgeDays <= 0 && policy.maxCount <= 0) {
+      if (notify) new Notice('Session retention is off. Set a maximum age or count in settings.');
+      return;
+    }
+    const keep = new Set<string>();
+    if (this.activeConversationId) keep.add(this.activeConversationId);
+    if (this.conversation) keep.add(this.conversation.id);
+    for (const view of this.getOpenCodexianViews()) {
+      const threadId = view.getThreadId();
+      if (threadId) keep.add(threadId);
+    }
+
+    try {
+      const expired = await this.storage.applyRetention(policy, keep);
+      let archivedThreads = 0;
+      if (policy.archiveThreads) {
+        for (const entry of expired) {
+          if (!entry.threadId) continue;
+          try {
+            await this.runtime.archiveThread(entry.threadId);
+            archivedThreads += 1;
+          } catch (error) {
+            console.error('Failed to archive Codex thread', error);
+          }
+        }
+      }
+      if (notify || expired.length > 0) {
+        const action = policy.archive ? 'Archived' : 'Deleted';
+        const threads = policy.archiveThreads ? ` and archived ${archivedThreads} threads` : '';
+        new Notice(`${action} ${expired.length} sessions${threads}.`);
+      }
+    } catch (error) {
+      console.error('Failed to apply Codexian session retention', error);
+      if (notify) new Notice('Failed to apply session retention.');
+    }
+  }
+
+  private async prepareSessionStorage(): Promise<void> {
+    if (this.migrateLegacySessions) {
+      try {
+        const moved = await this.storage.importFolder(LEGACY_SESSIONS_FOLDER);
+        this.migrateLegacySessions = false;
+        await this.saveSettings();
+        if (moved > 0) {
+          new Notice(`Moved ${moved} sessions from ${LEGACY_SESSIONS_FOLDER} to ${this.settings.sessionsFolder}.`);
+        }
+      } catch (error) {
+        console.error('Failed to move Codexian sessions from the legacy folder', error);
+      }
+    }
+    try {
+      await this.approvalAudit.importLog(LEGACY_APPROVAL_AUDIT_PATH);
+    } catch (error) {
+      console.error('Failed to move the approval audit log from the legacy folder', error);
+    }
+    await this.runSessionRetention(false);
+  }
+
+  async listSavedConversations(): Promise<CodexianConversation[]> {
+    return this.storage.listConversations();
   }
 
   createConversationFromThread(thread: AppServerThread): CodexianConversation {
@@ -359,6 +692,12 @@ export default class CodexianPlugin extends Plugin {
       createdAt: local.createdAt ?? base.createdAt,
       updatedAt: mergedUpdatedAt || base.updatedAt,
       lastResponseAt: local.lastResponseAt ?? base.lastResponseAt,
+      messages: local.importedFrom
+        ? [...local.messages.slice(0, local.importedFrom.messageCount), ...base.messages]
+        : base.messages,
+      items: local.items,
+      usage: local.usage,
+      importedFrom: local.importedFrom,
     };
   }
 
@@ -405,12 +744,15 @@ export default class CodexianPlugin extends Plugin {
       conversation.mode = this.settings.lastMode;
       changed = true;
     }
-    if (!conversation.model && this.settings.lastModel) {
-      conversation.model = this.settings.lastModel;
+    const modeOption = findModeOption(conversation.mode, this.settings.customModes);
+    const defaultModel = modeOption?.model ?? this.settings.lastModel;
+    if (!conversation.model && defaultModel) {
+      conversation.model = defaultModel;
       changed = true;
     }
-    if (!conversation.reasoningEffort && this.settings.lastReasoningEffort) {
-      conversation.reasoningEffort = this.settings.lastReasoningEffort;
+    const defaultEffort = modeOption?.reasoningEffort ?? this.settings.lastReasoningEffort;
+    if (!conversation.reasoningEffort && defaultEffort) {
+      conversation.reasoningEffort = defaultEffort;
       changed = true;
     }
     return changed;
@@ -436,6 +778,36 @@ export default class CodexianPlugin extends Plugin {
     return changed;
   }
 
+  async resolveFolderPolicy(filePaths: string[]): Promise<EffectivePolicy | null> {
+    if (filePaths.length === 0) return null;
+    const { policies, errors } = await loadNearestFolderPolicies(filePaths, (folder) => this.readFolderPolicy(folder));
+    for (const error of errors) {
+      new Notice(`Ignoring folder policy ${error.source}: ${error.message}`);
+    }
+    return policies.length > 0 ? mergeFolderPolicies(this.settings, policies) : null;
+  }
+
+  private async readFolderPolicy(folder: string): Promise<{ source: string; raw: unknown } | null> {
+    const source = folder ? `${folder}/${FOLDER_POLICY_FILE}` : FOLDER_POLICY_FILE;
+    const { adapter } = this.app.vault;
+    if (await adapter.exists(source)) {
+      const content = await adapter.read(source);
+      try {
+        return { source, raw: JSON.parse(content) as unknown };
+      } catch {
+        throw new FolderPolicyError('Policy file is not valid JSON.', source);
+      }
+    }
+
+    if (!folder) return null;
+    const folderName = folder.split('/').pop() ?? folder;
+    const folderNote = this.app.vault.getAbstractFileByPath(`${folder}/${folderName}.md`);
+    if (!(folderNote instanceof TFile)) return null;
+    const frontmatter: Record<string, unknown> | undefined = this.app.metadataCache.getFileCache(folderNote)?.frontmatter;
+    const raw = frontmatter?.[FOLDER_POLICY_FRONTMATTER_KEY];
+    return raw === undefined ? null : { source: folderNote.path, raw };
+  }
+
   private getVaultPath(): string {
     const adapter = this.app.vault.adapter as { basePath?: string };
     return adapter.basePath ?? '';
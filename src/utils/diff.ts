@@ -0,0 +1,102 @@
+export type DiffLineKind = 'added' | 'removed' | 'hunk' | 'meta' | 'context';
+
+export interface FileDiff {
+  path: string;
+  diff: string;
+}
+
+export interface DiffLineCounts {
+  additions: number;
+  deletions: number;
+}
+
+const META_PREFIXES = [
+  'diff --git ',
+  'index ',
+  '--- ',
+  '+++ ',
+  'new file mode',
+  'deleted file mode',
+  'similarity index',
+  'rename from',
+  'rename to',
+  'old mode',
+  'new mode',
+  'Binary files',
+];
+
+export function classifyDiffLine(line: string): DiffLineKind {
+  if (line.startsWith('@@')) return 'hunk';
+  if (META_PREFIXES.some((prefix) => line.startsWith(prefix))) return 'meta';
+  if (line.startsWith('+')) return 'added';
+  if (line.startsWith('-')) return 'removed';
+  return 'context';
+}
+
+export function countDiffLines(diff: string): DiffLineCounts {
+  let additions = 0;
+  let deletions = 0;
+  let inHunk = false;
+  for (const line of diff.split(/\r?\n/)) {
+    if (line.startsWith('@@')) {
+      inHunk = true;
+      continue;
+    }
+    if (line.startsWith('diff --git ')) {
+      inHunk = false;
+      continue;
+    }
+    if (!inHunk) continue;
+    if (line.startsWith('+')) additions += 1;
+    else if (line.startsWith('-')) deletions += 1;
+  }
+  return { additions, deletions };
+}
+
+const stripDiffPathPrefix = (value: string): string => {
+  const trimmed = value.trim().split('\t')[0] ?? '';
+  if (trimmed === '/dev/null') return '';
+  return trimmed.replace(/^[ab]\//, '');
+};
+
+const readDiffPath = (lines: string[]): string => {
+  const newPath = lines.find((line) => line.startsWith('+++ '));
+  const oldPath = lines.find((line) => line.startsWith('--- '));
+  const fromNew = newPath ? stripDiffPathPrefix(newPath.slice(4)) : '';
+  if (fromNew) return fromNew;
+  const fromOld = oldPath ? stripDiffPathPrefix(oldPath.slice(4)) : '';
+  if (fromOld) return fromOld;
+  const header = lines.find((line) => line.startsWith('diff --git '));
+  const match = header?.match(/ b\/(.+)$/);
+  return match?.[1] ?? '';
+};
+
+export function splitUnifiedDiff(diff: string): FileDiff[] {
+  const lines = diff.split(/\r?\n/);
+  const sections: string[][] = [];
+  let current: string[] = [];
+
+  let hasBody = false;
+
+  for (let index = 0; index < lines.length; index += 1) {
+    const line = lines[index] ?? '';
+    const startsSection =
+      line.startsWith('diff --git ') || (line.startsWith('--- ') && (lines[index + 1] ?? '').startsWith('+++ '));
+    if (startsSection && hasBody) {
+      sections.push(current);
+      current = [];
+      hasBody = false;
+    }
+    if (line.startsWith('@@') || line.startsWith('Binary files')) {
+      hasBody = true;
+    }
+    current.push(line);
+  }
+  if (current.some((line) => line.trim().length > 0)) {
+    sections.push(current);
+  }
+
+  return sections
+    .map((section) => ({ path: readDiffPath(section), diff: section.join('\n').trimEnd() }))
+    .filter((entry) => entry.path.length > 0);
+}
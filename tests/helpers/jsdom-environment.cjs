@@ -31,6 +31,25 @@ class MiniElement {
     }
   }
 
+  dispatchEvent(event) {
+    const callbacks = this.listeners[event.type] || [];
+    for (const callback of callbacks) {
+      callback(event);
+    }
+    return true;
+  }
+
+  querySelectorAll(selector) {
+    const matches = [];
+    for (const child of this.children) {
+      if (child.className.split(/\s+/).includes(selector.slice(1))) {
+        matches.push(child);
+      }
+      matches.push(...child.querySelectorAll(selector));
+    }
+    return matches;
+  }
+
   querySelector(selector) {
     if (!selector) return null;
     const matcher = selector.startsWith('.')
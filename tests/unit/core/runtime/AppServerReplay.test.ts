@@ -80,6 +80,13 @@ const buildSettings = (approvalMode: 'safe' | 'yolo' | 'prompt' = 'safe'): Codex
   approvalRules: [],
   commandBlocklist: [],
   pathBlocklist: [],
+  mcpServerApprovals: {},
+  requestTimeouts: {},
+  modelPricing: {},
+  pauseQueueOnFailure: true,
+  customModes: [],
+  sessionsFolder: '.codexian/sessions',
+  sessionRetention: { maxAgeDays: 0, maxCount: 0, archive: true, archiveThreads: false },
 });
 
 const replayFixturePath = path.resolve(__dirname, '../../../fixtures/app-server/replay-basic.jsonl');
@@ -2,8 +2,16 @@ import { type ChildProcessWithoutNullStreams } from 'child_process';
 import { EventEmitter } from 'events';
 import { PassThrough } from 'stream';
 
-import { buildTurnInputItems, CodexRuntime } from '../../../../src/core/runtime';
-import type { CodexianSettings } from '../../../../src/core/types';
+import {
+  AppServerCancelledError,
+  type ApprovalRequest,
+  AppServerTimeoutError,
+  buildTurnInputItems,
+  CodexRuntime,
+  RECONNECT_BACKOFF_MS,
+  type TokenUsageUpdate,
+} from '../../../../src/core/runtime';
+import type { ApprovalAuditRecord, CodexianSettings } from '../../../../src/core/types';
 
 jest.mock('child_process', () => ({
   spawn: jest.fn(),
@@ -76,6 +84,13 @@ const buildSettings = (approvalMode: 'safe' | 'yolo' | 'prompt' = 'safe'): Codex
   approvalRules: [],
   commandBlocklist: [],
   pathBlocklist: [],
+  mcpServerApprovals: {},
+  requestTimeouts: {},
+  modelPricing: {},
+  pauseQueueOnFailure: true,
+  customModes: [],
+  sessionsFolder: '.codexian/sessions',
+  sessionRetention: { maxAgeDays: 0, maxCount: 0, archive: true, archiveThreads: false },
 });
 
 describe('CodexRuntime', () => {
@@ -190,6 +205,65 @@ describe('CodexRuntime', () => {
     expect(userInputResponse).toMatchObject({ id: 79, result: { answers: {} } });
   });
 
+  it('forwards tool/requestUserInput questions to the handler and returns answers', async () => {
+    const fake = createFakeChild();
+    mockSpawn.mockReturnValue(fake.child);
+
+    const runtime = new CodexRuntime(buildSettings('safe'), '/vault');
+    const handler = jest.fn(async () => ({ target: ['Staging'], note: ['  ', 'ship it'] }));
+    runtime.bindThread('thread-1', { onUserInputRequest: handler });
+
+    const readyPromise = runtime.ensureReady();
+    await waitFor(() => parseClientMessages(fake.writes).some((entry) => entry.method === 'initialize'));
+    fake.stdout.write(`${JSON.stringify({ id: 1, result: {} })}\n`);
+    await readyPromise;
+
+    fake.stdout.write(
+      `${JSON.stringify({
+        id: 82,
+        method: 'item/tool/requestUserInput',
+        params: {
+          threadId: 'thread-1',
+          turnId: 'turn-1',
+          questions: [
+            {
+              id: 'target',
+              header: 'Deploy',
+              question: 'Where should this go?',
+              options: [{ label: 'Staging', description: 'Safe default' }, { label: 'Production' }],
+            },
+            { id: 'note', question: 'Anything else?' },
+          ],
+        },
+      })}\n`
+    );
+
+    await waitFor(() => parseClientMessages(fake.writes).some((entry) => entry.id === 82));
+
+    expect(handler).toHaveBeenCalledWith(
+      expect.objectContaining({
+        method: 'item/tool/requestUserInput',
+        threadId: 'thread-1',
+        turnId: 'turn-1',
+        questions: [
+          {
+            id: 'target',
+            header: 'Deploy',
+            question: 'Where should this go?',
+            options: [{ label: 'Staging', description: 'Safe default' }, { label: 'Production' }],
+            allowOther: false,
+          },
+          { id: 'note', question: 'Anything else?', options: [], allowOther: true },
+        ],
+      })
+    );
+    const response = parseClientMessages(fake.writes).find((entry) => entry.id === 82);
+    expect(response).toMatchObject({
+      id: 82,
+      result: { answers: { target: { answers: ['Staging'] }, note: { answers: ['ship it'] } } },
+    });
+  });
+
   it('asks approval handler in prompt mode and stores always rule', async () => {
     const fake = createFakeChild();
     mockSpawn.mockReturnValue(fake.child);
@@ -199,7 +273,7 @@ describe('CodexRuntime', () => {
       decision: 'accept' as const,
       alwaysRule: { kind: 'command' as const, pattern: 'git status' },
     }));
-    runtime.setApprovalRequestHandler(handler);
+    runtime.bindThread('thread-1', { onApprovalRequest: handler });
 
     const readyPromise = runtime.ensureReady();
     await waitFor(() => parseClientMessages(fake.writes).some((entry) => entry.method === 'initialize'));
@@ -218,7 +292,7 @@ describe('CodexRuntime', () => {
     expect(handler).toHaveBeenCalledTimes(1);
 
     const secondHandler = jest.fn(async () => 'decline' as const);
-    runtime.setApprovalRequestHandler(secondHandler);
+    runtime.bindThread('thread-1', { onApprovalRequest: secondHandler });
 
     fake.stdout.write(
       `${JSON.stringify({ id: 81, method: 'item/commandExecution/requestApproval', params: { command: 'git status' } })}\n`
@@ -233,6 +307,231 @@ describe('CodexRuntime', () => {
     expect(secondHandler).not.toHaveBeenCalled();
   });
 
+  it('records each approval decision through the audit handler', async () => {
+    const fake = createFakeChild();
+    mockSpawn.mockReturnValue(fake.child);
+
+    const settings = buildSettings('prompt');
+    settings.approvalRules = [{ kind: 'command', pattern: 'git *' }];
+    settings.commandBlocklist = ['rm -rf *'];
+    const runtime = new CodexRuntime(settings, '/vault');
+    const audit = jest.fn<void, [ApprovalAuditRecord]>();
+    runtime.setApprovalAuditHandler(audit);
+    runtime.bindThread('thread-1', {
+      onApprovalRequest: async () => ({
+        decision: 'accept' as const,
+        alwaysRule: { kind: 'command' as const, pattern: 'npm test', matcher: 'exact' as const },
+      }),
+    });
+
+    const readyPromise = runtime.ensureReady();
+    await waitFor(() => parseClientMessages(fake.writes).some((entry) => entry.method === 'initialize'));
+    fake.stdout.write(`${JSON.stringify({ id: 1, result: {} })}\n`);
+    await readyPromise;
+
+    for (const [id, command] of [
+      [90, 'git status'],
+      [91, 'rm -rf notes'],
+      [92, 'npm test'],
+    ] as const) {
+      fake.stdout.write(
+        `${JSON.stringify({
+          id,
+          method: 'item/commandExecution/requestApproval',
+          params: { threadId: 'thread-1', turnId: 'turn-3', command },
+        })}\n`
+      );
+      await waitFor(() => parseClientMessages(fake.writes).some((entry) => entry.id === id));
+    }
+
+    expect(audit).toHaveBeenCalledTimes(3);
+    expect(audit.mock.calls.map(([record]) => record)).toMatchObject([
+      {
+        outcome: 'auto-accept',
+        kind: 'commandExecution',
+        mode: 'prompt',
+        threadId: 'thread-1',
+        turnId: 'turn-3',
+        command: 'git status',
+        matchedRules: [{ kind: 'command', pattern: 'git *' }],
+      },
+      { outcome: 'auto-decline', command: 'rm -rf notes', blockedBy: 'rm -rf *' },
+      { outcome: 'always-rule', command: 'npm test', createdRule: { pattern: 'npm test', matcher: 'exact' } },
+    ]);
+    expect(audit.mock.calls[0]?.[0].id).toEqual(expect.any(String));
+  });
+
+  it('applies tool rules and per-server defaults to mcp tool approvals', async () => {
+    const fake = createFakeChild();
+    mockSpawn.mockReturnValue(fake.child);
+
+    const settings = buildSettings('yolo');
+    settings.approvalRules = [{ kind: 'tool', pattern: 'github/list_*', matcher: 'glob' }];
+    settings.mcpServerApprovals = { github: 'deny', filesystem: 'prompt' };
+    const runtime = new CodexRuntime(settings, '/vault');
+    const handler = jest.fn<Promise<'decline'>, [ApprovalRequest]>(async () => 'decline');
+    runtime.bindThread('thread-1', { onApprovalRequest: handler });
+
+    const readyPromise = runtime.ensureReady();
+    await waitFor(() => parseClientMessages(fake.writes).some((entry) => entry.method === 'initialize'));
+    fake.stdout.write(`${JSON.stringify({ id: 1, result: {} })}\n`);
+    await readyPromise;
+
+    const calls = [
+      [100, { server: 'github', tool: 'list_issues' }],
+      [101, { server: 'github', tool: 'create_issue' }],
+      [102, { server: 'filesystem', tool: 'write_file', arguments: { path: 'notes/a.md' } }],
+      [103, { server: 'docs', tool: 'search' }],
+    ] as const;
+    for (const [id, params] of calls) {
+      fake.stdout.write(
+        `${JSON.stringify({ id, method: 'item/mcpToolCall/requestApproval', params: { threadId: 'thread-1', ...params } })}\n`
+      );
+      await waitFor(() => parseClientMessages(fake.writes).some((entry) => entry.id === id));
+    }
+
+    const decisions = parseClientMessages(fake.writes)
+      .filter((entry) => typeof entry.id === 'number' && entry.id >= 100)
+      .map((entry) => (entry.result as { decision?: string } | undefined)?.decision);
+    expect(decisions).toEqual(['accept', 'decline', 'decline', 'accept']);
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(handler.mock.calls[0]?.[0]).toMatchObject({
+      kind: 'mcpToolCall',
+      toolCall: { server: 'filesystem', tool: 'write_file', arguments: { path: 'notes/a.md' } },
+    });
+  });
+
+  it('attaches per-file diffs from the started fileChange item to approval requests', async () => {
+    const fake = createFakeChild();
+    mockSpawn.mockReturnValue(fake.child);
+
+    const runtime = new CodexRuntime(buildSettings('prompt'), '/vault');
+    const handler = jest.fn<Promise<'accept'>, [ApprovalRequest]>(async () => 'accept');
+    runtime.bindThread('thread-1', { onApprovalRequest: handler });
+
+    const readyPromise = runtime.ensureReady();
+    await waitFor(() => parseClientMessages(fake.writes).some((entry) => entry.method === 'initialize'));
+    fake.stdout.write(`${JSON.stringify({ id: 1, result: {} })}\n`);
+    await readyPromise;
+
+    fake.stdout.write(
+      `${JSON.stringify({
+        method: 'item/started',
+        params: {
+          threadId: 'thread-1',
+          turnId: 'turn-1',
+          item: {
+            id: 'fc-1',
+            type: 'fileChange',
+            changes: [
+              { path: 'notes/a.md', kind: { type: 'update' }, diff: '@@ -1 +1 @@\n-old\n+new' },
+              { path: 'notes/b.md', kind: 'add', content: 'hello\n' },
+            ],
+          },
+        },
+      })}\n`
+    );
+    fake.stdout.write(
+      `${JSON.stringify({
+        id: 95,
+        method: 'item/fileChange/requestApproval',
+        params: { threadId: 'thread-1', turnId: 'turn-1', itemId: 'fc-1' },
+      })}\n`
+    );
+    await waitFor(() => parseClientMessages(fake.writes).some((entry) => entry.id === 95));
+
+    expect(handler.mock.calls[0]?.[0]).toMatchObject({
+      paths: ['notes/a.md', 'notes/b.md'],
+      fileChanges: [
+        { path: 'notes/a.md', kind: 'update', diff: '@@ -1 +1 @@\n-old\n+new' },
+        { path: 'notes/b.md', kind: 'add', diff: '@@ -0,0 +1,1 @@\n+hello' },
+      ],
+    });
+  });
+
+  it('keeps scoped grants in memory until the thread is unbound', async () => {
+    const fake = createFakeChild();
+    mockSpawn.mockReturnValue(fake.child);
+
+    const settings = buildSettings('prompt');
+    const runtime = new CodexRuntime(settings, '/vault');
+    const handler = jest.fn(async () => ({
+      decision: 'accept' as const,
+      grant: { rule: { kind: 'command' as const, pattern: 'npm test' }, scope: 'thread' as const },
+    }));
+    const unbind = runtime.bindThread('thread-1', { onApprovalRequest: handler });
+
+    const readyPromise = runtime.ensureReady();
+    await waitFor(() => parseClientMessages(fake.writes).some((entry) => entry.method === 'initialize'));
+    fake.stdout.write(`${JSON.stringify({ id: 1, result: {} })}\n`);
+    await readyPromise;
+
+    for (const id of [93, 94]) {
+      fake.stdout.write(
+        `${JSON.stringify({
+          id,
+          method: 'item/commandExecution/requestApproval',
+          params: { threadId: 'thread-1', turnId: `turn-${id}`, command: 'npm test' },
+        })}\n`
+      );
+      await waitFor(() => parseClientMessages(fake.writes).some((entry) => entry.id === id));
+    }
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(parseClientMessages(fake.writes).find((entry) => entry.id === 94)).toMatchObject({
+      result: { decision: 'accept' },
+    });
+    expect(settings.approvalRules).toEqual([]);
+    expect(runtime.approvalGrants.list()).toHaveLength(1);
+
+    unbind();
+    expect(runtime.approvalGrants.list()).toEqual([]);
+  });
+
+  it('routes approval requests to the view bound to the request thread', async () => {
+    const fake = createFakeChild();
+    mockSpawn.mockReturnValue(fake.child);
+
+    const runtime = new CodexRuntime(buildSettings('prompt'), '/vault');
+    const firstHandler = jest.fn(async () => 'accept' as const);
+    const secondHandler = jest.fn(async () => 'accept' as const);
+    runtime.bindThread('thread-1', { onApprovalRequest: firstHandler });
+    const unbindSecond = runtime.bindThread('thread-2', { onApprovalRequest: secondHandler });
+
+    const readyPromise = runtime.ensureReady();
+    await waitFor(() => parseClientMessages(fake.writes).some((entry) => entry.method === 'initialize'));
+    fake.stdout.write(`${JSON.stringify({ id: 1, result: {} })}\n`);
+    await readyPromise;
+
+    fake.stdout.write(
+      `${JSON.stringify({
+        id: 83,
+        method: 'item/commandExecution/requestApproval',
+        params: { threadId: 'thread-2', turnId: 'turn-9', command: 'npm test' },
+      })}\n`
+    );
+    await waitFor(() => parseClientMessages(fake.writes).some((entry) => entry.id === 83));
+
+    expect(firstHandler).not.toHaveBeenCalled();
+    expect(secondHandler).toHaveBeenCalledTimes(1);
+    expect(secondHandler.mock.calls[0]).toMatchObject([{ threadId: 'thread-2', turnId: 'turn-9' }]);
+
+    unbindSecond();
+    fake.stdout.write(
+      `${JSON.stringify({
+        id: 84,
+        method: 'item/commandExecution/requestApproval',
+        params: { threadId: 'thread-2', command: 'npm test' },
+      })}\n`
+    );
+    await waitFor(() => parseClientMessages(fake.writes).some((entry) => entry.id === 84));
+
+    expect(secondHandler).toHaveBeenCalledTimes(1);
+    expect(parseClientMessages(fake.writes).find((entry) => entry.id === 84)).toMatchObject({
+      result: { decision: 'decline' },
+    });
+  });
+
   it('sends localImage input items when attachments are provided', async () => {
     const fake = createFakeChild();
     mockSpawn.mockReturnValue(fake.child);
@@ -472,6 +771,94 @@ describe('CodexRuntime', () => {
     await waitFor(() => onComplete.mock.calls.length === 1);
   });
 
+  it('dispatches reasoning, token usage, rate limit, thread name and error notifications', async () => {
+    const fake = createFakeChild();
+    mockSpawn.mockReturnValue(fake.child);
+
+    const runtime = new CodexRuntime(buildSettings('safe'), '/vault');
+    const readyPromise = runtime.ensureReady();
+
+    await waitFor(() => parseClientMessages(fake.writes).some((entry) => entry.method === 'initialize'));
+    fake.stdout.write(`${JSON.stringify({ id: 1, result: {} })}\n`);
+    await readyPromise;
+
+    const onReasoningDelta = jest.fn();
+    const onTokenUsage = jest.fn<void, [TokenUsageUpdate]>();
+    const onRateLimits = jest.fn();
+    const onThreadNameUpdated = jest.fn();
+    const onNotice = jest.fn();
+    const onTurnUsage = jest.fn();
+    const onComplete = jest.fn();
+
+    const turnPromise = runtime.startTurn('thread-1', 'Think', {
+      onStart: () => undefined,
+      onDelta: () => undefined,
+      onMessage: () => undefined,
+      onReasoningDelta,
+      onTokenUsage,
+      onRateLimits,
+      onThreadNameUpdated,
+      onNotice,
+      onTurnUsage,
+      onError: () => undefined,
+      onComplete,
+    });
+
+    await waitFor(() => parseClientMessages(fake.writes).some((entry) => entry.method === 'turn/start'));
+    fake.stdout.write(`${JSON.stringify({ id: 2, result: { turn: { id: 'turn-3' } } })}\n`);
+    await turnPromise;
+
+    const notifications = [
+      {
+        method: 'item/reasoning/summaryTextDelta',
+        params: { threadId: 'thread-1', turnId: 'turn-3', itemId: 'rs-1', delta: 'Checking', summaryIndex: 0 },
+      },
+      {
+        method: 'thread/tokenUsage/updated',
+        params: {
+          threadId: 'thread-1',
+          turnId: 'turn-3',
+          tokenUsage: {
+            total: { inputTokens: 1200, cachedInputTokens: 200, outputTokens: 300, totalTokens: 1500 },
+            modelContextWindow: 200000,
+          },
+        },
+      },
+      { method: 'account/rateLimits/updated', params: { rateLimits: { primary: { usedPercent: 42 } } } },
+      { method: 'thread/name/updated', params: { threadId: 'thread-other', threadName: 'Ignored' } },
+      { method: 'thread/name/updated', params: { threadId: 'thread-1', threadName: 'Refactor notes' } },
+      {
+        method: 'error',
+        params: { threadId: 'thread-1', turnId: 'turn-3', error: { message: 'Stream disconnected' }, willRetry: true },
+      },
+      { method: 'thread/compacted', params: { threadId: 'thread-1' } },
+      { method: 'thread/compacted', params: { threadId: 'thread-1' } },
+      { method: 'turn/completed', params: { turn: { id: 'turn-3', status: 'completed' } } },
+    ];
+    fake.stdout.write(notifications.map((entry) => `${JSON.stringify(entry)}\n`).join(''));
+    await waitFor(() => onComplete.mock.calls.length === 1);
+
+    expect(onReasoningDelta).toHaveBeenCalledWith({ itemId: 'rs-1', kind: 'summary', delta: 'Checking', index: 0 });
+    expect(onTokenUsage.mock.calls[0]?.[0]).toMatchObject({
+      total: { totalTokens: 1500, cachedInputTokens: 200 },
+      modelContextWindow: 200000,
+    });
+    expect(onRateLimits).toHaveBeenCalledWith({ primary: { usedPercent: 42 }, secondary: undefined });
+    expect(onThreadNameUpdated).toHaveBeenCalledTimes(1);
+    expect(onThreadNameUpdated).toHaveBeenCalledWith('Refactor notes');
+    expect(onNotice).toHaveBeenCalledWith(
+      expect.objectContaining({ severity: 'error', message: 'Stream disconnected', willRetry: true })
+    );
+    expect(onTurnUsage).toHaveBeenCalledWith({
+      inputTokens: 1200,
+      cachedInputTokens: 200,
+      outputTokens: 300,
+      reasoningOutputTokens: 0,
+      totalTokens: 1500,
+    });
+    expect(runtime.diagnostics.getEntries({ query: 'Unhandled notification: thread/compacted' })).toHaveLength(1);
+  });
+
   it('routes turn/diff/updated notifications to onDiffUpdated handler', async () => {
     const fake = createFakeChild();
     mockSpawn.mockReturnValue(fake.child);
@@ -539,6 +926,156 @@ describe('CodexRuntime', () => {
     fake.stdout.write(`${JSON.stringify({ id: 2, result: {} })}\n`);
     await expect(steerPromise).resolves.toBeUndefined();
   });
+
+  it('fails in-flight work on app-server exit, respawns with backoff, and resumes the active thread', async () => {
+    jest.useFakeTimers({ doNotFake: ['setImmediate', 'nextTick'] });
+    try {
+      const first = createFakeChild();
+      const second = createFakeChild();
+      mockSpawn.mockReturnValueOnce(first.child).mockReturnValueOnce(second.child);
+
+      const runtime = new CodexRuntime(buildSettings('safe'), '/vault');
+      const events: string[] = [];
+      runtime.onConnectionStateChange((event) => events.push(event.state));
+
+      const readyPromise = runtime.ensureReady();
+      await waitFor(() => parseClientMessages(first.writes).some((entry) => entry.method === 'initialize'));
+      first.stdout.write(`${JSON.stringify({ id: 1, result: {} })}\n`);
+      await readyPromise;
+
+      const onError = jest.fn();
+      const onComplete = jest.fn();
+      const turnPromise = runtime.startTurn('thread-1', 'Hello', {
+        onStart: () => undefined,
+        onDelta: () => undefined,
+        onMessage: () => undefined,
+        onError,
+        onComplete,
+      });
+      await waitFor(() => parseClientMessages(first.writes).some((entry) => entry.method === 'turn/start'));
+      first.stdout.write(`${JSON.stringify({ id: 2, result: { turn: { id: 'turn-1' } } })}\n`);
+      await turnPromise;
+
+      const listPromise = runtime.listThreads();
+      await waitFor(() => parseClientMessages(first.writes).some((entry) => entry.method === 'thread/list'));
+
+      (first.child as unknown as EventEmitter).emit('exit', 1);
+
+      await expect(listPromise).rejects.toThrow('App Server exited with code 1.');
+      expect(onError).toHaveBeenCalledWith('App Server exited unexpectedly: App Server exited with code 1.');
+      expect(onComplete).toHaveBeenCalledTimes(1);
+      expect(events).toEqual(['disconnected']);
+
+      jest.advanceTimersByTime(500);
+      await waitFor(() => parseClientMessages(second.writes).some((entry) => entry.method === 'initialize'));
+      second.stdout.write(`${JSON.stringify({ id: 1, result: {} })}\n`);
+
+      await waitFor(() => parseClientMessages(second.writes).some((entry) => entry.method === 'thread/resume'));
+      expect(parseClientMessages(second.writes).find((entry) => entry.method === 'thread/resume')).toMatchObject({
+        params: { threadId: 'thread-1' },
+      });
+      second.stdout.write(`${JSON.stringify({ id: 2, result: { thread: { id: 'thread-1' } } })}\n`);
+
+      await waitFor(() => events.includes('reconnected'));
+      expect(events).toEqual(['disconnected', 'reconnecting', 'reconnected']);
+      expect(mockSpawn).toHaveBeenCalledTimes(2);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('backs off and gives up when every restarted app-server exits during startup', async () => {
+    jest.useFakeTimers({ doNotFake: ['setImmediate', 'nextTick'] });
+    try {
+      const children: FakeChild[] = [];
+      mockSpawn.mockImplementation(() => {
+        const fake = createFakeChild();
+        children.push(fake);
+        return fake.child;
+      });
+
+      const runtime = new CodexRuntime(buildSettings('safe'), '/vault');
+      const events: string[] = [];
+      runtime.onConnectionStateChange((event) => events.push(event.state));
+
+      const readyPromise = runtime.ensureReady();
+      await waitFor(() => parseClientMessages(children[0]?.writes ?? []).some((entry) => entry.method === 'initialize'));
+      children[0]?.stdout.write(`${JSON.stringify({ id: 1, result: {} })}\n`);
+      await readyPromise;
+      (children[0]?.child as unknown as EventEmitter).emit('exit', 1);
+
+      for (const [attempt, delay] of RECONNECT_BACKOFF_MS.entries()) {
+        jest.advanceTimersByTime(delay - 1);
+        await flush();
+        expect(children).toHaveLength(attempt + 1);
+        jest.advanceTimersByTime(1);
+        await waitFor(() => children.length === attempt + 2);
+        const restarted = children[attempt + 1];
+        await waitFor(() => parseClientMessages(restarted?.writes ?? []).some((entry) => entry.method === 'initialize'));
+        (restarted?.child as unknown as EventEmitter).emit('exit', 1);
+        await flush();
+      }
+
+      await waitFor(() => events.includes('failed'));
+      jest.advanceTimersByTime(60_000);
+      await flush();
+      expect(children).toHaveLength(RECONNECT_BACKOFF_MS.length + 1);
+      expect(events.filter((state) => state === 'reconnecting')).toHaveLength(RECONNECT_BACKOFF_MS.length);
+      expect(events[events.length - 1]).toBe('failed');
+    } finally {
+      mockSpawn.mockReset();
+      jest.useRealTimers();
+    }
+  });
+
+  it('rejects requests with a typed error after the per-method timeout and ignores late replies', async () => {
+    jest.useFakeTimers({ doNotFake: ['setImmediate', 'nextTick'] });
+    try {
+      const fake = createFakeChild();
+      mockSpawn.mockReturnValue(fake.child);
+
+      const settings = buildSettings('safe');
+      settings.requestTimeouts = { 'thread/list': 2_000 };
+      const runtime = new CodexRuntime(settings, '/vault');
+      const readyPromise = runtime.ensureReady();
+      await waitFor(() => parseClientMessages(fake.writes).some((entry) => entry.method === 'initialize'));
+      fake.stdout.write(`${JSON.stringify({ id: 1, result: {} })}\n`);
+      await readyPromise;
+
+      const listPromise = runtime.listThreads();
+      await waitFor(() => parseClientMessages(fake.writes).some((entry) => entry.method === 'thread/list'));
+
+      jest.advanceTimersByTime(2_000);
+      const error: unknown = await listPromise.catch((reason: unknown) => reason);
+      expect(error).toBeInstanceOf(AppServerTimeoutError);
+      expect(error).toMatchObject({ method: 'thread/list', timeoutMs: 2_000 });
+
+      fake.stdout.write(`${JSON.stringify({ id: 2, result: { data: [] } })}\n`);
+      await flush();
+      expect(runtime.diagnostics.getEntries({ query: 'did not respond to thread/list' })).toHaveLength(1);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('cancels pending requests when the abort signal fires', async () => {
+    const fake = createFakeChild();
+    mockSpawn.mockReturnValue(fake.child);
+
+    const runtime = new CodexRuntime(buildSettings('safe'), '/vault');
+    const readyPromise = runtime.ensureReady();
+    await waitFor(() => parseClientMessages(fake.writes).some((entry) => entry.method === 'initialize'));
+    fake.stdout.write(`${JSON.stringify({ id: 1, result: {} })}\n`);
+    await readyPromise;
+
+    const controller = new AbortController();
+    const modelsPromise = runtime.listModels({ signal: controller.signal });
+    await waitFor(() => parseClientMessages(fake.writes).some((entry) => entry.method === 'model/list'));
+    controller.abort();
+
+    await expect(modelsPromise).rejects.toBeInstanceOf(AppServerCancelledError);
+    await expect(runtime.listSkills({ signal: controller.signal })).rejects.toBeInstanceOf(AppServerCancelledError);
+  });
 });
 
 describe('buildTurnInputItems', () => {
@@ -0,0 +1,41 @@
+import { DiagnosticsLog, formatDiagnosticsEntries } from '../../../../src/core/runtime/DiagnosticsLog';
+
+describe('DiagnosticsLog', () => {
+  it('keeps a bounded ring buffer of the most recent entries', () => {
+    const log = new DiagnosticsLog(3);
+    for (let i = 1; i <= 5; i += 1) {
+      log.record('stderr', `line ${i}`);
+    }
+
+    expect(log.getEntries().map((entry) => entry.text)).toEqual(['line 3', 'line 4', 'line 5']);
+  });
+
+  it('filters by source and query across text and method', () => {
+    const log = new DiagnosticsLog();
+    log.record('rpc-out', '{"id":2,"method":"thread/list"}', 'thread/list');
+    log.record('rpc-in', '{"id":2,"result":{}}');
+    log.record('stderr', 'WARN rate limited');
+    log.record('stderr', '   ');
+
+    expect(log.getEntries({ sources: ['stderr'] }).map((entry) => entry.text)).toEqual(['WARN rate limited']);
+    expect(log.getEntries({ query: 'THREAD/LIST' })).toHaveLength(1);
+    expect(log.getEntries({ sources: ['rpc-in', 'rpc-out'], query: 'result' })).toHaveLength(1);
+  });
+
+  it('notifies listeners and formats entries for export', () => {
+    const log = new DiagnosticsLog();
+    const listener = jest.fn();
+    const unsubscribe = log.onChange(listener);
+
+    log.record('lifecycle', 'App Server exited with code 1.');
+    unsubscribe();
+    log.record('lifecycle', 'ignored by listener');
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    const [entry] = log.getEntries();
+    expect(entry).toBeDefined();
+    expect(formatDiagnosticsEntries(entry ? [entry] : [])).toMatch(
+      /^\d{4}-\d{2}-\d{2}T.*Z \[lifecycle\] App Server exited with code 1\.$/
+    );
+  });
+});
@@ -0,0 +1,60 @@
+import { ApprovalGrants } from '../../../../src/core/security/ApprovalGrants';
+import { ApprovalManager } from '../../../../src/core/security/ApprovalManager';
+import type { CodexianSettings } from '../../../../src/core/types';
+
+const buildSettings = (): CodexianSettings => ({
+  cliPath: 'codex',
+  environmentVariables: '',
+  envSnippets: [],
+  approvalMode: 'prompt',
+  approvalRules: [],
+  commandBlocklist: ['rm -rf *'],
+  pathBlocklist: [],
+  mcpServerApprovals: {},
+  requestTimeouts: {},
+  modelPricing: {},
+  pauseQueueOnFailure: true,
+  customModes: [],
+  sessionsFolder: '.codexian/sessions',
+  sessionRetention: { maxAgeDays: 0, maxCount: 0, archive: true, archiveThreads: false },
+});
+
+describe('ApprovalGrants', () => {
+  it('scopes turn grants to their turn and thread grants to their thread', () => {
+    const grants = new ApprovalGrants();
+    grants.add({ rule: { kind: 'command', pattern: 'npm test' }, scope: 'turn', threadId: 't1', turnId: 'turn-1' });
+    grants.add({ rule: { kind: 'path', pattern: 'notes/' }, scope: 'thread', threadId: 't1', turnId: 'turn-1' });
+
+    expect(grants.getRules({ threadId: 't1', turnId: 'turn-1' })).toHaveLength(2);
+    expect(grants.getRules({ threadId: 't1', turnId: 'turn-2' })).toEqual([{ kind: 'path', pattern: 'notes/' }]);
+    expect(grants.getRules({ threadId: 't2', turnId: 'turn-1' })).toEqual([]);
+
+    grants.expireTurn('t1', 'turn-1');
+    expect(grants.getRules({ threadId: 't1', turnId: 'turn-1' })).toEqual([{ kind: 'path', pattern: 'notes/' }]);
+
+    grants.expireThread('t1');
+    expect(grants.list()).toEqual([]);
+  });
+
+  it('lets the approval manager accept granted commands without persisting rules', () => {
+    const settings = buildSettings();
+    const grants = new ApprovalGrants();
+    const manager = new ApprovalManager(settings, '/vault', grants);
+    const context = { threadId: 't1', turnId: 'turn-1' };
+
+    manager.addGrant({ kind: 'command', pattern: 'npm test', matcher: 'exact' }, 'turn', context);
+    manager.addGrant({ kind: 'command', pattern: 'rm -rf *' }, 'thread', context);
+
+    expect(manager.resolveCommand({ command: 'npm test', ...context }).decision).toBe('accept');
+    expect(manager.resolveCommand({ command: 'npm test', threadId: 't1', turnId: 'turn-2' }).requiresPrompt).toBe(true);
+    expect(manager.resolveCommand({ command: 'npm test' }).requiresPrompt).toBe(true);
+    expect(manager.resolveCommand({ command: 'rm -rf notes', ...context })).toMatchObject({
+      decision: 'decline',
+      requiresPrompt: false,
+    });
+    expect(settings.approvalRules).toEqual([]);
+
+    grants.revoke({ kind: 'command', pattern: 'npm test', matcher: 'exact' });
+    expect(manager.resolveCommand({ command: 'npm test', ...context }).requiresPrompt).toBe(true);
+  });
+});
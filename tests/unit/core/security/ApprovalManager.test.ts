@@ -1,3 +1,7 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
 import { ApprovalManager, approvalMatchers } from '../../../../src/core/security/ApprovalManager';
 import type { CodexianSettings } from '../../../../src/core/types';
 
@@ -9,6 +13,13 @@ const buildSettings = (): CodexianSettings => ({
   approvalRules: [],
   commandBlocklist: [],
   pathBlocklist: [],
+  mcpServerApprovals: {},
+  requestTimeouts: {},
+  modelPricing: {},
+  pauseQueueOnFailure: true,
+  customModes: [],
+  sessionsFolder: '.codexian/sessions',
+  sessionRetention: { maxAgeDays: 0, maxCount: 0, archive: true, archiveThreads: false },
 });
 
 describe('ApprovalManager', () => {
@@ -29,10 +40,12 @@ describe('ApprovalManager', () => {
     expect(manager.resolveCommand({ command: 'git status' })).toEqual({
       decision: 'accept',
       requiresPrompt: false,
+      matchedRules: [{ kind: 'command', pattern: 'git *' }],
     });
     expect(manager.resolveCommand({ command: 'git push --force' })).toEqual({
       decision: 'decline',
       requiresPrompt: false,
+      blockedBy: 'git push --force',
     });
   });
 
@@ -62,10 +75,206 @@ describe('ApprovalManager', () => {
     expect(manager.resolveFileChange({ paths: ['src/index.ts'] })).toEqual({
       decision: 'accept',
       requiresPrompt: false,
+      matchedRules: [{ kind: 'path', pattern: 'src/' }],
     });
     expect(manager.resolveFileChange({ paths: ['src/secrets/token.txt'] })).toEqual({
       decision: 'decline',
       requiresPrompt: false,
+      blockedBy: 'src/secrets',
+    });
+  });
+
+  it('applies glob and regex rules to commands and paths', () => {
+    const settings = buildSettings();
+    settings.approvalRules = [
+      { kind: 'command', pattern: 'git diff*', matcher: 'glob' },
+      { kind: 'command', pattern: '^npm (test|run lint)$', matcher: 'regex' },
+      { kind: 'path', pattern: 'notes/**/*.md', matcher: 'glob' },
+    ];
+    settings.commandBlocklist = ['git push --force*', 'regex: \\brm\\s+-rf\\b'];
+    settings.pathBlocklist = ['**/.private/**'];
+    const manager = new ApprovalManager(settings, '/vault');
+
+    expect(manager.resolveCommand({ command: 'git diff --stat' }).decision).toBe('accept');
+    expect(manager.resolveCommand({ command: 'npm run lint' }).decision).toBe('accept');
+    expect(manager.resolveCommand({ command: 'git push --force origin main' })).toEqual({
+      decision: 'decline',
+      requiresPrompt: false,
+      blockedBy: 'git push --force*',
+    });
+    expect(manager.resolveCommand({ command: 'cd /tmp && rm -rf build' }).requiresPrompt).toBe(false);
+    expect(manager.resolveCommand({ command: 'npm run build' }).requiresPrompt).toBe(true);
+
+    expect(manager.resolveFileChange({ paths: ['notes/daily/2026-01-02.md'] }).decision).toBe('accept');
+    expect(manager.resolveFileChange({ paths: ['notes/image.png'] }).requiresPrompt).toBe(true);
+    expect(manager.resolveFileChange({ paths: ['notes/.private/workspace.md'] })).toEqual({
+      decision: 'decline',
+      requiresPrompt: false,
+      blockedBy: '**/.private/**',
+    });
+  });
+
+  it('requires every part of a compound command to pass the rules', () => {
+    const settings = buildSettings();
+    settings.approvalRules = [
+      { kind: 'command', pattern: 'ls *' },
+      { kind: 'command', pattern: 'git status' },
+    ];
+    settings.commandBlocklist = ['rm -rf *'];
+    const manager = new ApprovalManager(settings, '/vault');
+
+    expect(manager.resolveCommand({ command: 'ls -la && git status' })).toEqual({
+      decision: 'accept',
+      requiresPrompt: false,
+      matchedRules: settings.approvalRules,
+    });
+    expect(manager.resolveCommand({ command: 'ls; rm -rf notes' })).toEqual({
+      decision: 'decline',
+      requiresPrompt: false,
+      blockedBy: 'rm -rf *',
+    });
+    expect(manager.resolveCommand({ command: 'bash -lc "ls | wc -l"' })).toEqual({
+      decision: 'decline',
+      requiresPrompt: true,
+    });
+    for (const command of ['ls; > notes/a.md', 'ls && >>notes/a.md', '(ls) > notes/a.md']) {
+      expect(manager.resolveCommand({ command })).toEqual({ decision: 'decline', requiresPrompt: true });
+    }
+    expect(manager.resolveCommand({ command: '(ls -la) > /dev/null' }).decision).toBe('accept');
+    expect(manager.assessCommand('ls $(cat list) | wc -l')).toEqual([
+      { command: 'cat list', status: 'unmatched' },
+      { command: 'ls $(cat list)', status: 'allowed' },
+      { command: 'wc -l', status: 'unmatched' },
+    ]);
+  });
+
+  it('never lets a turn approve changes to the approval audit log', () => {
+    const settings = buildSettings();
+    settings.approvalMode = 'yolo';
+    settings.sessionsFolder = 'Archive/codex';
+    settings.approvalRules = [{ kind: 'path', pattern: '**', matcher: 'glob' }];
+    const manager = new ApprovalManager(settings, '/vault');
+
+    expect(manager.resolveFileChange({ paths: ['Archive/codex/audit/approval-audit.jsonl'] })).toEqual({
+      decision: 'decline',
+      requiresPrompt: false,
+      blockedBy: 'Archive/codex/audit',
+    });
+    expect(manager.resolveFileChange({ paths: ['Archive/codex/notes.md'] }).decision).toBe('accept');
+  });
+
+  it('resolves mcp tool calls with tool rules before server defaults', () => {
+    const settings = buildSettings();
+    settings.approvalMode = 'yolo';
+    settings.approvalRules = [
+      { kind: 'tool', pattern: 'github/list_*' },
+      { kind: 'command', pattern: 'github/create_issue' },
+    ];
+    settings.mcpServerApprovals = { github: 'deny', filesystem: 'prompt', docs: 'allow' };
+    const manager = new ApprovalManager(settings, '/vault');
+
+    expect(manager.resolveTool({ server: 'github', tool: 'list_issues' })).toEqual({
+      decision: 'accept',
+      requiresPrompt: false,
+      matchedRules: [{ kind: 'tool', pattern: 'github/list_*' }],
+    });
+    expect(manager.resolveTool({ server: 'github', tool: 'create_issue' })).toEqual({
+      decision: 'decline',
+      requiresPrompt: false,
+    });
+    expect(manager.resolveTool({ server: 'filesystem', tool: 'write_file' }).requiresPrompt).toBe(true);
+    expect(manager.resolveTool({ server: 'docs', tool: 'search' }).decision).toBe('accept');
+    expect(manager.resolveTool({ server: 'other', tool: 'run' }).decision).toBe('accept');
+
+    settings.approvalMode = 'safe';
+    expect(manager.resolveTool({ server: 'other', tool: 'run' })).toEqual({ decision: 'decline', requiresPrompt: false });
+  });
+
+  it('keeps the matcher when storing always-allow rules', () => {
+    const settings = buildSettings();
+    const manager = new ApprovalManager(settings, '/vault');
+
+    manager.addAllowRule({ kind: 'path', pattern: 'notes/**/*.md', matcher: 'glob' });
+    manager.addAllowRule({ kind: 'path', pattern: 'notes/**/*.md', matcher: 'glob' });
+    manager.addAllowRule({ kind: 'path', pattern: 'src/./lib/' });
+
+    expect(settings.approvalRules).toEqual([
+      { kind: 'path', pattern: 'notes/**/*.md', matcher: 'glob' },
+      { kind: 'path', pattern: 'src/lib' },
+    ]);
+  });
+
+  describe('with symlinks', () => {
+    let root: string;
+    let vault: string;
+
+    beforeEach(() => {
+      root = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'codexian-approval-')));
+      vault = path.join(root, 'vault');
+      fs.mkdirSync(path.join(vault, 'notes', 'drafts'), { recursive: true });
+      fs.mkdirSync(path.join(vault, 'secrets'));
+      fs.mkdirSync(path.join(root, 'outside', 'nested'), { recursive: true });
+      fs.symlinkSync(path.join(root, 'outside'), path.join(vault, 'escape'), 'dir');
+      fs.symlinkSync(path.join(root, 'outside', 'nested'), path.join(vault, 'hop'), 'dir');
+      fs.symlinkSync(path.join(vault, 'secrets'), path.join(vault, 'notes', 'alias'), 'dir');
+    });
+
+    afterEach(() => {
+      fs.rmSync(root, { recursive: true, force: true });
+    });
+
+    it('declines paths that leave the vault through a symlink', () => {
+      const settings = buildSettings();
+      settings.approvalMode = 'yolo';
+      const manager = new ApprovalManager(settings, vault);
+
+      expect(manager.isPathInsideVault('notes/drafts/new.md')).toBe(true);
+      expect(manager.isPathInsideVault('escape/new-file.md')).toBe(false);
+      expect(manager.isPathInsideVault('escape/missing/dir/file.md')).toBe(false);
+      expect(manager.isPathInsideVault('hop/../../outside/a.md')).toBe(false);
+      expect(manager.isPathInsideVault('hop/../nested/a.md')).toBe(false);
+      expect(manager.resolveFileChange({ paths: ['notes/a.md', 'escape/a.md'] })).toEqual({
+        decision: 'decline',
+        requiresPrompt: false,
+      });
+    });
+
+    it('applies blocklists to the real path behind an alias', () => {
+      const settings = buildSettings();
+      settings.approvalRules = [{ kind: 'path', pattern: 'notes/' }];
+      settings.pathBlocklist = ['secrets'];
+      const manager = new ApprovalManager(settings, vault);
+
+      expect(manager.resolveFileChange({ paths: ['notes/drafts/a.md'] }).decision).toBe('accept');
+      expect(manager.resolveFileChange({ paths: ['notes/alias/token.txt'] })).toEqual({
+        decision: 'decline',
+        requiresPrompt: false,
+        blockedBy: 'secrets',
+      });
+      expect(manager.resolveFileChange({ paths: ['notes/drafts/../alias/new/token.txt'] }).blockedBy).toBe('secrets');
+    });
+
+    it('matches allow rules against the real path only', () => {
+      const settings = buildSettings();
+      settings.approvalRules = [{ kind: 'path', pattern: 'notes/' }];
+      const manager = new ApprovalManager(settings, vault);
+
+      expect(manager.resolveFileChange({ paths: ['notes/alias/report.md'] })).toEqual({
+        decision: 'decline',
+        requiresPrompt: true,
+      });
+    });
+
+    it('resolves a vault opened through a symlink', () => {
+      const link = path.join(root, 'vault-link');
+      fs.symlinkSync(vault, link, 'dir');
+      const settings = buildSettings();
+      settings.pathBlocklist = ['secrets'];
+      const manager = new ApprovalManager(settings, link);
+
+      expect(manager.isPathInsideVault('notes/a.md')).toBe(true);
+      expect(manager.isPathInsideVault(path.join(vault, 'notes', 'a.md'))).toBe(true);
+      expect(manager.resolveFileChange({ paths: ['notes/alias/a.md'] }).blockedBy).toBe('secrets');
     });
   });
 });
@@ -0,0 +1,58 @@
+import { splitCompoundCommand, tokenizeShellWords } from '../../../../src/core/security/CommandParser';
+
+describe('CommandParser', () => {
+  it('splits on sequence, boolean and pipe operators', () => {
+    expect(splitCompoundCommand('ls; rm -rf notes')).toEqual(['ls', 'rm -rf notes']);
+    expect(splitCompoundCommand('npm test && git push || echo failed')).toEqual([
+      'npm test',
+      'git push',
+      'echo failed',
+    ]);
+    expect(splitCompoundCommand('cat log.txt | grep error |& tee out')).toEqual([
+      'cat log.txt',
+      'grep error',
+      'tee out',
+    ]);
+    expect(splitCompoundCommand('sleep 1 & rm x\nls')).toEqual(['sleep 1', 'rm x', 'ls']);
+  });
+
+  it('keeps operators inside quotes and redirections intact', () => {
+    expect(splitCompoundCommand(`echo "a; b" 'c && d'`)).toEqual([`echo "a; b" 'c && d'`]);
+    expect(splitCompoundCommand('npm test 2>&1 > out.log')).toEqual(['npm test 2>&1 > out.log']);
+    expect(splitCompoundCommand('grep a\\;b file')).toEqual(['grep a\\;b file']);
+  });
+
+  it('extracts subshells, groups and command substitutions', () => {
+    expect(splitCompoundCommand('(cd notes && rm -rf drafts) > /dev/null')).toEqual(['cd notes', 'rm -rf drafts']);
+    expect(splitCompoundCommand('{ ls; rm x; }')).toEqual(['ls', 'rm x']);
+    expect(splitCompoundCommand('echo $(rm -rf notes)')).toEqual(['rm -rf notes', 'echo $(rm -rf notes)']);
+    expect(splitCompoundCommand('echo "today: `date`"')).toEqual(['date', 'echo "today: `date`"']);
+    expect(splitCompoundCommand('diff <(ls a) <(ls b)')).toEqual(['ls a', 'ls b', 'diff <(ls a) <(ls b)']);
+  });
+
+  it('keeps standalone redirections and redirections that write after a group', () => {
+    expect(splitCompoundCommand('ls; > notes/a.md')).toEqual(['ls', '> notes/a.md']);
+    expect(splitCompoundCommand('git status && >>x.md')).toEqual(['git status', '>>x.md']);
+    expect(splitCompoundCommand('(ls) > notes/a.md')).toEqual(['ls', '> notes/a.md']);
+    expect(splitCompoundCommand('{ ls; rm x; } >> out')).toEqual(['ls', 'rm x', '>> out']);
+    expect(splitCompoundCommand('(ls) 2>&1 < in.txt')).toEqual(['ls', '2>&1 < in.txt']);
+    expect(splitCompoundCommand('(ls) 2>/dev/null')).toEqual(['ls']);
+  });
+
+  it('unwraps shell -c wrappers and control keywords', () => {
+    expect(splitCompoundCommand(`bash -lc "ls && rm -rf 'my notes'"`)).toEqual(['ls', "rm -rf 'my notes'"]);
+    expect(splitCompoundCommand(`/bin/sh -c 'git status; git push'`)).toEqual(['git status', 'git push']);
+    expect(splitCompoundCommand('if test -f a; then rm a; fi')).toEqual(['test -f a', 'rm a']);
+    expect(splitCompoundCommand('bash script.sh')).toEqual(['bash script.sh']);
+  });
+
+  it('tokenizes shell words with quotes and escapes', () => {
+    expect(tokenizeShellWords(`bash -lc "echo \\"hi\\" && ls" '' a\\ b`)).toEqual([
+      'bash',
+      '-lc',
+      'echo "hi" && ls',
+      '',
+      'a b',
+    ]);
+  });
+});
@@ -0,0 +1,158 @@
+import { ApprovalManager, type ApprovalPolicySettings } from '../../../../src/core/security/ApprovalManager';
+import {
+  FolderPolicyError,
+  getAncestorFolders,
+  loadNearestFolderPolicies,
+  mergeFolderPolicies,
+  parseFolderPolicy,
+  restrictModePolicies,
+} from '../../../../src/core/security/FolderPolicy';
+
+const base: ApprovalPolicySettings = {
+  approvalMode: 'prompt',
+  approvalRules: [{ kind: 'command', pattern: 'git status' }],
+  commandBlocklist: ['rm -rf *'],
+  pathBlocklist: [],
+  mcpServerApprovals: {},
+};
+
+const policyFiles: Record<string, unknown> = {
+  Journal: { readOnly: true },
+  'Projects/scripts': {
+    approvalRules: ['command: npm test', { kind: 'path', pattern: 'build/' }, 'path: glob: **/*.log'],
+    pathBlocklist: ['secrets'],
+  },
+  Broken: { approvalMode: 'sometimes' },
+};
+
+const readPolicy = async (folder: string): Promise<{ source: string; raw: unknown } | null> =>
+  folder in policyFiles ? { source: `${folder}/.codexian.json`, raw: policyFiles[folder] } : null;
+
+describe('FolderPolicy', () => {
+  it('lists ancestor folders nearest first', () => {
+    expect(getAncestorFolders('Projects/scripts/run.md')).toEqual(['Projects/scripts', 'Projects', '']);
+    expect(getAncestorFolders('note.md')).toEqual(['']);
+  });
+
+  it('scopes path patterns to the policy folder', () => {
+    const policy = parseFolderPolicy(policyFiles['Projects/scripts'], 'Projects/scripts', 'p.json');
+    expect(policy.approvalRules).toEqual([
+      { kind: 'command', pattern: 'npm test', matcher: 'exact' },
+      { kind: 'path', pattern: 'Projects/scripts/build/', matcher: 'prefix' },
+      { kind: 'path', pattern: 'Projects/scripts/**/*.log', matcher: 'glob' },
+    ]);
+    expect(policy.pathBlocklist).toEqual(['Projects/scripts/secrets']);
+  });
+
+  it('rejects malformed policies', () => {
+    expect(() => parseFolderPolicy(policyFiles.Broken, 'Broken', 'b.json')).toThrow(FolderPolicyError);
+    expect(() => parseFolderPolicy({ approvalRules: ['npm test'] }, 'x', 'x.json')).toThrow(/command: <pattern>/);
+    expect(() => parseFolderPolicy({ commandBlocklist: 'rm' }, 'x', 'x.json')).toThrow(/list of strings/);
+    expect(() => parseFolderPolicy({ approvalRules: ['path: regex: .*'] }, 'x', 'x.json')).toThrow(/not a regex/);
+    expect(() =>
+      parseFolderPolicy({ approvalRules: [{ kind: 'path', pattern: '.*', matcher: 'regex' }] }, 'x', 'x.json')
+    ).toThrow(FolderPolicyError);
+  });
+
+  it('rejects catch-all and regex command rules', () => {
+    for (const rule of ['command: *', 'command: * *', 'command: glob: *rm*', 'command: regex: .*']) {
+      expect(() => parseFolderPolicy({ approvalRules: [rule] }, 'x', 'x.json')).toThrow(/literal command name/);
+    }
+    expect(() =>
+      parseFolderPolicy({ approvalRules: [{ kind: 'command', pattern: 'npm', matcher: 'regex' }] }, 'x', 'x.json')
+    ).toThrow(FolderPolicyError);
+    expect(parseFolderPolicy({ approvalRules: ['command: git diff*'] }, 'x', 'x.json').approvalRules).toEqual([
+      { kind: 'command', pattern: 'git diff*', matcher: 'glob' },
+    ]);
+  });
+
+  it('rejects catch-all and regex tool rules', () => {
+    for (const rule of ['tool: *', 'tool: */*', 'tool: git*/list_issues', 'tool: regex: github/.*']) {
+      expect(() => parseFolderPolicy({ approvalRules: [rule] }, 'x', 'x.json')).toThrow(/literal server/);
+    }
+    expect(parseFolderPolicy({ approvalRules: ['tool: github/list_*'] }, 'x', 'x.json').approvalRules).toEqual([
+      { kind: 'tool', pattern: 'github/list_*', matcher: 'glob' },
+    ]);
+  });
+
+  it('loads the nearest policy for each context file and reports errors', async () => {
+    const { policies, errors } = await loadNearestFolderPolicies(
+      ['Projects/scripts/tools/run.md', 'Journal/2026/today.md', 'Broken/a.md', 'Inbox/b.md'],
+      readPolicy
+    );
+    expect(policies.map((policy) => policy.folder)).toEqual(['Projects/scripts', 'Journal']);
+    expect(errors.map((error) => error.source)).toEqual(['Broken/.codexian.json']);
+  });
+
+  it('merges policies into approval and sandbox settings', async () => {
+    const { policies } = await loadNearestFolderPolicies(['Projects/scripts/run.md', 'Journal/a.md'], readPolicy);
+    const merged = mergeFolderPolicies(base, policies);
+
+    expect(merged.sandbox).toBe('readOnly');
+    expect(merged.pathBlocklist).toEqual(['Journal', 'Projects/scripts/secrets']);
+    expect(merged.commandBlocklist).toEqual(['rm -rf *']);
+    expect(merged.sources).toEqual(['Projects/scripts/.codexian.json', 'Journal/.codexian.json']);
+
+    const manager = new ApprovalManager(base, '/vault', undefined, (context) =>
+      context.threadId === 'thread-1' ? merged : undefined
+    );
+    expect(manager.resolveCommand({ command: 'npm test', threadId: 'thread-1' }).decision).toBe('accept');
+    expect(manager.resolveCommand({ command: 'npm test', threadId: 'thread-2' }).requiresPrompt).toBe(true);
+    expect(manager.resolveFileChange({ paths: ['Journal/today.md'], threadId: 'thread-1' })).toMatchObject({
+      decision: 'decline',
+      requiresPrompt: false,
+      blockedBy: 'Journal',
+    });
+    expect(manager.resolveFileChange({ paths: ['Projects/scripts/build/out.js'], threadId: 'thread-1' }).decision).toBe(
+      'accept'
+    );
+  });
+
+  it('never lets a turn approve changes to policy sources', () => {
+    const manager = new ApprovalManager(
+      { ...base, approvalMode: 'yolo', approvalRules: [{ kind: 'path', pattern: '**', matcher: 'glob' }] },
+      '/vault'
+    );
+    for (const policyFile of ['.codexian.json', 'Projects/scripts/.codexian.json']) {
+      expect(manager.resolveFileChange({ paths: [policyFile] })).toEqual({
+        decision: 'decline',
+        requiresPrompt: false,
+        blockedBy: 'glob: **/.codexian.json',
+      });
+    }
+    expect(manager.resolveFileChange({ paths: ['Projects/Projects.md'] })).toEqual({
+      decision: 'decline',
+      requiresPrompt: true,
+    });
+    expect(manager.resolveFileChange({ paths: ['Projects/today.md'] }).decision).toBe('accept');
+  });
+
+  it('never loosens the global approval mode', () => {
+    const yolo = parseFolderPolicy({ approvalMode: 'yolo' }, 'A', 'a.json');
+    expect(mergeFolderPolicies({ ...base, approvalMode: 'safe' }, [yolo]).approvalMode).toBe('safe');
+    expect(mergeFolderPolicies(base, [yolo]).approvalMode).toBe('prompt');
+    expect(mergeFolderPolicies({ ...base, approvalMode: 'yolo' }, [parseFolderPolicy({}, 'B', 'b.json')]).approvalMode).toBe(
+      'yolo'
+    );
+    expect(mergeFolderPolicies(base, [parseFolderPolicy({ approvalMode: 'safe' }, 'C', 'c.json')]).approvalMode).toBe(
+      'safe'
+    );
+  });
+
+  it('never loosens the mode sandbox and re-enables approvals when needed', () => {
+    const strict = mergeFolderPolicies(base, [parseFolderPolicy({ approvalMode: 'safe' }, 'A', 'a.json')]);
+    expect(
+      restrictModePolicies({ approvalPolicy: 'never', sandboxPolicy: { type: 'dangerFullAccess' } }, strict)
+    ).toEqual({ approvalPolicy: 'on-request', sandboxPolicy: { type: 'dangerFullAccess' } });
+
+    const loose = mergeFolderPolicies(base, [parseFolderPolicy({ sandbox: 'dangerFullAccess' }, 'B', 'b.json')]);
+    expect(restrictModePolicies({ approvalPolicy: 'on-request', sandboxPolicy: { type: 'readOnly' } }, loose)).toEqual({
+      approvalPolicy: 'on-request',
+      sandboxPolicy: { type: 'readOnly' },
+    });
+    const custom = { type: 'workspaceWrite' as const, writableRoots: ['/tmp/builds'], networkAccess: true };
+    expect(restrictModePolicies({ approvalPolicy: 'on-request', sandboxPolicy: custom }, loose).sandboxPolicy).toBe(custom);
+    expect(restrictModePolicies({ approvalPolicy: 'on-request', sandboxPolicy: custom }, strict).sandboxPolicy).toBe(custom);
+    expect(restrictModePolicies({ approvalPolicy: 'on-request' }, null)).toEqual({ approvalPolicy: 'on-request' });
+  });
+});
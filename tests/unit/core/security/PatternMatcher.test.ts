@@ -0,0 +1,67 @@
+import {
+  formatPatternSpec,
+  globToRegExpSource,
+  inferMatcherType,
+  matchesCommandPattern,
+  matchesPathPattern,
+  parsePatternSpec,
+  validatePatternSpec,
+} from '../../../../src/core/security/PatternMatcher';
+
+describe('PatternMatcher', () => {
+  it('infers matchers while keeping legacy command and path patterns working', () => {
+    expect(inferMatcherType('git status', 'command')).toBe('exact');
+    expect(inferMatcherType('git *', 'command')).toBe('prefix');
+    expect(inferMatcherType('git diff*', 'command')).toBe('glob');
+    expect(inferMatcherType('src/', 'path')).toBe('prefix');
+    expect(inferMatcherType('notes/**/*.md', 'path')).toBe('glob');
+  });
+
+  it('parses explicit matcher prefixes and formats them back', () => {
+    expect(parsePatternSpec('regex: ^git (status|diff)\\b', 'command')).toEqual({
+      matcher: 'regex',
+      pattern: '^git (status|diff)\\b',
+    });
+    expect(parsePatternSpec('Glob:docs/*', 'path')).toEqual({ matcher: 'glob', pattern: 'docs/*' });
+    expect(parsePatternSpec('rm -rf', 'command', 'prefix')).toEqual({ matcher: 'prefix', pattern: 'rm -rf' });
+
+    expect(formatPatternSpec({ matcher: 'glob', pattern: 'git diff*' }, 'command')).toBe('git diff*');
+    expect(formatPatternSpec({ matcher: 'exact', pattern: 'git *' }, 'command')).toBe('exact: git *');
+    expect(formatPatternSpec({ matcher: 'regex', pattern: '^npm' }, 'command')).toBe('regex: ^npm');
+  });
+
+  it('matches commands by exact, prefix, glob and regex', () => {
+    expect(matchesCommandPattern('git status', { matcher: 'exact', pattern: 'git status' })).toBe(true);
+    expect(matchesCommandPattern('git', { matcher: 'prefix', pattern: 'git *' })).toBe(true);
+    expect(matchesCommandPattern('gitk', { matcher: 'prefix', pattern: 'git' })).toBe(false);
+    expect(matchesCommandPattern('git diff --stat', { matcher: 'glob', pattern: 'git diff*' })).toBe(true);
+    expect(matchesCommandPattern('git push --force origin', { matcher: 'glob', pattern: 'git push --force*' })).toBe(
+      true
+    );
+    expect(matchesCommandPattern('npm run lint', { matcher: 'glob', pattern: 'npm run {lint,test}' })).toBe(true);
+    expect(matchesCommandPattern('npm run build', { matcher: 'glob', pattern: 'npm run {lint,test}' })).toBe(false);
+    expect(matchesCommandPattern('git diff HEAD', { matcher: 'regex', pattern: '^git (status|diff)\\b' })).toBe(true);
+    expect(matchesCommandPattern('git push', { matcher: 'regex', pattern: '(' })).toBe(false);
+  });
+
+  it('matches paths with segment-aware globs', () => {
+    expect(globToRegExpSource('notes/**/*.md', 'path')).toBe('^notes\\/(?:.*/)?[^/]*\\.md$');
+    expect(matchesPathPattern('notes/a.md', { matcher: 'glob', pattern: 'notes/**/*.md' })).toBe(true);
+    expect(matchesPathPattern('notes/x/y/a.md', { matcher: 'glob', pattern: 'notes/**/*.md' })).toBe(true);
+    expect(matchesPathPattern('notes/x/a.txt', { matcher: 'glob', pattern: 'notes/**/*.md' })).toBe(false);
+    expect(matchesPathPattern('notes/x/a.md', { matcher: 'glob', pattern: 'notes/*.md' })).toBe(false);
+    expect(matchesPathPattern('.private/plugins/a.json', { matcher: 'glob', pattern: '**/.private/**' })).toBe(true);
+    expect(matchesPathPattern('sub/.private/app.json', { matcher: 'glob', pattern: '**/.private/**' })).toBe(true);
+    expect(matchesPathPattern('Notes/A.md', { matcher: 'glob', pattern: 'notes/*.md' }, true)).toBe(true);
+    expect(matchesPathPattern('src/app.ts', { matcher: 'prefix', pattern: 'src/' })).toBe(true);
+    expect(matchesPathPattern('src2/app.ts', { matcher: 'prefix', pattern: 'src' })).toBe(false);
+    expect(matchesPathPattern('logs/2026.log', { matcher: 'regex', pattern: '\\.log$' })).toBe(true);
+  });
+
+  it('reports invalid patterns', () => {
+    expect(validatePatternSpec({ matcher: 'regex', pattern: '(' }, 'command')).toMatch(/regular expression/i);
+    expect(validatePatternSpec({ matcher: 'glob', pattern: 'notes/{a,b' }, 'path')).toBe('Unbalanced braces in glob.');
+    expect(validatePatternSpec({ matcher: 'exact', pattern: '' }, 'path')).toBe('Pattern is empty.');
+    expect(validatePatternSpec({ matcher: 'glob', pattern: 'notes/**/*.md' }, 'path')).toBeNull();
+  });
+});
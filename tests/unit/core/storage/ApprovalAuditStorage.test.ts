@@ -0,0 +1,103 @@
+import {
+  ApprovalAuditStorage,
+  getApprovalAuditFolder,
+  LEGACY_APPROVAL_AUDIT_PATH,
+} from '../../../../src/core/storage/ApprovalAuditStorage';
+import type { ApprovalAuditRecord } from '../../../../src/core/types';
+
+class InMemoryAdapter {
+  readonly files = new Map<string, string>();
+  readonly dirs = new Set<string>();
+  readonly appends: string[] = [];
+
+  async exists(path: string): Promise<boolean> {
+    return this.files.has(path) || this.dirs.has(path);
+  }
+
+  async read(path: string): Promise<string> {
+    const content = this.files.get(path);
+    if (content === undefined) {
+      throw new Error(`Missing file: ${path}`);
+    }
+    return content;
+  }
+
+  async write(path: string, content: string): Promise<void> {
+    this.files.set(path, content);
+  }
+
+  async append(path: string, content: string): Promise<void> {
+    this.appends.push(path);
+    this.files.set(path, `${this.files.get(path) ?? ''}${content}`);
+  }
+
+  async rename(from: string, to: string): Promise<void> {
+    const content = await this.read(from);
+    this.files.delete(from);
+    this.files.set(to, content);
+  }
+
+  async remove(path: string): Promise<void> {
+    this.files.delete(path);
+  }
+
+  async mkdir(path: string): Promise<void> {
+    this.dirs.add(path);
+  }
+}
+
+const makeRecord = (id: string, timestamp: number): ApprovalAuditRecord => ({
+  id,
+  timestamp,
+  outcome: 'auto-accept',
+  kind: 'commandExecution',
+  mode: 'prompt',
+  threadId: 'thread-1',
+  turnId: 'turn-1',
+  command: 'git status',
+  paths: [],
+  matchedRules: [{ kind: 'command', pattern: 'git *' }],
+});
+
+describe('ApprovalAuditStorage', () => {
+  it('appends records as JSONL lines and reads them back', async () => {
+    const adapter = new InMemoryAdapter();
+    const storage = new ApprovalAuditStorage(adapter as never);
+
+    void storage.append(makeRecord('a', 1));
+    void storage.append(makeRecord('b', 2));
+    const records = await storage.load();
+
+    expect(adapter.dirs.has('.codexian/sessions/audit')).toBe(true);
+    expect(adapter.appends).toEqual(['.codexian/sessions/audit/approval-audit.jsonl']);
+    expect(records.map((record) => record.id)).toEqual(['a', 'b']);
+    expect(records[0]).toEqual(makeRecord('a', 1));
+  });
+
+  it('skips malformed lines', async () => {
+    const adapter = new InMemoryAdapter();
+    adapter.files.set(
+      '.codexian/sessions/audit/approval-audit.jsonl',
+      `not json\n${JSON.stringify({ id: 'x' })}\n${JSON.stringify(makeRecord('ok', 3))}\n`
+    );
+    const storage = new ApprovalAuditStorage(adapter as never);
+
+    expect((await storage.load()).map((record) => record.id)).toEqual(['ok']);
+  });
+
+  it('merges the legacy log and moves the log with the sessions folder', async () => {
+    const adapter = new InMemoryAdapter();
+    adapter.files.set(LEGACY_APPROVAL_AUDIT_PATH, `${JSON.stringify(makeRecord('old', 1))}\n`);
+    const storage = new ApprovalAuditStorage(adapter as never);
+
+    void storage.append(makeRecord('new', 2));
+    await expect(storage.importLog(LEGACY_APPROVAL_AUDIT_PATH)).resolves.toBe(true);
+    await expect(storage.importLog(LEGACY_APPROVAL_AUDIT_PATH)).resolves.toBe(false);
+    expect(adapter.files.has(LEGACY_APPROVAL_AUDIT_PATH)).toBe(false);
+    expect((await storage.load()).map((record) => record.id)).toEqual(['old', 'new']);
+
+    await storage.changeFolder(getApprovalAuditFolder('Archive/codex'));
+    expect([...adapter.files.keys()]).toEqual(['Archive/codex/audit/approval-audit.jsonl']);
+    expect((await storage.load()).map((record) => record.id)).toEqual(['old', 'new']);
+  });
+});
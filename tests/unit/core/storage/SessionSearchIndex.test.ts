@@ -0,0 +1,86 @@
+import {
+  buildSearchSnippet,
+  buildSessionSearchDocuments,
+  extractItemSearchText,
+  SessionSearchIndex,
+  tokenizeSearchText,
+} from '../../../../src/core/storage/SessionSearchIndex';
+import type { CodexianConversation } from '../../../../src/core/types';
+
+const conversation: CodexianConversation = {
+  id: 'session-1',
+  title: 'Session',
+  createdAt: 1,
+  updatedAt: 2,
+  messages: [
+    { id: 'm1', role: 'user', content: 'Refactor the parser', timestamp: 10 },
+    { id: 'm2', role: 'assistant', content: 'Done.', timestamp: 11 },
+    { id: 'm3', role: 'user', content: '   ', timestamp: 20 },
+  ],
+  items: [
+    { itemType: 'fileChange', timestamp: 12, item: { changes: [{ path: 'src/parser.ts' }, { path: 'docs/Parser.md' }] } },
+    { itemType: 'mcpToolCall', timestamp: 5, item: { server: 'github', tool: 'create_issue' } },
+    { itemType: 'reasoning', timestamp: 13, item: { text: 'thinking' } },
+  ],
+};
+
+describe('SessionSearchIndex', () => {
+  it('tokenizes words and extracts what items did', () => {
+    expect(tokenizeSearchText('Run `npm test` — a Ünïcode_word!')).toEqual(['run', 'npm', 'test', 'ünïcode_word']);
+    expect(extractItemSearchText({ command: 'git status', aggregatedOutput: 'clean' })).toBe('git status');
+    expect(extractItemSearchText({ server: 'github', tool: 'create_issue' })).toBe('github/create_issue');
+    expect(extractItemSearchText('raw')).toBe('');
+  });
+
+  it('builds documents that point items at the message they followed', () => {
+    const documents = buildSessionSearchDocuments(conversation);
+    expect(documents).toEqual([
+      { kind: 'message', text: 'Refactor the parser', messageId: 'm1', role: 'user', roleIndex: 0 },
+      { kind: 'message', text: 'Done.', messageId: 'm2', role: 'assistant', roleIndex: 0 },
+      {
+        kind: 'item',
+        text: 'src/parser.ts\ndocs/Parser.md',
+        itemType: 'fileChange',
+        messageId: 'm2',
+        role: 'assistant',
+        roleIndex: 0,
+      },
+      {
+        kind: 'item',
+        text: 'github/create_issue',
+        itemType: 'mcpToolCall',
+        messageId: 'm3',
+        role: 'user',
+        roleIndex: 1,
+      },
+    ]);
+  });
+
+  it('matches every query term as a prefix and ranks by occurrences', () => {
+    const index = new SessionSearchIndex();
+    index.setSession('session-1', '2:3', buildSessionSearchDocuments(conversation));
+    index.setSession('session-2', '1:1', [{ kind: 'message', text: 'parse the config' }]);
+
+    const hits = index.search('PARS');
+    expect(hits.map((hit) => hit.document.text)).toEqual([
+      'src/parser.ts\ndocs/Parser.md',
+      'Refactor the parser',
+      'parse the config',
+    ]);
+    expect(index.search('parser refactor').map((hit) => hit.sessionId)).toEqual(['session-1']);
+    expect(index.search('parser missing')).toEqual([]);
+
+    index.removeSession('session-1');
+    expect(index.search('parser')).toEqual([]);
+    expect(SessionSearchIndex.fromJSON(JSON.parse(JSON.stringify(index.toJSON())))?.search('config')).toHaveLength(1);
+    expect(SessionSearchIndex.fromJSON({ version: 0, sessions: {} })).toBeNull();
+  });
+
+  it('builds snippets around the first match with merged highlight ranges', () => {
+    const text = `${'x '.repeat(50)}find the needle\nneedles here`;
+    const snippet = buildSearchSnippet(text, ['needle', 'need']);
+    expect(snippet.text.startsWith('…')).toBe(true);
+    expect(snippet.text).not.toContain('\n');
+    expect(snippet.highlights.map(([start, end]) => snippet.text.slice(start, end))).toEqual(['needle', 'needle']);
+  });
+});
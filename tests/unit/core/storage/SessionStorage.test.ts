@@ -1,9 +1,12 @@
-import { SessionStorage } from '../../../../src/core/storage/SessionStorage';
-import type { CodexianConversation } from '../../../../src/core/types';
+import { SESSION_SCHEMA_VERSION, SessionSchemaError } from '../../../../src/core/storage/SessionMigrations';
+import { selectExpiredSessions, SessionStorage } from '../../../../src/core/storage/SessionStorage';
+import type { CodexianConversation, SessionIndexEntry } from '../../../../src/core/types';
 
 class InMemoryAdapter {
   readonly files = new Map<string, string>();
   readonly dirs = new Set<string>();
+  readonly writes: string[] = [];
+  readonly appends: string[] = [];
 
   async exists(path: string): Promise<boolean> {
     return this.files.has(path) || this.dirs.has(path);
@@ -18,12 +21,49 @@ class InMemoryAdapter {
   }
 
   async write(path: string, content: string): Promise<void> {
+    this.writes.push(path);
     this.files.set(path, content);
   }
 
+  async append(path: string, content: string): Promise<void> {
+    this.appends.push(path);
+    this.files.set(path, `${this.files.get(path) ?? ''}${content}`);
+  }
+
+  async rename(from: string, to: string): Promise<void> {
+    const content = await this.read(from);
+    this.files.delete(from);
+    this.files.set(to, content);
+  }
+
+  async remove(path: string): Promise<void> {
+    this.files.delete(path);
+  }
+
   async mkdir(path: string): Promise<void> {
     this.dirs.add(path);
   }
+
+  async list(path: string): Promise<{ files: string[]; folders: string[] }> {
+    const files = [...this.files.keys()].filter(
+      (file) => file.startsWith(`${path}/`) && !file.slice(path.length + 1).includes('/')
+    );
+    return { files, folders: [] };
+  }
+}
+
+// Like the desktop adapter, refuses to rename over an existing file. Can fail the next rename to simulate a crash.
+class StrictRenameAdapter extends InMemoryAdapter {
+  failNextRename = false;
+
+  async rename(from: string, to: string): Promise<void> {
+    if (this.files.has(to)) throw new Error(`Destination file already exists: ${to}`);
+    if (this.failNextRename) {
+      this.failNextRename = false;
+      throw new Error('Crashed');
+    }
+    await super.rename(from, to);
+  }
 }
 
 const makeConversation = (): CodexianConversation => ({
@@ -60,8 +100,8 @@ describe('SessionStorage', () => {
 
     await storage.saveConversation(conversation);
 
-    expect(adapter.dirs.has('.claude/sessions')).toBe(true);
-    expect(adapter.files.has('.claude/sessions/session-1.jsonl')).toBe(true);
+    expect(adapter.dirs.has('.codexian/sessions')).toBe(true);
+    expect(adapter.files.has('.codexian/sessions/session-1.jsonl')).toBe(true);
 
     const loaded = await storage.loadConversation('session-1');
     expect(loaded).toEqual(conversation);
@@ -70,7 +110,7 @@ describe('SessionStorage', () => {
   it('ignores corrupt JSONL lines while loading', async () => {
     const adapter = new InMemoryAdapter();
     const storage = new SessionStorage(adapter as never);
-    const filePath = '.claude/sessions/corrupt.jsonl';
+    const filePath = '.codexian/sessions/corrupt.jsonl';
 
     adapter.files.set(
       filePath,
@@ -99,22 +139,382 @@ describe('SessionStorage', () => {
 
     await storage.saveConversation(conversation);
 
-    const saved = adapter.files.get('.claude/sessions/session-1.jsonl');
+    const saved = adapter.files.get('.codexian/sessions/session-1.jsonl');
     expect(saved).toContain('"type":"item"');
 
     const loaded = await storage.loadConversation('session-1');
     expect(loaded?.items).toEqual(conversation.items);
   });
 
+  it('roundtrips usage records and lists saved conversations', async () => {
+    const adapter = new InMemoryAdapter();
+    const storage = new SessionStorage(adapter as never);
+    const conversation: CodexianConversation = {
+      ...makeConversation(),
+      usage: [
+        {
+          turnId: 'turn-1',
+          model: 'gpt-5',
+          timestamp: 20,
+          inputTokens: 1200,
+          cachedInputTokens: 200,
+          outputTokens: 300,
+          reasoningOutputTokens: 50,
+          totalTokens: 1500,
+        },
+      ],
+    };
+
+    await storage.saveConversation(conversation);
+    await storage.saveConversation({ ...makeConversation(), id: 'session-2', usage: undefined });
+    adapter.files.set('.codexian/sessions/notes.txt', 'ignored');
+
+    const loaded = await storage.loadConversation('session-1');
+    expect(loaded?.usage).toEqual(conversation.usage);
+
+    const listed = await storage.listConversations();
+    expect(listed.map((entry) => entry.id).sort()).toEqual(['session-1', 'session-2']);
+  });
+
+  it('roundtrips the import source of imported conversations', async () => {
+    const adapter = new InMemoryAdapter();
+    const storage = new SessionStorage(adapter as never);
+    const importedFrom = {
+      format: 'markdown' as const,
+      fileName: 'Shared session.md',
+      importedAt: 30,
+      messageCount: 2,
+      sourceThreadId: 'thread-remote',
+    };
+
+    await storage.saveConversation({ ...makeConversation(), threadId: undefined, importedFrom });
+
+    const loaded = await storage.loadConversation('session-1');
+    expect(loaded?.importedFrom).toEqual(importedFrom);
+    expect(loaded?.threadId).toBeUndefined();
+  });
+
+  it('drops the previous record when an imported session is saved under its thread id', async () => {
+    const adapter = new InMemoryAdapter();
+    const storage = new SessionStorage(adapter as never);
+    const imported = { ...makeConversation(), id: 'import-1', threadId: undefined };
+
+    await storage.saveConversation(imported);
+    await expect(storage.searchConversations('hello')).resolves.toHaveLength(1);
+    await storage.saveConversation({ ...imported, id: 'thread-1', threadId: 'thread-1' });
+    await storage.deleteConversation('import-1');
+
+    expect(adapter.files.has('.codexian/sessions/import-1.jsonl')).toBe(false);
+    expect((await storage.listConversations()).map((entry) => entry.id)).toEqual(['thread-1']);
+    const results = await storage.searchConversations('hello');
+    expect(results.map((result) => result.sessionId)).toEqual(['thread-1']);
+  });
+
   it('returns null when JSONL has no meta record', async () => {
     const adapter = new InMemoryAdapter();
     const storage = new SessionStorage(adapter as never);
 
     adapter.files.set(
-      '.claude/sessions/no-meta.jsonl',
+      '.codexian/sessions/no-meta.jsonl',
       `${JSON.stringify({ type: 'message', message: { id: 'm1', role: 'user', content: 'x', timestamp: 1 } })}\n`
     );
 
     await expect(storage.loadConversation('no-meta')).resolves.toBeNull();
   });
+
+  it('appends only changed records after the first save and compacts on close', async () => {
+    const adapter = new InMemoryAdapter();
+    const storage = new SessionStorage(adapter as never);
+    const filePath = '.codexian/sessions/session-1.jsonl';
+    const conversation = makeConversation();
+
+    const sessionWrites = (): string[] => adapter.writes.filter((path) => path.startsWith(filePath));
+
+    await storage.saveConversation(conversation);
+    expect(sessionWrites()).toEqual([`${filePath}.tmp`]);
+    expect(adapter.files.has(`${filePath}.tmp`)).toBe(false);
+
+    await storage.saveConversation(conversation);
+    expect(adapter.appends).toEqual([]);
+
+    conversation.messages.push({ id: 'm3', role: 'assistant', content: 'Work', timestamp: 13 });
+    await storage.saveConversation(conversation);
+    conversation.messages[2] = { id: 'm3', role: 'assistant', content: 'Working on it', timestamp: 13 };
+    conversation.items?.push({ itemType: 'plan', timestamp: 14, item: { steps: [] } });
+    conversation.updatedAt = 20;
+    await storage.saveConversation(conversation);
+
+    expect(sessionWrites()).toHaveLength(1);
+    expect(adapter.appends).toEqual([filePath, filePath]);
+    expect(adapter.files.get(filePath)?.trim().split('\n')).toHaveLength(8);
+    await expect(storage.loadConversation('session-1')).resolves.toEqual(conversation);
+
+    await storage.closeConversation('session-1');
+    expect(adapter.files.get(filePath)?.trim().split('\n')).toHaveLength(6);
+    await expect(storage.loadConversation('session-1')).resolves.toEqual(conversation);
+  });
+
+  it('rewrites the file when history is removed or the append threshold is passed', async () => {
+    const adapter = new InMemoryAdapter();
+    const storage = new SessionStorage(adapter as never);
+    const conversation = makeConversation();
+    const sessionWrites = (): string[] => adapter.writes.filter((path) => path.includes('session-1'));
+
+    await storage.saveConversation(conversation);
+    await storage.saveConversation({ ...conversation, messages: conversation.messages.slice(1) });
+    expect(sessionWrites()).toHaveLength(2);
+    expect(adapter.appends).toHaveLength(0);
+
+    const large = { id: 'm4', role: 'user' as const, content: 'x'.repeat(300 * 1024), timestamp: 15 };
+    await storage.saveConversation({ ...conversation, messages: [...conversation.messages, large] });
+    expect(sessionWrites()).toHaveLength(3);
+    expect(adapter.appends).toHaveLength(0);
+  });
+
+  it('keeps earlier records when the final line was cut off mid-write', async () => {
+    const adapter = new InMemoryAdapter();
+    const storage = new SessionStorage(adapter as never);
+    const filePath = '.codexian/sessions/session-1.jsonl';
+    const conversation = makeConversation();
+
+    await storage.saveConversation(conversation);
+    const partial = JSON.stringify({ type: 'message', message: { id: 'm3', role: 'assistant', content: 'cut' } });
+    adapter.files.set(filePath, `${adapter.files.get(filePath) ?? ''}${partial.slice(0, 40)}`);
+
+    const reloaded = new SessionStorage(adapter as never);
+    await expect(reloaded.loadConversation('session-1')).resolves.toEqual(conversation);
+
+    await reloaded.saveConversation(conversation);
+    expect(adapter.files.get(filePath)?.endsWith('}\n')).toBe(true);
+    expect(adapter.files.get(filePath)).not.toContain('"cut"');
+  });
+
+  it('keeps a session index updated on save and rebuilds it when missing', async () => {
+    const adapter = new InMemoryAdapter();
+    const storage = new SessionStorage(adapter as never);
+    const conversation = makeConversation();
+
+    await storage.saveConversation(conversation);
+    await storage.saveConversation({ ...makeConversation(), id: 'session-2', threadId: undefined, messages: [] });
+
+    const expected = {
+      id: 'session-1',
+      title: 'Test Conversation',
+      threadId: 'thread-1',
+      model: 'gpt-5',
+      mode: 'agent',
+      createdAt: 1,
+      updatedAt: 2,
+      lastResponseAt: 3,
+      messageCount: 2,
+      firstUserPrompt: 'hello',
+    };
+    await expect(storage.listSessionIndex()).resolves.toEqual([
+      expected,
+      expect.objectContaining({ id: 'session-2', messageCount: 0, firstUserPrompt: undefined }),
+    ]);
+    expect(adapter.files.has('.codexian/sessions/index.json')).toBe(true);
+
+    conversation.messages.push({ id: 'm3', role: 'user', content: 'again', timestamp: 13 });
+    await storage.saveConversation(conversation);
+    const stored = JSON.parse(adapter.files.get('.codexian/sessions/index.json') ?? '{}') as {
+      entries: Array<{ id: string; messageCount: number }>;
+    };
+    expect(stored.entries.find((entry) => entry.id === 'session-1')?.messageCount).toBe(3);
+
+    adapter.files.delete('.codexian/sessions/index.json');
+    const reads = jest.spyOn(adapter, 'read');
+    const rebuilt = new SessionStorage(adapter as never);
+    const entries = await rebuilt.listSessionIndex();
+    expect(entries.map((entry) => entry.id).sort()).toEqual(['session-1', 'session-2']);
+    expect(adapter.files.has('.codexian/sessions/index.json')).toBe(true);
+
+    reads.mockClear();
+    await new SessionStorage(adapter as never).listSessionIndex();
+    expect(reads.mock.calls.map(([path]) => path)).toEqual(['.codexian/sessions/index.json']);
+  });
+
+  it('searches saved sessions and refreshes stale entries of a persisted search index', async () => {
+    const adapter = new InMemoryAdapter();
+    const storage = new SessionStorage(adapter as never);
+    const conversation = makeConversation();
+    conversation.items = [
+      {
+        itemType: 'commandExecution',
+        timestamp: 12,
+        item: { command: ['npm', 'run', 'build'], aggregatedOutput: 'hello from output' },
+      },
+    ];
+
+    await storage.saveConversation(conversation);
+    const messageHits = await storage.searchConversations('hel');
+    expect(messageHits).toHaveLength(1);
+    expect(messageHits[0]?.sessionId).toBe('session-1');
+    expect(messageHits[0]?.session.threadId).toBe('thread-1');
+    expect(messageHits[0]?.document).toEqual({
+      kind: 'message',
+      text: 'hello',
+      messageId: 'm1',
+      role: 'user',
+      roleIndex: 0,
+    });
+    const [commandHit] = await storage.searchConversations('npm build');
+    expect(commandHit?.document).toMatchObject({ kind: 'item', itemType: 'commandExecution', messageId: 'm2' });
+    expect(adapter.files.has('.codexian/sessions/search-index.json')).toBe(true);
+
+    conversation.messages.push({ id: 'm3', role: 'user', content: 'deploy the docs', timestamp: 13 });
+    conversation.updatedAt = 5;
+    await storage.saveConversation(conversation);
+    expect(adapter.files.get('.codexian/sessions/search-index.json')).not.toContain('deploy the docs');
+    await storage.closeAll();
+    expect(adapter.files.get('.codexian/sessions/search-index.json')).toContain('deploy the docs');
+
+    conversation.messages.push({ id: 'm4', role: 'assistant', content: 'docs deployed', timestamp: 14 });
+    conversation.updatedAt = 6;
+    await new SessionStorage(adapter as never).saveConversation(conversation);
+
+    const results = await new SessionStorage(adapter as never).searchConversations('docs');
+    expect(results.map((result) => result.document.messageId).sort()).toEqual(['m3', 'm4']);
+    await expect(storage.searchConversations('')).resolves.toEqual([]);
+  });
+
+  it('searches every indexed session, including ones without a thread', async () => {
+    const adapter = new InMemoryAdapter();
+    const storage = new SessionStorage(adapter as never);
+    for (let index = 0; index < 55; index += 1) {
+      await storage.saveConversation({ ...makeConversation(), id: `import-${index}`, threadId: undefined });
+    }
+
+    await expect(storage.searchConversations('hello')).resolves.toHaveLength(50);
+    const results = await storage.searchConversations('hello', 100);
+    expect(results).toHaveLength(55);
+    expect(results.every((result) => result.session.threadId === undefined)).toBe(true);
+  });
+
+  it('stamps the schema version, upgrades unversioned files and refuses files from a newer version', async () => {
+    const adapter = new InMemoryAdapter();
+    const storage = new SessionStorage(adapter as never);
+    await storage.saveConversation(makeConversation());
+    const [metaLine] = (adapter.files.get('.codexian/sessions/session-1.jsonl') ?? '').split('\n');
+    expect(JSON.parse(metaLine ?? '{}')).toMatchObject({ type: 'meta', schemaVersion: SESSION_SCHEMA_VERSION });
+
+    adapter.files.set(
+      '.codexian/sessions/legacy.jsonl',
+      `${JSON.stringify({ type: 'meta', id: 'legacy', title: 'Legacy', createdAt: 1, updatedAt: 2 })}\n`
+    );
+    await expect(storage.loadConversation('legacy')).resolves.toMatchObject({ id: 'legacy', messages: [] });
+
+    const newerMeta = { type: 'meta', schemaVersion: SESSION_SCHEMA_VERSION + 1, id: 'newer', title: 'Newer' };
+    const newerFile =
+      `${JSON.stringify({ ...newerMeta, createdAt: 1, updatedAt: 2 })}\n` +
+      `${JSON.stringify({ type: 'future', payload: true })}\n`;
+    adapter.files.set('.codexian/sessions/newer.jsonl', newerFile);
+    const fresh = new SessionStorage(adapter as never);
+    await expect(fresh.loadConversation('newer')).rejects.toBeInstanceOf(SessionSchemaError);
+    await expect(fresh.loadConversation('newer')).rejects.toThrow('Update the plugin to open it.');
+    expect((await fresh.listConversations()).map((conversation) => conversation.id).sort()).toEqual([
+      'legacy',
+      'session-1',
+    ]);
+    await expect(
+      fresh.saveConversation({ ...makeConversation(), id: 'newer', threadId: undefined })
+    ).rejects.toBeInstanceOf(SessionSchemaError);
+    expect(adapter.files.get('.codexian/sessions/newer.jsonl')).toBe(newerFile);
+  });
+
+  it('moves session files between folders and leaves unrelated files behind', async () => {
+    const adapter = new InMemoryAdapter();
+    const legacy = new SessionStorage(adapter as never, '.claude/sessions');
+    await legacy.saveConversation(makeConversation());
+    await legacy.listSessionIndex();
+    adapter.files.set('.claude/sessions/other-tool.jsonl', '{"kind":"unrelated"}\n');
+    adapter.dirs.add('.claude/sessions/archive');
+    adapter.files.set('.claude/sessions/archive/old.jsonl', adapter.files.get('.claude/sessions/session-1.jsonl') ?? '');
+
+    const storage = new SessionStorage(adapter as never);
+    await expect(storage.importFolder('.claude/sessions')).resolves.toBe(2);
+    expect([...adapter.files.keys()].sort()).toEqual([
+      '.claude/sessions/other-tool.jsonl',
+      '.codexian/sessions/archive/old.jsonl',
+      '.codexian/sessions/session-1.jsonl',
+    ]);
+    await expect(storage.listSessionIndex()).resolves.toEqual([expect.objectContaining({ id: 'session-1' })]);
+
+    await expect(storage.changeFolder('Sessions')).resolves.toBe(2);
+    expect(storage.getFolder()).toBe('Sessions');
+    await expect(storage.loadConversation('session-1')).resolves.toEqual(makeConversation());
+    expect(adapter.files.has('.codexian/sessions/index.json')).toBe(false);
+  });
+
+  it('selects sessions past the age or count limit and archives or deletes them', async () => {
+    const day = 24 * 60 * 60 * 1000;
+    const now = 100 * day;
+    const entry = (id: string, daysAgo: number, threadId?: string): SessionIndexEntry => ({
+      id,
+      threadId,
+      title: id,
+      createdAt: 0,
+      updatedAt: now - daysAgo * day,
+      messageCount: 1,
+    });
+    const entries = [entry('a', 1), entry('b', 40, 'thread-b'), entry('c', 5), entry('d', 60, 'thread-d')];
+    const ids = (selected: SessionIndexEntry[]) => selected.map((selectedEntry) => selectedEntry.id);
+
+    expect(ids(selectExpiredSessions(entries, { maxAgeDays: 30, maxCount: 0 }, now))).toEqual(['b', 'd']);
+    expect(ids(selectExpiredSessions(entries, { maxAgeDays: 0, maxCount: 2 }, now))).toEqual(['b', 'd']);
+    expect(ids(selectExpiredSessions(entries, { maxAgeDays: 0, maxCount: 1 }, now, new Set(['thread-b'])))).toEqual([
+      'c',
+      'd',
+    ]);
+    expect(selectExpiredSessions(entries, { maxAgeDays: 0, maxCount: 0 }, now)).toEqual([]);
+
+    const adapter = new InMemoryAdapter();
+    const storage = new SessionStorage(adapter as never);
+    await storage.saveConversation({ ...makeConversation(), id: 'fresh', updatedAt: now - day });
+    await storage.saveConversation({ ...makeConversation(), id: 'stale', updatedAt: now - 40 * day });
+    await storage.saveConversation({ ...makeConversation(), id: 'gone', updatedAt: now - 50 * day });
+    await expect(storage.searchConversations('hello')).resolves.toHaveLength(3);
+
+    const policy = { maxAgeDays: 30, maxCount: 0, archive: true, archiveThreads: false };
+    const expired = await storage.applyRetention(policy, new Set(['gone']), now);
+    expect(ids(expired)).toEqual(['stale']);
+    expect(adapter.files.has('.codexian/sessions/archive/stale.jsonl')).toBe(true);
+    expect(adapter.files.has('.codexian/sessions/stale.jsonl')).toBe(false);
+
+    await storage.applyRetention({ ...policy, archive: false }, new Set(), now);
+    expect(adapter.files.has('.codexian/sessions/gone.jsonl')).toBe(false);
+    expect(adapter.files.has('.codexian/sessions/archive/gone.jsonl')).toBe(false);
+    expect(ids(await storage.listSessionIndex())).toEqual(['fresh']);
+    expect((await storage.searchConversations('hello')).map((result) => result.sessionId)).toEqual(['fresh']);
+  });
+
+  it('compacts with an adapter that cannot rename over files and recovers an interrupted swap', async () => {
+    const adapter = new StrictRenameAdapter();
+    const storage = new SessionStorage(adapter as never);
+    const conversation = makeConversation();
+    const filePath = '.codexian/sessions/session-1.jsonl';
+
+    await storage.saveConversation(conversation);
+    conversation.messages.push({ id: 'm3', role: 'user', content: 'again', timestamp: 13 });
+    await storage.saveConversation(conversation);
+    await storage.closeConversation('session-1');
+    await expect(storage.loadConversation('session-1')).resolves.toEqual(conversation);
+    expect(adapter.files.has(`${filePath}.tmp`)).toBe(false);
+
+    conversation.messages.push({ id: 'm4', role: 'assistant', content: 'done', timestamp: 14 });
+    adapter.failNextRename = true;
+    await expect(storage.saveConversation(conversation)).rejects.toThrow('Crashed');
+    expect(adapter.files.has(filePath)).toBe(false);
+    expect(adapter.files.has(`${filePath}.tmp`)).toBe(true);
+
+    await expect(new SessionStorage(adapter as never).loadConversation('session-1')).resolves.toEqual(conversation);
+    expect(adapter.files.has(filePath)).toBe(true);
+    expect(adapter.files.has(`${filePath}.tmp`)).toBe(false);
+
+    adapter.files.set(`${filePath}.tmp`, adapter.files.get(filePath) ?? '');
+    adapter.files.delete(filePath);
+    const listed = await new SessionStorage(adapter as never).listConversations();
+    expect(listed.map((entry) => entry.id)).toEqual(['session-1']);
+    expect(adapter.files.has(filePath)).toBe(true);
+  });
 });
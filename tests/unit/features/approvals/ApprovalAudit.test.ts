@@ -0,0 +1,62 @@
+import {
+  describeAuditTarget,
+  filterApprovalAuditRecords,
+  formatApprovalRule,
+  getAuditRecordRules,
+} from '../../../../src/features/approvals/ApprovalAudit';
+import type { ApprovalAuditRecord } from '../../../../src/core/types';
+
+const records: ApprovalAuditRecord[] = [
+  {
+    id: '1',
+    timestamp: 10,
+    outcome: 'auto-accept',
+    kind: 'commandExecution',
+    mode: 'prompt',
+    threadId: 'thread-1',
+    command: 'git status',
+    paths: [],
+    matchedRules: [{ kind: 'command', pattern: 'git *' }],
+  },
+  {
+    id: '2',
+    timestamp: 30,
+    outcome: 'always-rule',
+    kind: 'fileChange',
+    mode: 'prompt',
+    threadId: 'thread-2',
+    paths: ['notes/a.md', 'notes/b.md'],
+    createdRule: { kind: 'path', pattern: 'notes/**', matcher: 'glob' },
+  },
+  {
+    id: '3',
+    timestamp: 20,
+    outcome: 'auto-decline',
+    kind: 'commandExecution',
+    mode: 'safe',
+    command: 'rm -rf notes',
+    paths: [],
+    blockedBy: 'rm -rf *',
+  },
+];
+
+describe('ApprovalAudit', () => {
+  it('filters by outcome, kind and query, newest first', () => {
+    expect(filterApprovalAuditRecords(records).map((record) => record.id)).toEqual(['2', '3', '1']);
+    expect(filterApprovalAuditRecords(records, { kind: 'commandExecution' }).map((record) => record.id)).toEqual([
+      '3',
+      '1',
+    ]);
+    expect(filterApprovalAuditRecords(records, { outcome: 'auto-accept' }).map((record) => record.id)).toEqual(['1']);
+    expect(filterApprovalAuditRecords(records, { query: 'NOTES/**' }).map((record) => record.id)).toEqual(['2']);
+    expect(filterApprovalAuditRecords(records, { query: 'rm -rf' }).map((record) => record.id)).toEqual(['3']);
+  });
+
+  it('describes targets and the rules a decision relied on', () => {
+    expect(describeAuditTarget(records[1]!)).toBe('notes/a.md, notes/b.md');
+    expect(getAuditRecordRules(records[0]!)).toEqual([{ kind: 'command', pattern: 'git *' }]);
+    expect(getAuditRecordRules(records[2]!)).toEqual([]);
+    expect(formatApprovalRule({ kind: 'path', pattern: 'notes/**', matcher: 'glob' })).toBe('path: notes/**');
+    expect(formatApprovalRule({ kind: 'command', pattern: '^git', matcher: 'regex' })).toBe('command: regex: ^git');
+  });
+});
@@ -0,0 +1,68 @@
+import type { CustomMode } from '../../../../src/core/types';
+import {
+  BUILT_IN_MODES,
+  buildModePrompt,
+  createCustomMode,
+  findModeOption,
+  getModeOptions,
+  toModeOption,
+} from '../../../../src/features/chat/context/ChatModes';
+
+const reviewMode: CustomMode = {
+  id: 'mode-review',
+  name: ' Review ',
+  approvalPolicy: 'on-request',
+  sandbox: 'workspaceWrite',
+  writableRoots: ['/tmp/builds', '  '],
+  networkAccess: true,
+  model: 'gpt-5',
+  reasoningEffort: 'high',
+  promptPrefix: 'Review carefully.',
+};
+
+describe('ChatModes', () => {
+  it('lists built-in modes before custom modes', () => {
+    const options = getModeOptions([reviewMode]);
+    expect(options.map((option) => option.value)).toEqual(['agent', 'chat', 'agent-full', 'mode-review']);
+    expect(findModeOption('chat', [])).toBe(BUILT_IN_MODES[1]);
+    expect(findModeOption(undefined, [reviewMode])).toBeUndefined();
+  });
+
+  it('falls back to the built-in agent mode when a custom mode was deleted', () => {
+    const fallback = findModeOption('mode-removed', [reviewMode]);
+    expect(fallback).toBe(BUILT_IN_MODES[0]);
+    expect(fallback?.approvalPolicy).toBe('on-request');
+    expect(fallback?.sandboxPolicy).toEqual({ type: 'workspaceWrite' });
+  });
+
+  it('maps a custom mode to approval and sandbox policies', () => {
+    expect(toModeOption(reviewMode)).toEqual({
+      value: 'mode-review',
+      label: 'Review',
+      approvalPolicy: 'on-request',
+      sandboxPolicy: { type: 'workspaceWrite', writableRoots: ['/tmp/builds'], networkAccess: true },
+      model: 'gpt-5',
+      reasoningEffort: 'high',
+      promptPrefix: 'Review carefully.',
+    });
+    expect(toModeOption({ ...reviewMode, sandbox: 'readOnly', model: ' ' }).sandboxPolicy).toEqual({ type: 'readOnly' });
+    expect(toModeOption({ ...reviewMode, sandbox: 'readOnly', model: ' ' }).model).toBeUndefined();
+  });
+
+  it('creates new modes with workspace defaults', () => {
+    expect(createCustomMode('Docs')).toMatchObject({
+      id: expect.stringMatching(/^mode-/) as unknown,
+      name: 'Docs',
+      approvalPolicy: 'on-request',
+      sandbox: 'workspaceWrite',
+      writableRoots: [],
+      networkAccess: false,
+    });
+  });
+
+  it('prefixes prompts only when the mode defines a prefix', () => {
+    expect(buildModePrompt('Fix the tests', toModeOption(reviewMode))).toBe('Review carefully.\n\nFix the tests');
+    expect(buildModePrompt('Fix the tests', BUILT_IN_MODES[0])).toBe('Fix the tests');
+    expect(buildModePrompt('  ', toModeOption(reviewMode))).toBe('  ');
+  });
+});
@@ -0,0 +1,47 @@
+/**
+ * @jest-environment ./tests/helpers/jsdom-environment.cjs
+ */
+
+import { renderFileChangePreview, renderUnifiedDiff } from '../../../../src/features/chat/rendering/DiffRenderer';
+
+describe('DiffRenderer', () => {
+  it('renders diff lines with per-kind classes', () => {
+    const preEl = renderUnifiedDiff('@@ -1 +1 @@\n-old\n+new\n same');
+    const classes = Array.from(preEl.querySelectorAll('.codexian-diff-line')).map((line) => line.className);
+    expect(classes).toEqual([
+      'codexian-diff-line is-hunk',
+      'codexian-diff-line is-removed',
+      'codexian-diff-line is-added',
+      'codexian-diff-line is-context',
+    ]);
+  });
+
+  it('renders a collapsible file preview with counts and a selection toggle', () => {
+    const parent = document.createElement('div');
+    const onSelectionChange = jest.fn<void, [string, boolean]>();
+    const { rowEl, checkboxEl } = renderFileChangePreview(
+      parent,
+      { path: 'notes/a.md', kind: 'update', diff: '@@ -1 +1,2 @@\n-old\n+new\n+more' },
+      { onSelectionChange }
+    );
+
+    expect(rowEl.querySelector('details')).not.toBeNull();
+    expect(rowEl.querySelector('.codexian-file-preview-kind')?.textContent).toBe('Modified');
+    expect(Array.from(rowEl.querySelectorAll('.codexian-diff-count')).map((el) => el.textContent)).toEqual([
+      '+2',
+      '-1',
+    ]);
+
+    checkboxEl!.checked = false;
+    checkboxEl!.dispatchEvent({ type: 'change' } as Event);
+    expect(onSelectionChange).toHaveBeenCalledWith('notes/a.md', false);
+    expect(rowEl.className).toBe('codexian-file-preview is-rejected');
+  });
+
+  it('omits the toggle and notes missing diffs', () => {
+    const parent = document.createElement('div');
+    const { checkboxEl, rowEl } = renderFileChangePreview(parent, { path: 'notes/b.md' });
+    expect(checkboxEl).toBeUndefined();
+    expect(rowEl.querySelector('.codexian-file-preview-empty')?.textContent).toBe('No diff provided for this file.');
+  });
+});
@@ -104,4 +104,58 @@ describe('ItemCardRenderer', () => {
 
     expect(card?.querySelector('.codexian-item-card-status')?.textContent).toBe('Completed');
   });
+
+  it('streams reasoning summary and text deltas into the reasoning card', () => {
+    const transcriptEl = document.createElement('div');
+    const renderer = new ItemCardRenderer(transcriptEl);
+
+    renderer.handleItemStarted(createItem('reasoning', 'rs-1', {}));
+    renderer.handleReasoningDelta({ itemId: 'rs-1', kind: 'summary', delta: 'Reading ', index: 0 });
+    renderer.handleReasoningDelta({ itemId: 'rs-1', kind: 'summary', delta: 'files', index: 0 });
+    renderer.handleReasoningDelta({ itemId: 'rs-1', kind: 'summary', delta: 'Planning edits', index: 1 });
+    renderer.handleReasoningDelta({ itemId: 'rs-1', kind: 'text', delta: 'raw thought' });
+
+    const card = transcriptEl.querySelector('.codexian-item-reasoning');
+    expect(card?.querySelector('.codexian-item-reasoning-summary')?.textContent).toBe(
+      'Reading files\n\nPlanning edits'
+    );
+    expect(card?.querySelector('.codexian-item-reasoning-text')?.textContent).toBe('raw thought');
+  });
+
+  it('creates a reasoning card when deltas arrive before item/started', () => {
+    const transcriptEl = document.createElement('div');
+    const renderer = new ItemCardRenderer(transcriptEl);
+
+    renderer.handleReasoningDelta({ itemId: 'rs-2', kind: 'summary', delta: 'Thinking' });
+
+    const card = transcriptEl.querySelector('.codexian-item-reasoning');
+    expect(card).not.toBeNull();
+    expect(card?.querySelector('.codexian-item-reasoning-summary')?.textContent).toBe('Thinking');
+  });
+
+  it('keeps a single reasoning card when item/started follows early deltas', () => {
+    const transcriptEl = document.createElement('div');
+    const renderer = new ItemCardRenderer(transcriptEl);
+
+    renderer.handleReasoningDelta({ itemId: 'rs-3', kind: 'summary', delta: 'Reading ' });
+    renderer.handleItemStarted(createItem('reasoning', 'rs-3', { id: 'rs-3', type: 'reasoning' }));
+    renderer.handleReasoningDelta({ itemId: 'rs-3', kind: 'summary', delta: 'files' });
+
+    const cards = transcriptEl.querySelectorAll('.codexian-item-reasoning');
+    expect(cards).toHaveLength(1);
+    expect(cards[0]?.querySelector('.codexian-item-reasoning-summary')?.textContent).toBe('Reading files');
+    expect(cards[0]?.querySelector('.codexian-item-reasoning-raw')?.textContent).toContain('"id": "rs-3"');
+  });
+
+  it('creates one reasoning card for deltas without an item id', () => {
+    const transcriptEl = document.createElement('div');
+    const renderer = new ItemCardRenderer(transcriptEl);
+
+    renderer.handleReasoningDelta({ kind: 'summary', delta: 'Reading ' });
+    renderer.handleReasoningDelta({ kind: 'summary', delta: 'files' });
+
+    const cards = transcriptEl.querySelectorAll('.codexian-item-reasoning');
+    expect(cards).toHaveLength(1);
+    expect(cards[0]?.querySelector('.codexian-item-reasoning-summary')?.textContent).toBe('Reading files');
+  });
 });
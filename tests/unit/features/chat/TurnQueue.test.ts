@@ -0,0 +1,57 @@
+import { TurnQueue } from '../../../../src/features/chat/state/TurnQueue';
+
+describe('TurnQueue', () => {
+  it('runs prompts in order and ignores blank input', () => {
+    const queue = new TurnQueue();
+    queue.enqueue('first');
+    queue.enqueue('   ');
+    queue.enqueue(' second ');
+
+    expect(queue.getItems().map((item) => item.prompt)).toEqual(['first', 'second']);
+    expect(queue.takeNext()?.prompt).toBe('first');
+    expect(queue.takeNext()?.prompt).toBe('second');
+    expect(queue.takeNext()).toBeNull();
+  });
+
+  it('reorders and removes queued prompts', () => {
+    const queue = new TurnQueue();
+    const first = queue.enqueue('first')!;
+    queue.enqueue('second');
+    const third = queue.enqueue('third')!;
+
+    queue.move(third.id, -1);
+    expect(queue.getItems().map((item) => item.prompt)).toEqual(['first', 'third', 'second']);
+    queue.move(first.id, -1);
+    queue.move(first.id, 5);
+    expect(queue.getItems().map((item) => item.prompt)).toEqual(['third', 'second', 'first']);
+
+    queue.remove(third.id);
+    expect(queue.getItems().map((item) => item.prompt)).toEqual(['second', 'first']);
+  });
+
+  it('holds prompts while paused and notifies listeners', () => {
+    const queue = new TurnQueue();
+    const listener = jest.fn();
+    const unsubscribe = queue.onChange(listener);
+
+    queue.pause();
+    expect(queue.isPaused()).toBe(false);
+
+    const item = queue.enqueue('retry later')!;
+    queue.pause();
+    expect(queue.isPaused()).toBe(true);
+    expect(queue.takeNext()).toBeNull();
+
+    queue.resume();
+    expect(queue.takeNext()?.id).toBe(item.id);
+
+    queue.enqueue('another');
+    queue.pause();
+    queue.remove(queue.getItems()[0].id);
+    expect(queue.isPaused()).toBe(false);
+
+    unsubscribe();
+    queue.enqueue('silent');
+    expect(listener).toHaveBeenCalledTimes(7);
+  });
+});
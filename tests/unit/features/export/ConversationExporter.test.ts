@@ -0,0 +1,97 @@
+import { TURN_DIFF_ITEM_TYPE, type CodexianConversation } from '../../../../src/core/types';
+import {
+  buildExportFileName,
+  getLastTurnDiff,
+  renderConversationMarkdown,
+} from '../../../../src/features/export/ConversationExporter';
+
+const buildConversation = (overrides: Partial<CodexianConversation> = {}): CodexianConversation => ({
+  id: 'thread-1',
+  threadId: 'thread-1',
+  title: 'Fix: flaky "build" script',
+  model: 'gpt-5-codex',
+  reasoningEffort: 'high',
+  mode: 'agent',
+  createdAt: Date.UTC(2026, 0, 2, 10, 0, 0),
+  updatedAt: Date.UTC(2026, 0, 2, 11, 0, 0),
+  messages: [
+    { id: 'm1', role: 'user', content: 'Why does the build fail?', timestamp: 1 },
+    { id: 'm2', role: 'assistant', content: 'The script uses ``` fences.', timestamp: 5 },
+  ],
+  ...overrides,
+});
+
+describe('ConversationExporter', () => {
+  it('renders frontmatter and messages in order', () => {
+    const markdown = renderConversationMarkdown(buildConversation(), Date.UTC(2026, 0, 3));
+
+    expect(markdown.startsWith('---\ntitle: "Fix: flaky \\"build\\" script"\nthread_id: "thread-1"\n')).toBe(true);
+    expect(markdown).toContain('model: "gpt-5-codex"');
+    expect(markdown).toContain('reasoning_effort: "high"');
+    expect(markdown).toContain('mode: "agent"');
+    expect(markdown).toContain('created: "2026-01-02T10:00:00.000Z"');
+    expect(markdown).toContain('exported: "2026-01-03T00:00:00.000Z"');
+    expect(markdown.indexOf('## User')).toBeLessThan(markdown.indexOf('## Assistant'));
+    expect(markdown).not.toContain('## Last turn diff');
+  });
+
+  it('renders command, file change and plan items as collapsible callouts', () => {
+    const markdown = renderConversationMarkdown(
+      buildConversation({
+        items: [
+          {
+            itemType: 'commandExecution',
+            timestamp: 2,
+            item: { command: 'npm run build', aggregatedOutput: 'error TS2345\n', exitCode: 2, status: 'failed' },
+          },
+          {
+            itemType: 'fileChange',
+            timestamp: 3,
+            item: { changes: [{ path: 'src/build.ts', kind: { type: 'update' }, diff: '-old\n+new' }] },
+          },
+          {
+            itemType: 'plan',
+            timestamp: 4,
+            item: { plan: [{ step: 'Fix types', status: 'completed' }, { step: 'Rerun build', status: 'pending' }] },
+          },
+          { itemType: 'reasoning', timestamp: 4, item: { summary: 'thinking' } },
+        ],
+      })
+    );
+
+    expect(markdown).toContain(
+      [
+        '> [!example]- Command: npm run build',
+        '> ```sh',
+        '> npm run build',
+        '> ```',
+        '> ```text',
+        '> error TS2345',
+        '> ```',
+        '> Status: failed · Exit code: 2',
+      ].join('\n')
+    );
+    expect(markdown).toContain('> [!note]- File changes (1)\n> - `src/build.ts` (update)\n> ```diff\n> -old\n> +new\n> ```');
+    expect(markdown).toContain('> [!todo]- Plan\n> 1. Fix types (completed)\n> 2. Rerun build (pending)');
+    expect(markdown).not.toContain('thinking');
+    expect(markdown.indexOf('## User')).toBeLessThan(markdown.indexOf('[!example]'));
+    expect(markdown.indexOf('[!todo]')).toBeLessThan(markdown.indexOf('## Assistant'));
+  });
+
+  it('appends the latest turn diff with a fence longer than its content', () => {
+    const conversation = buildConversation({
+      items: [
+        { itemType: TURN_DIFF_ITEM_TYPE, itemId: 'diff-turn-1', timestamp: 2, item: '-a\n+b' },
+        { itemType: TURN_DIFF_ITEM_TYPE, itemId: 'diff-turn-2', timestamp: 6, item: '+```ts\n+code' },
+      ],
+    });
+
+    expect(getLastTurnDiff(conversation)).toBe('+```ts\n+code');
+    expect(renderConversationMarkdown(conversation)).toContain('## Last turn diff\n\n````diff\n+```ts\n+code\n````\n');
+  });
+
+  it('builds a vault-safe file name from the title and update date', () => {
+    expect(buildExportFileName(buildConversation())).toBe('Fix flaky build script 2026-01-02');
+    expect(buildExportFileName(buildConversation({ title: '  ' }))).toBe('Codexian Session 2026-01-02');
+  });
+});
@@ -0,0 +1,161 @@
+import { TURN_DIFF_ITEM_TYPE, type CodexianConversation } from '../../../../src/core/types';
+import { renderConversationMarkdown } from '../../../../src/features/export/ConversationExporter';
+import {
+  buildImportedSessionContext,
+  ConversationImportError,
+  detectImportFormat,
+  importConversation,
+  parseRolloutJsonl,
+} from '../../../../src/features/export/ConversationImporter';
+
+const exported: CodexianConversation = {
+  id: 'thread-1',
+  threadId: 'thread-1',
+  title: 'Fix the build',
+  model: 'gpt-5-codex',
+  reasoningEffort: 'high',
+  mode: 'agent',
+  createdAt: Date.UTC(2026, 0, 2, 10, 0, 0),
+  updatedAt: Date.UTC(2026, 0, 2, 11, 0, 0),
+  messages: [
+    { id: 'm1', role: 'user', content: 'Why does the build fail?\n\nSee logs.', timestamp: 1 },
+    { id: 'm2', role: 'assistant', content: 'Fixed the types.\n\n```ts\nconst a = 1;\n```', timestamp: 5 },
+  ],
+  items: [
+    {
+      itemType: 'commandExecution',
+      timestamp: 2,
+      item: { command: 'npm run build', aggregatedOutput: 'error TS2345', exitCode: 2, status: 'failed' },
+    },
+    {
+      itemType: 'fileChange',
+      timestamp: 3,
+      item: { changes: [{ path: 'src/build.ts', kind: 'update', diff: '-old\n+new' }] },
+    },
+    { itemType: 'plan', timestamp: 4, item: { plan: [{ step: 'Fix types', status: 'completed' }] } },
+    { itemType: TURN_DIFF_ITEM_TYPE, timestamp: 6, item: '-a\n+b' },
+  ],
+};
+
+describe('ConversationImporter', () => {
+  it('rebuilds a conversation from a Codexian Markdown export', () => {
+    const markdown = renderConversationMarkdown(exported);
+    const conversation = importConversation(markdown, { id: 'import-1', fileName: 'Fix the build.md', now: 99 });
+
+    expect(conversation).toMatchObject({
+      id: 'import-1',
+      title: 'Fix the build',
+      model: 'gpt-5-codex',
+      reasoningEffort: 'high',
+      mode: 'agent',
+      createdAt: exported.createdAt,
+      updatedAt: exported.updatedAt,
+      importedFrom: {
+        format: 'markdown',
+        fileName: 'Fix the build.md',
+        importedAt: 99,
+        messageCount: 2,
+        sourceThreadId: 'thread-1',
+      },
+    });
+    expect(conversation.threadId).toBeUndefined();
+    expect(conversation.messages.map((message) => [message.role, message.content])).toEqual([
+      ['user', 'Why does the build fail?\n\nSee logs.'],
+      ['assistant', 'Fixed the types.\n\n```ts\nconst a = 1;\n```'],
+    ]);
+    expect(conversation.items?.map((item) => [item.itemType, item.item])).toEqual([
+      ['commandExecution', { command: 'npm run build', aggregatedOutput: 'error TS2345', status: 'failed', exitCode: 2 }],
+      ['fileChange', { changes: [{ path: 'src/build.ts', kind: 'update', diff: '-old\n+new' }] }],
+      ['plan', { plan: [{ step: 'Fix types', status: 'completed' }] }],
+      [TURN_DIFF_ITEM_TYPE, '-a\n+b'],
+    ]);
+  });
+
+  it('reads messages and tool calls from a Codex rollout file', () => {
+    const lines = [
+      { timestamp: '2026-02-01T09:00:00.000Z', type: 'session_meta', payload: { id: 'rollout-1', timestamp: '2026-02-01T09:00:00.000Z' } },
+      { timestamp: '2026-02-01T09:00:01.000Z', type: 'turn_context', payload: { model: 'gpt-5-codex', effort: 'medium' } },
+      {
+        timestamp: '2026-02-01T09:00:02.000Z',
+        type: 'response_item',
+        payload: { type: 'message', role: 'user', content: [{ type: 'input_text', text: '<environment_context>cwd</environment_context>' }] },
+      },
+      {
+        timestamp: '2026-02-01T09:00:03.000Z',
+        type: 'response_item',
+        payload: { type: 'message', role: 'user', content: [{ type: 'input_text', text: 'List the files' }] },
+      },
+      {
+        timestamp: '2026-02-01T09:00:04.000Z',
+        type: 'response_item',
+        payload: { type: 'function_call', name: 'shell', call_id: 'call-1', arguments: '{"command":["bash","-lc","ls -a"]}' },
+      },
+      {
+        timestamp: '2026-02-01T09:00:05.000Z',
+        type: 'response_item',
+        payload: { type: 'function_call_output', call_id: 'call-1', output: '{"output":"README.md\\n","metadata":{"exit_code":0}}' },
+      },
+      {
+        timestamp: '2026-02-01T09:00:06.000Z',
+        type: 'response_item',
+        payload: {
+          type: 'custom_tool_call',
+          name: 'apply_patch',
+          call_id: 'call-2',
+          input: '*** Begin Patch\n*** Add File: notes.md\n+hi\n*** End Patch',
+        },
+      },
+      { timestamp: '2026-02-01T09:00:07.000Z', type: 'event_msg', payload: { type: 'agent_message', message: 'dup' } },
+      {
+        timestamp: '2026-02-01T09:00:08.000Z',
+        type: 'response_item',
+        payload: { type: 'message', role: 'assistant', content: [{ type: 'output_text', text: 'Only README.md.' }] },
+      },
+      'not json',
+    ];
+    const content = lines.map((line) => (typeof line === 'string' ? line : JSON.stringify(line))).join('\n');
+
+    expect(detectImportFormat('rollout-2026.jsonl', content)).toBe('rollout');
+    const conversation = parseRolloutJsonl(content, { id: 'import-2', fileName: 'rollout-2026.jsonl', now: 1 });
+
+    expect(conversation).toMatchObject({
+      title: 'List the files',
+      model: 'gpt-5-codex',
+      reasoningEffort: 'medium',
+      createdAt: Date.parse('2026-02-01T09:00:00.000Z'),
+      lastResponseAt: Date.parse('2026-02-01T09:00:08.000Z'),
+      importedFrom: { format: 'rollout', messageCount: 2, sourceThreadId: 'rollout-1' },
+    });
+    expect(conversation.messages.map((message) => message.content)).toEqual(['List the files', 'Only README.md.']);
+    expect(conversation.items?.map((item) => item.item)).toEqual([
+      { command: 'ls -a', status: 'completed', aggregatedOutput: 'README.md\n', exitCode: 0 },
+      { changes: [{ path: 'notes.md', kind: 'add' }], diff: '*** Begin Patch\n*** Add File: notes.md\n+hi\n*** End Patch' },
+    ]);
+  });
+
+  it('rejects files without any messages', () => {
+    expect(() => importConversation('# Just a note', { id: 'x', fileName: 'note.md' })).toThrow(
+      ConversationImportError
+    );
+    expect(() => importConversation('{"type":"session_meta","payload":{}}', { id: 'x', fileName: 'a.jsonl' })).toThrow(
+      'No messages found in the rollout file.'
+    );
+  });
+
+  it('builds a bounded transcript context for continuing an imported session', () => {
+    const conversation = importConversation(renderConversationMarkdown(exported), {
+      id: 'import-1',
+      fileName: 'Fix the build.md',
+    });
+    conversation.messages.push({ id: 'm3', role: 'user', content: 'New prompt', timestamp: 10 });
+
+    const context = buildImportedSessionContext(conversation);
+    expect(context).toContain('[Context: Imported session]\nSource: Fix the build.md');
+    expect(context).toContain('User: Why does the build fail?');
+    expect(context).not.toContain('New prompt');
+
+    const truncated = buildImportedSessionContext(conversation, 20);
+    expect(truncated).toContain('(Truncated: showing last 20 of');
+    expect(buildImportedSessionContext(exported)).toBeNull();
+  });
+});
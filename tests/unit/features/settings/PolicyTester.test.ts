@@ -0,0 +1,72 @@
+import type { ApprovalPolicySettings } from '../../../../src/core/security/ApprovalManager';
+import { formatPolicyTestResult, testApprovalPolicy } from '../../../../src/features/settings/PolicyTester';
+
+const settings: ApprovalPolicySettings = {
+  approvalMode: 'prompt',
+  approvalRules: [
+    { kind: 'command', pattern: 'git *' },
+    { kind: 'path', pattern: 'notes/**', matcher: 'glob' },
+    { kind: 'tool', pattern: 'github/list_issues' },
+  ],
+  commandBlocklist: ['git push --force*'],
+  pathBlocklist: ['secrets/'],
+  mcpServerApprovals: { github: 'deny' },
+};
+
+describe('PolicyTester', () => {
+  it('returns nothing for blank input', () => {
+    expect(testApprovalPolicy(settings, '/vault', 'command', '   ')).toBeNull();
+  });
+
+  it('explains command decisions part by part', () => {
+    const result = testApprovalPolicy(settings, '/vault', 'command', 'git status && npm test');
+    expect(result?.resolution).toEqual({ decision: 'decline', requiresPrompt: true });
+    expect(formatPolicyTestResult(result!, settings.approvalMode)).toEqual([
+      'Decision: Prompt for approval',
+      'Compound command with 2 parts:',
+      '  git status: allowed by command: git *',
+      '  npm test: no allow rule matched',
+      'No rule matched, so the prompt approval mode decides.',
+    ]);
+
+    const blocked = testApprovalPolicy(settings, '/vault', 'command', 'git push --force origin');
+    expect(formatPolicyTestResult(blocked!, settings.approvalMode)).toEqual([
+      'Decision: Decline without prompting',
+      'Blocklist entry: git push --force*',
+    ]);
+  });
+
+  it('reports vault containment and the matching path rule', () => {
+    const allowed = testApprovalPolicy(settings, '/vault', 'path', 'notes/daily/today.md');
+    expect(formatPolicyTestResult(allowed!, settings.approvalMode)).toEqual([
+      'Decision: Accept without prompting',
+      'Inside vault: yes',
+      'Allow rule: path: notes/**',
+    ]);
+
+    const outside = testApprovalPolicy(settings, '/vault', 'path', '../etc/passwd');
+    expect(outside?.insideVault).toBe(false);
+    expect(formatPolicyTestResult(outside!, settings.approvalMode)).toEqual([
+      'Decision: Decline without prompting',
+      'Inside vault: no',
+      'Paths outside the vault are always declined.',
+    ]);
+
+    const blocked = testApprovalPolicy(settings, '/vault', 'path', 'secrets/key.txt');
+    expect(formatPolicyTestResult(blocked!, settings.approvalMode)).toContain('Blocklist entry: secrets/');
+  });
+
+  it('explains mcp tool decisions with the server default', () => {
+    const allowed = testApprovalPolicy(settings, '/vault', 'tool', 'github/list_issues');
+    expect(formatPolicyTestResult(allowed!, settings.approvalMode)).toEqual([
+      'Decision: Accept without prompting',
+      'Allow rule: tool: github/list_issues',
+    ]);
+
+    const denied = testApprovalPolicy(settings, '/vault', 'tool', 'github/create_issue');
+    expect(formatPolicyTestResult(denied!, settings.approvalMode)).toEqual([
+      'Decision: Decline without prompting',
+      'No tool rule matched, so the server default (deny) decides.',
+    ]);
+  });
+});
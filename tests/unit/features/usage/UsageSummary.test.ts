@@ -0,0 +1,66 @@
+import type { CodexianConversation, CodexianUsageRecord } from '../../../../src/core/types';
+import { estimateUsageCost, summarizeUsage, sumUsage } from '../../../../src/features/usage/UsageSummary';
+
+const makeUsage = (model: string | undefined, timestamp: number, totalTokens: number): CodexianUsageRecord => ({
+  model,
+  timestamp,
+  inputTokens: totalTokens - 100,
+  cachedInputTokens: 0,
+  outputTokens: 100,
+  reasoningOutputTokens: 0,
+  totalTokens,
+});
+
+const makeConversation = (id: string, usage: CodexianUsageRecord[]): CodexianConversation => ({
+  id,
+  title: id,
+  createdAt: 1,
+  updatedAt: 1,
+  messages: [],
+  usage,
+});
+
+describe('UsageSummary', () => {
+  const dayOne = new Date(2026, 0, 5, 10).getTime();
+  const dayTwo = new Date(2026, 0, 6, 23).getTime();
+
+  it('aggregates usage per model and per day across conversations', () => {
+    const summary = summarizeUsage([
+      makeConversation('a', [makeUsage('gpt-5', dayOne, 1000), makeUsage('gpt-5-mini', dayTwo, 500)]),
+      makeConversation('b', [makeUsage('gpt-5', dayTwo, 2000), makeUsage(undefined, dayTwo, 300)]),
+      makeConversation('c', []),
+    ]);
+
+    expect(summary.total).toMatchObject({ turns: 4, totalTokens: 3800, cost: null });
+    expect(summary.byModel.map((bucket) => [bucket.key, bucket.turns, bucket.totalTokens])).toEqual([
+      ['gpt-5', 2, 3000],
+      ['gpt-5-mini', 1, 500],
+      ['Unknown model', 1, 300],
+    ]);
+    expect(summary.byDay.map((bucket) => [bucket.key, bucket.totalTokens])).toEqual([
+      ['2026-01-06', 2800],
+      ['2026-01-05', 1000],
+    ]);
+  });
+
+  it('estimates cost only for models with configured pricing', () => {
+    const pricing = { 'gpt-5': { inputPerMillion: 2, cachedInputPerMillion: 0.5, outputPerMillion: 10 } };
+    const record: CodexianUsageRecord = {
+      model: 'gpt-5',
+      timestamp: dayOne,
+      inputTokens: 1_000_000,
+      cachedInputTokens: 200_000,
+      outputTokens: 100_000,
+      reasoningOutputTokens: 0,
+      totalTokens: 1_100_000,
+    };
+
+    expect(estimateUsageCost(record, pricing)).toBeCloseTo(1.6 + 0.1 + 1);
+    expect(estimateUsageCost({ ...record, model: 'other' }, pricing)).toBeNull();
+    expect(sumUsage([record, { ...record, model: undefined }], pricing)).toMatchObject({
+      turns: 2,
+      totalTokens: 2_200_000,
+      cost: expect.closeTo(2.7) as number,
+    });
+  });
+});
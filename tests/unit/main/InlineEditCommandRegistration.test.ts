@@ -47,11 +47,17 @@ describe('Inline edit command registration', () => {
     expect(commandIds).toEqual(
       expect.arrayContaining([
         'open',
+        'open-new-view',
         'inline-edit',
         'new-thread',
         'add-selection-context',
         'add-file-context',
         'implement-todo',
+        'show-diagnostics',
+        'show-usage-summary',
+        'export-conversation',
+        'import-conversation',
+        'show-approval-audit',
       ])
     );
   });
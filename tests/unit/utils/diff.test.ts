@@ -0,0 +1,42 @@
+import { classifyDiffLine, countDiffLines, splitUnifiedDiff } from '../../../src/utils/diff';
+
+const gitDiff = [
+  'diff --git a/notes/a.md b/notes/a.md',
+  'index 111..222 100644',
+  '--- a/notes/a.md',
+  '+++ b/notes/a.md',
+  '@@ -1,2 +1,3 @@',
+  ' keep',
+  '-old',
+  '+new',
+  '+more',
+  'diff --git a/notes/b.md b/notes/b.md',
+  'new file mode 100644',
+  '--- /dev/null',
+  '+++ b/notes/b.md',
+  '@@ -0,0 +1 @@',
+  '+hello',
+].join('\n');
+
+describe('diff utils', () => {
+  it('classifies unified diff lines', () => {
+    expect(classifyDiffLine('@@ -1 +1 @@')).toBe('hunk');
+    expect(classifyDiffLine('+++ b/a.md')).toBe('meta');
+    expect(classifyDiffLine('+added')).toBe('added');
+    expect(classifyDiffLine('-removed')).toBe('removed');
+    expect(classifyDiffLine(' same')).toBe('context');
+  });
+
+  it('counts added and removed lines without headers', () => {
+    expect(countDiffLines(gitDiff)).toEqual({ additions: 3, deletions: 1 });
+  });
+
+  it('splits multi-file diffs by file', () => {
+    const files = splitUnifiedDiff(gitDiff);
+    expect(files.map((file) => file.path)).toEqual(['notes/a.md', 'notes/b.md']);
+    expect(countDiffLines(files[0]?.diff ?? '')).toEqual({ additions: 2, deletions: 1 });
+
+    const plain = splitUnifiedDiff('--- a.txt\n+++ a.txt\n@@ -1 +1 @@\n-a\n+b\n--- c.txt\n+++ c.txt\n@@ -1 +0,0 @@\n-c');
+    expect(plain.map((file) => file.path)).toEqual(['a.txt', 'c.txt']);
+  });
+});